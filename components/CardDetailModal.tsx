@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react';
-import { OutpostCard, CardCondition } from '@/lib/types';
+import { useState, useEffect, useMemo } from 'react';
+import { OutpostCard, CardCondition, CardIdentity } from '@/lib/types';
 import { 
   ScryfallCard, 
   getAllPrintings, 
   getCardByNameAndSet,
+  getCardById,
   getEdhrecData,
   getCardHighRes,
   getCardThumbnail,
@@ -12,7 +13,12 @@ import {
   shouldFetchScryfallData
 } from '@/lib/scryfall';
 import { formatPrice } from '@/lib/utils';
+import { recordObservedPrices } from '@/lib/price-history';
+import { describeVariant, findVariants } from '@/lib/card-variants';
+import { LOW_CONFIDENCE, resolveCardIdentity, setManualIdentity, clearManualIdentity } from '@/lib/card-identity';
+import { pickCondition } from '@/lib/purchase-policy';
 import LoadingSpinner from './LoadingSpinner';
+import PriceHistory from './PriceHistory';
 import useStore from '@/lib/store';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -37,32 +43,55 @@ import { toast } from 'sonner';
 
 interface CardDetailModalProps {
   card: OutpostCard;
+  variants?: OutpostCard[]; // Other variants of the same name; looked up in the loaded inventory when omitted
   isOpen: boolean;
   onClose: () => void;
 }
 
-export default function CardDetailModal({ card, isOpen, onClose }: CardDetailModalProps) {
+export default function CardDetailModal({ card: initialCard, variants, isOpen, onClose }: CardDetailModalProps) {
   const [scryfallData, setScryfallData] = useState<ScryfallCard | null>(null);
   const [allPrintings, setAllPrintings] = useState<ScryfallCard[]>([]);
   const [edhrecData, setEdhrecData] = useState<any>(null);
   const [selectedPrinting, setSelectedPrinting] = useState<ScryfallCard | null>(null);
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'details' | 'printings' | 'edhrec'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'printings' | 'history' | 'edhrec'>('details');
   const [imageError, setImageError] = useState(false);
   const [selectedCondition, setSelectedCondition] = useState<string>('');
-  const { addToBasket } = useStore();
+  const [selectedVariantId, setSelectedVariantId] = useState(initialCard.variantId);
+  const [identity, setIdentity] = useState<CardIdentity | null>(null);
+  const { addToBasket, lastDataRefresh, outpostData, purchasePolicy } = useStore();
+
+  // Every stocked variant of this name (other collections, foil/non-foil)
+  const cardVariants = useMemo(() => {
+    const found = variants && variants.length > 0 ? variants : findVariants(outpostData, initialCard.name);
+    return found.some(variant => variant.variantId === initialCard.variantId) ? found : [initialCard, ...found];
+  }, [variants, outpostData, initialCard]);
+
+  const card = cardVariants.find(variant => variant.variantId === selectedVariantId) || initialCard;
+
+  // Opening the modal for another card starts from that card's variant
+  useEffect(() => {
+    setSelectedVariantId(initialCard.variantId);
+    setSelectedCondition('');
+  }, [initialCard.variantId]);
+
+  const handleVariantChange = (variantId: string) => {
+    setSelectedVariantId(variantId);
+    setSelectedCondition('');
+  };
 
   // Get available conditions for purchase
   const availableConditions = card.conditions?.filter(c => c.stock > 0) || [];
   const allConditions = card.conditions || [];
 
-  // Set default condition to best available (cheapest)
+  // Default to the condition the purchase policy would buy, else the cheapest available
+  const policyCondition = pickCondition(card, purchasePolicy);
   useEffect(() => {
     if (availableConditions.length > 0 && !selectedCondition) {
-      const bestCondition = availableConditions.sort((a, b) => a.price - b.price)[0];
+      const bestCondition = policyCondition || availableConditions.sort((a, b) => a.price - b.price)[0];
       setSelectedCondition(bestCondition.condition);
     }
-  }, [availableConditions, selectedCondition]);
+  }, [availableConditions, selectedCondition, policyCondition]);
 
   const currentCondition = availableConditions.find(c => c.condition === selectedCondition) || availableConditions[0];
 
@@ -70,15 +99,24 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
     if (isOpen && shouldFetchScryfallData(card.name)) {
       fetchCardData();
     }
-  }, [isOpen, card.name]);
+  }, [isOpen, card.variantId]);
+
+  // Feed the price history with the listing and Scryfall prices being viewed
+  useEffect(() => {
+    if (isOpen && selectedPrinting) {
+      recordObservedPrices(card, selectedPrinting, lastDataRefresh);
+    }
+  }, [isOpen, card, selectedPrinting, lastDataRefresh]);
 
   const fetchCardData = async () => {
     setLoading(true);
     setImageError(false);
     
     try {
-      // Fetch main card data
-      const mainCard = await getCardByNameAndSet(card.name);
+      // The printing this listing is linked to, falling back to the newest printing of the name
+      const cardIdentity = await resolveCardIdentity(card);
+      setIdentity(cardIdentity);
+      const mainCard = (cardIdentity && await getCardById(cardIdentity.printingId)) || await getCardByNameAndSet(card.name);
       setScryfallData(mainCard);
       setSelectedPrinting(mainCard);
       
@@ -97,6 +135,20 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
     }
   };
 
+  // Correct a wrong automatic match: this listing is the selected printing
+  const handleLinkPrinting = (printing: ScryfallCard) => {
+    setIdentity(setManualIdentity(card.variantId, printing));
+    setScryfallData(printing);
+    setSelectedPrinting(printing);
+    toast.success(`Linked this listing to ${printing.set_name} #${printing.collector_number}`);
+  };
+
+  const handleResetLink = async () => {
+    clearManualIdentity(card.variantId);
+    setIdentity(await resolveCardIdentity(card));
+    toast.success('Listing will be matched automatically again');
+  };
+
   const handleImageError = () => {
     setImageError(true);
   };
@@ -106,6 +158,7 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
     setAllPrintings([]);
     setEdhrecData(null);
     setSelectedPrinting(null);
+    setIdentity(null);
     setActiveTab('details');
     setImageError(false);
     setSelectedCondition('');
@@ -147,9 +200,16 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
                 </Badge>
               )}
             </div>
-            <Badge variant="outline" className="text-sm">
-              {card.collection}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {identity && identity.source === 'auto' && identity.confidence < LOW_CONFIDENCE && (
+                <Badge variant="secondary" className="text-xs" title="The Scryfall printing for this listing is a guess - check Other Printings">
+                  Printing unverified
+                </Badge>
+              )}
+              <Badge variant="outline" className="text-sm">
+                {card.collection}
+              </Badge>
+            </div>
           </DialogTitle>
         </DialogHeader>
 
@@ -199,6 +259,25 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  {/* Variant Selector */}
+                  {cardVariants.length > 1 && (
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-medium">Version:</span>
+                      <Select value={card.variantId} onValueChange={handleVariantChange}>
+                        <SelectTrigger className="w-96">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {cardVariants.map((variant) => (
+                            <SelectItem key={variant.variantId} value={variant.variantId}>
+                              {describeVariant(variant)} - {formatPrice(variant.price / 100)} ({variant.stock > 0 ? `${variant.stock} in stock` : 'out of stock'})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   {/* Condition Selector */}
                   {availableConditions.length > 1 && (
                     <div className="flex items-center gap-3">
@@ -273,7 +352,7 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
 
             {/* Tabs for Additional Information */}
             <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as any)} className="flex-1">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="details">Card Details</TabsTrigger>
                 <TabsTrigger value="printings">
                   Other Printings
@@ -283,6 +362,7 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
                     </Badge>
                   )}
                 </TabsTrigger>
+                <TabsTrigger value="history">Price History</TabsTrigger>
                 <TabsTrigger value="edhrec">
                   EDHREC Data
                   {edhrecData && (
@@ -393,6 +473,20 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
 
                 <TabsContent value="printings" className="h-full">
                   <ScrollArea className="h-[400px]">
+                    {identity && (
+                      <div className="flex items-center justify-between gap-3 mb-3 text-sm">
+                        <span className="text-muted-foreground">
+                          {identity.source === 'manual'
+                            ? 'Linked to a printing you picked.'
+                            : `Matched automatically (${Math.round(identity.confidence * 100)}% confidence). Pick the right printing if this listing is a different one.`}
+                        </span>
+                        {identity.source === 'manual' && (
+                          <Button variant="ghost" size="sm" onClick={handleResetLink}>
+                            Reset
+                          </Button>
+                        )}
+                      </div>
+                    )}
                     <div className="grid grid-cols-1 gap-3">
                       {allPrintings.map((printing) => (
                         <Card 
@@ -415,6 +509,22 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
                                   #{printing.collector_number} • {printing.rarity}
                                 </div>
                               </div>
+                              {identity?.printingId === printing.id ? (
+                                <Badge variant={identity.source === 'manual' || identity.confidence >= LOW_CONFIDENCE ? 'default' : 'secondary'}>
+                                  This listing
+                                </Badge>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleLinkPrinting(printing);
+                                  }}
+                                >
+                                  Link to listing
+                                </Button>
+                              )}
                               {printing.prices?.usd && (
                                 <div className="text-right">
                                   <div className="text-sm font-medium">
@@ -433,6 +543,12 @@ export default function CardDetailModal({ card, isOpen, onClose }: CardDetailMod
                   </ScrollArea>
                 </TabsContent>
 
+                <TabsContent value="history" className="h-full">
+                  <ScrollArea className="h-[400px]">
+                    <PriceHistory card={card} printing={displayCard} />
+                  </ScrollArea>
+                </TabsContent>
+
                 <TabsContent value="edhrec" className="h-full">
                   <ScrollArea className="h-[400px]">
                     {edhrecData ? (
@@ -1,9 +1,13 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import useStore from '@/lib/store';
-import { OutpostCard, CardCondition } from '@/lib/types';
-import { formatPrice, searchCards } from '@/lib/utils';
+import { OutpostCard, CardCondition, InventoryFilters, InventoryPage, InventoryQuery, SearchSuggestion } from '@/lib/types';
+import { formatPrice } from '@/lib/utils';
+import { DEFAULT_INVENTORY_FILTERS, DEFAULT_PAGE_SIZE, inventoryQueryToParams, listCollections } from '@/lib/inventory-query';
+import { InventorySearch, createInventorySearch } from '@/lib/inventory-search';
+import { cardNameKey, groupVariantsByName } from '@/lib/card-variants';
+import { getPrintingForVariant } from '@/lib/card-identity';
+import { isListingAcceptable, pickCondition, policyFilters } from '@/lib/purchase-policy';
 import { 
-  getCardForThumbnail, 
   getCardThumbnail, 
   shouldFetchScryfallData, 
   clearImageCache, 
@@ -38,7 +42,9 @@ import {
   PlusIcon,
   RefreshCwIcon,
   DatabaseIcon,
-  SparklesIcon
+  SparklesIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { FixedSizeList as List } from 'react-window';
@@ -97,15 +103,6 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
-// Search suggestion types
-interface SearchSuggestion {
-  type: 'card' | 'collection' | 'set';
-  value: string;
-  label: string;
-  count?: number;
-  extra?: string;
-}
-
 // Enhanced Search Input Component with Autocomplete
 interface SearchInputProps {
   value: string;
@@ -277,21 +274,24 @@ const ImageSkeleton = () => (
 // Enhanced Card grid item component with hover cart icon
 interface CardItemProps {
   card: OutpostCard;
+  variantCount: number; // Variants of this name on the page; the best one is shown
   onCardClick: (card: OutpostCard) => void;
   cardThumbnails: Map<string, string>;
 }
 
-const CardItem = ({ card, onCardClick, cardThumbnails }: CardItemProps) => {
+const CardItem = ({ card, variantCount, onCardClick, cardThumbnails }: CardItemProps) => {
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
   const [selectedCondition, setSelectedCondition] = useState<string>('');
   const [isHovered, setIsHovered] = useState(false);
-  const { addToBasket } = useStore();
+  const { addToBasket, purchasePolicy } = useStore();
 
-  const thumbnailUrl = cardThumbnails.get(card.name);
+  const thumbnailUrl = cardThumbnails.get(card.variantId);
   const availableConditions = card.conditions?.filter(c => c.stock > 0) || [];
   const hasStock = availableConditions.length > 0;
+  const policyConditions = availableConditions.filter(c => isListingAcceptable(purchasePolicy, card, c));
+  const policyCondition = pickCondition(card, purchasePolicy);
 
   // Reset states when thumbnail URL changes
   useEffect(() => {
@@ -302,15 +302,14 @@ const CardItem = ({ card, onCardClick, cardThumbnails }: CardItemProps) => {
     }
   }, [thumbnailUrl]);
 
-  // Default to best available condition (lowest price)
+  // Default to the condition the purchase policy would buy; only conditions it accepts can be picked
   useEffect(() => {
-    if (availableConditions.length > 0 && !selectedCondition) {
-      const bestCondition = availableConditions.sort((a, b) => a.price - b.price)[0];
-      setSelectedCondition(bestCondition.condition);
+    if (policyCondition && !selectedCondition) {
+      setSelectedCondition(policyCondition.condition);
     }
-  }, [availableConditions, selectedCondition]);
+  }, [selectedCondition, policyCondition]);
 
-  const currentCondition = availableConditions.find(c => c.condition === selectedCondition) || availableConditions[0];
+  const currentCondition = policyConditions.find(c => c.condition === selectedCondition) || policyCondition;
   const minPrice = (card.conditions && card.conditions.length > 0) 
     ? Math.min(...card.conditions.map(c => c.price)) 
     : 0;
@@ -319,7 +318,9 @@ const CardItem = ({ card, onCardClick, cardThumbnails }: CardItemProps) => {
     e.stopPropagation();
     if (currentCondition) {
       addToBasket(card, currentCondition, 1);
-      toast.success(`Added ${card.name} to cart`);
+      toast.success(`Added ${card.name} (${currentCondition.condition}) to cart`);
+    } else if (hasStock) {
+      toast.error('No copies meet your purchase policy');
     } else {
       toast.error('No available stock for this card');
     }
@@ -418,6 +419,15 @@ const CardItem = ({ card, onCardClick, cardThumbnails }: CardItemProps) => {
                 <Badge variant="outline" className="text-xs truncate max-w-32">
                   {card.collection}
                 </Badge>
+                {variantCount > 1 && (
+                  <Badge
+                    variant="secondary"
+                    className="text-xs cursor-pointer"
+                    onClick={() => onCardClick(card)}
+                  >
+                    +{variantCount - 1} version{variantCount > 2 ? 's' : ''}
+                  </Badge>
+                )}
                 {/* Mana Color Icons */}
                 <div className="flex items-center gap-1 ml-1">
                   {getCardColors(card.colors).map((color: string, index: number) => (
@@ -428,13 +438,13 @@ const CardItem = ({ card, onCardClick, cardThumbnails }: CardItemProps) => {
             </div>
 
             {/* Condition Selector */}
-            {hasStock && availableConditions.length > 1 && (
+            {policyConditions.length > 1 && (
               <Select value={selectedCondition} onValueChange={setSelectedCondition}>
                 <SelectTrigger className="w-full h-8 text-xs">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {availableConditions.map((condition) => (
+                  {policyConditions.map((condition) => (
                     <SelectItem key={condition.condition} value={condition.condition}>
                       {condition.condition} - {formatPrice(condition.price / 100)} ({condition.stock} left)
                     </SelectItem>
@@ -472,20 +482,23 @@ const CardItem = ({ card, onCardClick, cardThumbnails }: CardItemProps) => {
 // List item component  
 interface ListItemProps {
   card: OutpostCard;
+  variantCount: number;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
   onCardClick: (card: OutpostCard) => void;
   cardThumbnails: Map<string, string>;
 }
 
-const ListItem = ({ card, onCardClick, cardThumbnails }: ListItemProps) => {
+const ListItem = ({ card, variantCount, isExpanded, onToggleExpanded, onCardClick, cardThumbnails }: ListItemProps) => {
   const [imageLoading, setImageLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
   const [retryCount, setRetryCount] = useState(0);
-  const { addToBasket } = useStore();
+  const { addToBasket, purchasePolicy } = useStore();
 
-  const thumbnailUrl = cardThumbnails.get(card.name);
+  const thumbnailUrl = cardThumbnails.get(card.variantId);
   const availableConditions = card.conditions?.filter(c => c.stock > 0) || [];
   const hasStock = availableConditions.length > 0;
-  const bestCondition = availableConditions.sort((a, b) => a.price - b.price)[0];
+  const bestCondition = pickCondition(card, purchasePolicy);
   const minPrice = (card.conditions && card.conditions.length > 0) 
     ? Math.min(...card.conditions.map(c => c.price)) 
     : 0;
@@ -503,7 +516,9 @@ const ListItem = ({ card, onCardClick, cardThumbnails }: ListItemProps) => {
     e.stopPropagation();
     if (bestCondition) {
       addToBasket(card, bestCondition, 1);
-      toast.success(`Added ${card.name} to cart`);
+      toast.success(`Added ${card.name} (${bestCondition.condition}) to cart`);
+    } else if (hasStock) {
+      toast.error('No copies meet your purchase policy');
     } else {
       toast.error('No available stock for this card');
     }
@@ -564,6 +579,20 @@ const ListItem = ({ card, onCardClick, cardThumbnails }: ListItemProps) => {
                   ✨ Foil
                 </Badge>
               )}
+              {variantCount > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 px-1 text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onToggleExpanded();
+                  }}
+                >
+                  {isExpanded ? <ChevronUpIcon className="h-3 w-3 mr-1" /> : <ChevronDownIcon className="h-3 w-3 mr-1" />}
+                  {variantCount} versions
+                </Button>
+              )}
               {/* Mana Color Icons */}
               <div className="flex items-center gap-1">
                 {getCardColors(card.colors).map((color: string, index: number) => (
@@ -600,23 +629,64 @@ const ListItem = ({ card, onCardClick, cardThumbnails }: ListItemProps) => {
   );
 };
 
+// Compact row for one of the other variants of an expanded list item
+interface VariantRowProps {
+  card: OutpostCard;
+  onCardClick: (card: OutpostCard) => void;
+}
+
+const VariantRow = ({ card, onCardClick }: VariantRowProps) => {
+  const { addToBasket, purchasePolicy } = useStore();
+  const bestCondition = pickCondition(card, purchasePolicy);
+
+  const handleAddToCart = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (bestCondition) {
+      addToBasket(card, bestCondition, 1);
+      toast.success(`Added ${card.name} (${card.collection}) to cart`);
+    }
+  };
+
+  return (
+    <div
+      className="flex items-center justify-between gap-4 rounded border bg-muted/40 px-4 py-2 text-sm cursor-pointer hover:bg-muted"
+      onClick={() => onCardClick(card)}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <span className="truncate">{card.collection}</span>
+        {card.foil && (
+          <Badge variant="outline" className="text-xs">
+            ✨ Foil
+          </Badge>
+        )}
+      </div>
+      <div className="flex items-center gap-4 flex-shrink-0">
+        <span className="text-xs text-muted-foreground">
+          {bestCondition ? `${bestCondition.condition} • ` : ''}{card.stock} in stock
+        </span>
+        <span className="font-semibold text-green-600">
+          {formatPrice((bestCondition ? bestCondition.price : card.price) / 100)}
+        </span>
+        <Button size="sm" variant="outline" className="h-7" onClick={handleAddToCart} disabled={!bestCondition}>
+          <PlusIcon className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
 // Integrated filters component
 interface FiltersProps {
-  filters: {
-    availableOnly: boolean;
-    foilOnly: boolean;
-    rarities: string[];
-    priceRange: [number, number];
-    collections: string[];
-    conditions: string[];
-  };
-  onFiltersChange: (filters: any) => void;
+  filters: InventoryFilters;
+  defaultFilters: InventoryFilters; // what clearing goes back to (follows the purchase policy)
+  onFiltersChange: (filters: InventoryFilters) => void;
   availableCollections: string[];
-  totalCards: number;
+  totalVariants: number;
   filteredCards: number;
+  filteredVariants: number;
 }
 
-const IntegratedFilters = ({ filters, onFiltersChange, availableCollections, totalCards, filteredCards }: FiltersProps) => {
+const IntegratedFilters = ({ filters, defaultFilters, onFiltersChange, availableCollections, totalVariants, filteredCards, filteredVariants }: FiltersProps) => {
   const [showAdvanced, setShowAdvanced] = useState(false);
 
   const availableRarities = ['Common', 'Uncommon', 'Rare', 'Mythic'];
@@ -630,14 +700,7 @@ const IntegratedFilters = ({ filters, onFiltersChange, availableCollections, tot
   ].filter(Boolean).length;
 
   const clearFilters = () => {
-    onFiltersChange({
-      availableOnly: false,
-      foilOnly: false,
-      rarities: [],
-      priceRange: [0, 1000],
-      collections: [],
-      conditions: []
-    });
+    onFiltersChange(defaultFilters);
   };
 
   return (
@@ -698,7 +761,7 @@ const IntegratedFilters = ({ filters, onFiltersChange, availableCollections, tot
       {/* Results Summary */}
       <div className="flex items-center justify-between text-sm">
         <div className="text-muted-foreground">
-          Showing {filteredCards.toLocaleString()} of {totalCards.toLocaleString()} cards
+          Showing {filteredCards.toLocaleString()} cards ({filteredVariants.toLocaleString()} of {totalVariants.toLocaleString()} versions)
         </div>
       </div>
 
@@ -766,6 +829,43 @@ const IntegratedFilters = ({ filters, onFiltersChange, availableCollections, tot
   );
 };
 
+// Page navigation for search results
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+const Pagination = ({ page, totalPages, onPageChange }: PaginationProps) => {
+  if (totalPages <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-3 mt-6">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page - 1)}
+        disabled={page <= 1}
+      >
+        <ChevronLeftIcon className="h-4 w-4 mr-1" />
+        Previous
+      </Button>
+      <span className="text-sm text-muted-foreground">
+        Page {page.toLocaleString()} of {totalPages.toLocaleString()}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= totalPages}
+      >
+        Next
+        <ChevronRightIcon className="h-4 w-4 ml-1" />
+      </Button>
+    </div>
+  );
+};
+
 // Enhanced card image loading with caching
 const useCardImage = (card: OutpostCard) => {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
@@ -788,8 +888,8 @@ const useCardImage = (card: OutpostCard) => {
       setError(false);
       
       try {
-        // Use the same simple logic as the modal
-        const scryfallCard = await getCardForThumbnail(card.name);
+        // The printing this listing is linked to (see lib/card-identity.ts)
+        const scryfallCard = await getPrintingForVariant(card);
         
         if (isCancelled) return;
         
@@ -825,7 +925,7 @@ const useCardImage = (card: OutpostCard) => {
     return () => {
       isCancelled = true;
     };
-  }, [card.name, shouldLoad, loading, error, imageUrl, retryCount]);
+  }, [card, shouldLoad, loading, error, imageUrl, retryCount]);
   
   return { imageUrl, loading, error };
 };
@@ -887,235 +987,158 @@ export default function CardSearch() {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [sortBy, setSortBy] = useState<'name' | 'price' | 'stock' | 'collection'>('name');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-  const [isFiltering, setIsFiltering] = useState(false);
-  const [filters, setFilters] = useState({
-    availableOnly: false,
-    foilOnly: false,
-    rarities: [] as string[],
-    priceRange: [0, 1000] as [number, number],
-    collections: [] as string[],
-    conditions: [] as string[]
-  });
+  const [filters, setFilters] = useState<InventoryFilters>(DEFAULT_INVENTORY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [serverPage, setServerPage] = useState<InventoryPage | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
 
   // Faster debounce for autocomplete suggestions (200ms)
   const debouncedSearchTerm = useDebounce(localSearchTerm, 200);
-  const { outpostData, isLoading } = useStore();
+  const { outpostData, isLoading, purchasePolicy, inventoryApiAvailable: apiAvailable, inventoryOverview, setInventoryApiAvailable } = useStore();
 
-  const availableCollections = useMemo(() => {
-    const collections = new Set(outpostData.map(card => card.collection));
-    return Array.from(collections).sort();
-  }, [outpostData]);
+  // The purchase policy's minimum condition and foil choice are the default filters
+  const defaultFilters = useMemo<InventoryFilters>(
+    () => ({ ...DEFAULT_INVENTORY_FILTERS, ...policyFilters(purchasePolicy) }),
+    [purchasePolicy]
+  );
 
-  // Generate search suggestions
-  const searchSuggestions = useMemo(() => {
-    if (!localSearchTerm || localSearchTerm.length < 2) return [];
-    
-    const suggestions: SearchSuggestion[] = [];
-    const searchLower = localSearchTerm.toLowerCase();
-    const isSetSearch = searchLower.startsWith('@');
-    
-    if (isSetSearch) {
-      // Set search suggestions
-      const setQuery = searchLower.slice(1);
-      const setMap = new Map<string, { full: string; count: number }>();
-      
-      outpostData.forEach(card => {
-        const collection = card.collection.toLowerCase();
-        if (collection.includes(setQuery)) {
-          const existing = setMap.get(collection);
-          if (existing) {
-            existing.count++;
-          } else {
-            setMap.set(collection, { full: card.collection, count: 1 });
-          }
-        }
-      });
-      
-      Array.from(setMap.entries())
-        .sort(([,a], [,b]) => b.count - a.count)
-        .slice(0, 5)
-        .forEach(([key, data]) => {
-          suggestions.push({
-            type: 'set',
-            value: `@${key}`,
-            label: data.full,
-            count: data.count
-          });
-        });
-    } else {
-      // Card name suggestions
-      const cardMatches = new Map<string, { card: OutpostCard; count: number }>();
-      
-      outpostData.forEach(card => {
-        if (card.name.toLowerCase().includes(searchLower)) {
-          const key = card.name.toLowerCase();
-          const existing = cardMatches.get(key);
-          if (existing) {
-            existing.count++;
-          } else {
-            cardMatches.set(key, { card, count: 1 });
-          }
-        }
-      });
-      
-      Array.from(cardMatches.values())
-        .sort((a, b) => {
-          // Prioritize exact matches and available cards
-          const aExact = a.card.name.toLowerCase().startsWith(searchLower) ? 1 : 0;
-          const bExact = b.card.name.toLowerCase().startsWith(searchLower) ? 1 : 0;
-          if (aExact !== bExact) return bExact - aExact;
-          
-          const aAvailable = (a.card.conditions && a.card.conditions.length > 0 && a.card.conditions.some(c => c.stock > 0)) ? 1 : 0;
-          const bAvailable = (b.card.conditions && b.card.conditions.length > 0 && b.card.conditions.some(c => c.stock > 0)) ? 1 : 0;
-          if (aAvailable !== bAvailable) return bAvailable - aAvailable;
-          
-          return b.count - a.count;
-        })
-        .slice(0, 6)
-        .forEach(({ card, count }) => {
-          const hasStock = (card.conditions && card.conditions.length > 0 && card.conditions.some(c => c.stock > 0));
-          suggestions.push({
-            type: 'card',
-            value: card.name,
-            label: card.name,
-            extra: hasStock ? 'In Stock' : 'Out of Stock',
-            count
-          });
-        });
-      
-      // Collection suggestions
-      const collectionMatches = availableCollections
-        .filter(collection => collection.toLowerCase().includes(searchLower))
-        .slice(0, 3);
-      
-      collectionMatches.forEach(collection => {
-        const count = outpostData.filter(card => card.collection === collection).length;
-        suggestions.push({
-          type: 'collection',
-          value: collection,
-          label: collection,
-          count
-        });
-      });
-    }
-    
-    return suggestions;
-  }, [localSearchTerm, outpostData, availableCollections]);
-
-  // Filter and sort cards with performance optimization
-  const filteredCards = useMemo(() => {
-    if (!outpostData) return [];
-
-    console.log('Filtering cards...', {
-      totalCards: outpostData.length,
-      searchTerm: debouncedSearchTerm,
-      filters,
-      sampleCard: outpostData[0], // Log first card to see structure
-      hasConditions: outpostData[0]?.conditions ? 'YES' : 'NO'
-    });
+  useEffect(() => {
+    setFilters(prev => ({ ...prev, ...policyFilters(purchasePolicy) }));
+    setPage(1);
+  }, [purchasePolicy]);
+
+  // The inventory API lists the collections when the inventory itself was not downloaded
+  const availableCollections = useMemo(
+    () => outpostData.length > 0 ? listCollections(outpostData) : inventoryOverview?.collections || [],
+    [outpostData, inventoryOverview]
+  );
 
-    setIsFiltering(true);
+  // Search index and queries live in a worker so typing never blocks on the full inventory
+  const searchRef = useRef<InventorySearch | null>(null);
+  const [searchReady, setSearchReady] = useState(false);
+  const [searchSuggestions, setSearchSuggestions] = useState<SearchSuggestion[]>([]);
+  const [localPage, setLocalPage] = useState<InventoryPage | null>(null);
 
-    let cards = searchCards(outpostData, debouncedSearchTerm);
+  useEffect(() => {
+    const search = createInventorySearch();
+    searchRef.current = search;
+    setSearchReady(true);
 
-    // Filter out underscore-only cards unless specifically searching
-    if (!debouncedSearchTerm.includes('_')) {
-      cards = cards.filter(card => !card.name.match(/^_+$/));
-    }
+    return () => {
+      search.dispose();
+      searchRef.current = null;
+    };
+  }, []);
 
-    // Apply filters
-    if (filters.availableOnly) {
-      cards = cards.filter(card => 
-        card.conditions && card.conditions.length > 0 && card.conditions.some(c => c.stock > 0)
-      );
-    }
+  // The worker only gets the inventory when searching without the API (the page probes it on mount)
+  useEffect(() => {
+    if (apiAvailable !== false) return;
+    searchRef.current?.setInventory(outpostData);
+  }, [searchReady, apiAvailable, outpostData]);
 
-    if (filters.foilOnly) {
-      cards = cards.filter(card => card.foil);
+  // Suggestions follow every keystroke; superseded ones resolve with null and are dropped
+  useEffect(() => {
+    const search = searchRef.current;
+    if (apiAvailable === null || !search || localSearchTerm.length < 2) {
+      setSearchSuggestions([]);
+      return;
     }
 
-    if (filters.rarities.length > 0) {
-      cards = cards.filter(card => filters.rarities.includes(card.rarity));
-    }
+    let cancelled = false;
+    const controller = new AbortController();
+    const suggestions = apiAvailable
+      ? fetch(`/api/inventory-suggestions?q=${encodeURIComponent(localSearchTerm)}`, { signal: controller.signal })
+          .then(response => response.ok ? response.json() : { suggestions: [] })
+          .then((result: { suggestions: SearchSuggestion[] }) => result.suggestions)
+          .catch(() => null)
+      : search.suggest(localSearchTerm);
+
+    suggestions.then(result => {
+      if (!cancelled && result) setSearchSuggestions(result);
+    });
 
-    if (filters.conditions.length > 0) {
-      cards = cards.filter(card => 
-        card.conditions && card.conditions.length > 0 && 
-        card.conditions.some(condition => filters.conditions.includes(condition.condition))
-      );
-    }
+    return () => {
+      cancelled = true;
+      controller.abort();
+    };
+  }, [searchReady, apiAvailable, localSearchTerm, outpostData]);
+
+  // Results are paginated by card name; each row holds every matching variant
+  const inventoryQuery = useMemo<InventoryQuery>(() => ({
+    query: debouncedSearchTerm,
+    filters,
+    groupBy: 'name',
+    sortBy,
+    sortDirection,
+    page,
+    pageSize: DEFAULT_PAGE_SIZE
+  }), [debouncedSearchTerm, filters, sortBy, sortDirection, page]);
+
+  // Server-side search: fetch the requested page, aborting stale requests
+  useEffect(() => {
+    if (!apiAvailable) return;
 
-    if (filters.collections.length > 0) {
-      cards = cards.filter(card => filters.collections.includes(card.collection));
-    }
+    const controller = new AbortController();
+    setIsFetching(true);
 
-    // Price range filter (convert euros to cents)
-    const [minPrice, maxPrice] = filters.priceRange;
-    cards = cards.filter(card => {
-      // Safety check: ensure card.conditions exists and has at least one condition
-      if (!card.conditions || card.conditions.length === 0) {
-        return false;
-      }
-      const cardMinPrice = Math.min(...card.conditions.map(c => c.price));
-      return cardMinPrice >= minPrice * 100 && cardMinPrice <= maxPrice * 100;
-    });
+    fetch(`/api/inventory?${inventoryQueryToParams(inventoryQuery).toString()}`, { signal: controller.signal })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Inventory API returned ${response.status}`);
+        }
+        return response.json();
+      })
+      .then((result: InventoryPage) => {
+        setServerPage(result);
+        setIsFetching(false);
+      })
+      .catch(error => {
+        if (error.name === 'AbortError') return;
+        console.error('Inventory API failed, falling back to client-side search:', error);
+        setInventoryApiAvailable(false);
+        setIsFetching(false);
+      });
 
-    // Sort cards
-    cards.sort((a, b) => {
-      let aVal, bVal;
-      
-      switch (sortBy) {
-        case 'name':
-          aVal = a.name.toLowerCase();
-          bVal = b.name.toLowerCase();
-          break;
-        case 'price':
-          // Safety check for conditions
-          aVal = (a.conditions && a.conditions.length > 0) 
-            ? Math.min(...a.conditions.map(c => c.price)) 
-            : Number.MAX_SAFE_INTEGER;
-          bVal = (b.conditions && b.conditions.length > 0) 
-            ? Math.min(...b.conditions.map(c => c.price)) 
-            : Number.MAX_SAFE_INTEGER;
-          break;
-        case 'stock':
-          // Safety check for conditions
-          aVal = (a.conditions && a.conditions.length > 0) 
-            ? a.conditions.reduce((sum, c) => sum + c.stock, 0) 
-            : 0;
-          bVal = (b.conditions && b.conditions.length > 0) 
-            ? b.conditions.reduce((sum, c) => sum + c.stock, 0) 
-            : 0;
-          break;
-        case 'collection':
-          aVal = a.collection.toLowerCase();
-          bVal = b.collection.toLowerCase();
-          break;
-        default:
-          aVal = a.name.toLowerCase();
-          bVal = b.name.toLowerCase();
-      }
-      
-      const result = sortDirection === 'asc' 
-        ? (aVal < bVal ? -1 : aVal > bVal ? 1 : 0)
-        : (aVal > bVal ? -1 : aVal < bVal ? 1 : 0);
-        
-      return result;
-    });
+    return () => controller.abort();
+  }, [apiAvailable, inventoryQuery, setInventoryApiAvailable]);
+
+  // Client-side search over the loaded inventory when the API is not available
+  useEffect(() => {
+    const search = searchRef.current;
+    if (apiAvailable !== false || !search) return;
 
-    setTimeout(() => setIsFiltering(false), 100);
-    return cards.slice(0, 500); // Limit for performance
-  }, [outpostData, debouncedSearchTerm, sortBy, sortDirection, filters]);
+    let cancelled = false;
+    search.query(inventoryQuery).then(result => {
+      if (!cancelled && result) setLocalPage(result);
+    });
 
-  const displayedCards = filteredCards.slice(0, 500);
+    return () => {
+      cancelled = true;
+    };
+  }, [searchReady, apiAvailable, outpostData, inventoryQuery]);
+
+  const resultPage = apiAvailable ? serverPage : localPage;
+  const displayedCards = useMemo(() => resultPage?.cards || [], [resultPage]);
+  const displayedGroups = useMemo(() => groupVariantsByName(displayedCards), [displayedCards]);
+
+  // Variants offered in the detail modal's picker
+  const selectedVariants = useMemo(() => {
+    if (!selectedCard) return undefined;
+    const group = displayedGroups.find(g => g.key === cardNameKey(selectedCard.name));
+    return group ? group.variants : undefined;
+  }, [selectedCard, displayedGroups]);
+  const isFiltering = apiAvailable === null || (apiAvailable
+    ? isFetching && !serverPage
+    : !localPage && outpostData.length > 0);
 
   // Enhanced image loading with better error handling and more comprehensive fetching
   useEffect(() => {
     const fetchThumbnails = async () => {
       // Load more cards at once for better UX (up to 100 cards)
-      const cardsToLoad = displayedCards.slice(0, 100);
+      const cardsToLoad = displayedGroups.slice(0, 100).map(group => group.variants[0]);
       const cardsNeedingImages = cardsToLoad.filter(card => 
-        !cardThumbnails.has(card.name) && shouldFetchScryfallData(card.name)
+        !cardThumbnails.has(card.variantId) && shouldFetchScryfallData(card.name)
       );
 
       if (cardsNeedingImages.length === 0) return;
@@ -1131,13 +1154,13 @@ export default function CardSearch() {
         
         const promises = batch.map(async (card) => {
           try {
-            // Use the same simple logic as the modal - more reliable
-            const scryfallCard = await getCardForThumbnail(card.name);
+            // Show the printing this listing is linked to, not just any card with the name
+            const scryfallCard = await getPrintingForVariant(card);
 
             if (scryfallCard) {
               const thumbnailUrl = getCardThumbnail(scryfallCard);
               if (thumbnailUrl) {
-                return [card.name, thumbnailUrl] as [string, string];
+                return [card.variantId, thumbnailUrl] as [string, string];
               }
             }
             
@@ -1172,7 +1195,7 @@ export default function CardSearch() {
     };
 
     fetchThumbnails();
-  }, [displayedCards, cardThumbnails]);
+  }, [displayedGroups, cardThumbnails]);
 
   const handleSort = (newSortBy: typeof sortBy) => {
     if (sortBy === newSortBy) {
@@ -1181,14 +1204,43 @@ export default function CardSearch() {
       setSortBy(newSortBy);
       setSortDirection('asc');
     }
+    setPage(1);
+  };
+
+  // Any change to the search or filters starts again from the first page
+  const handleSearchChange = (value: string) => {
+    setLocalSearchTerm(value);
+    setPage(1);
+  };
+
+  const handleFiltersChange = (newFilters: InventoryFilters) => {
+    setFilters(newFilters);
+    setPage(1);
+  };
+
+  const handlePageChange = (newPage: number) => {
+    setPage(newPage);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleCardClick = useCallback((card: OutpostCard) => {
     setSelectedCard(card);
   }, []);
 
-  // Show loading state
-  if (isLoading) {
+  const toggleGroupExpanded = (key: string) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  // Show loading state (server-side search does not need the full inventory)
+  if (isLoading && apiAvailable === false) {
     return (
       <Card>
         <CardContent className="flex items-center justify-center py-12">
@@ -1209,7 +1261,7 @@ export default function CardSearch() {
             {/* Enhanced Search Input with Autocomplete */}
             <SearchInput
               value={localSearchTerm}
-              onChange={setLocalSearchTerm}
+              onChange={handleSearchChange}
               suggestions={searchSuggestions}
               placeholder="Search cards... Use @bloom for Bloomburrow sets"
             />
@@ -1251,7 +1303,10 @@ export default function CardSearch() {
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc')}
+                  onClick={() => {
+                    setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+                    setPage(1);
+                  }}
                 >
                   {sortDirection === 'asc' ? <SortAscIcon className="h-4 w-4" /> : <SortDescIcon className="h-4 w-4" />}
                 </Button>
@@ -1262,10 +1317,12 @@ export default function CardSearch() {
           {/* Integrated Filters */}
           <IntegratedFilters
             filters={filters}
-            onFiltersChange={setFilters}
+            defaultFilters={defaultFilters}
+            onFiltersChange={handleFiltersChange}
             availableCollections={availableCollections}
-            totalCards={outpostData.length}
-            filteredCards={filteredCards.length}
+            totalVariants={resultPage?.datasetTotal ?? outpostData.length}
+            filteredCards={resultPage?.total ?? 0}
+            filteredVariants={resultPage?.totalVariants ?? 0}
           />
         </CardContent>
       </Card>
@@ -1284,21 +1341,13 @@ export default function CardSearch() {
       {!isFiltering && displayedCards.length > 0 ? (
         <Card>
           <CardContent className="p-6">
-            {filteredCards.length > 500 && (
-              <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <p className="text-sm text-yellow-800">
-                  <strong>Performance Note:</strong> Showing first 500 of {filteredCards.length.toLocaleString()} results. 
-                  Please refine your search to see more specific results.
-                </p>
-              </div>
-            )}
-            
             {viewMode === 'grid' ? (
               <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-6">
-                {displayedCards.map((card) => (
+                {displayedGroups.map((group) => (
                   <CardItem
-                    key={`${card.name}-${card.collection}-${card.foil}`}
-                    card={card}
+                    key={group.key}
+                    card={group.variants[0]}
+                    variantCount={group.variants.length}
                     onCardClick={handleCardClick}
                     cardThumbnails={cardThumbnails}
                   />
@@ -1306,16 +1355,38 @@ export default function CardSearch() {
               </div>
             ) : (
               <div className="space-y-2">
-                {displayedCards.map((card) => (
-                  <ListItem
-                    key={`${card.name}-${card.collection}-${card.foil}`}
-                    card={card}
-                    onCardClick={handleCardClick}
-                    cardThumbnails={cardThumbnails}
-                  />
-                ))}
+                {displayedGroups.map((group) => {
+                  const isExpanded = expandedGroups.has(group.key);
+                  return (
+                    <div key={group.key} className="space-y-1">
+                      <ListItem
+                        card={group.variants[0]}
+                        variantCount={group.variants.length}
+                        isExpanded={isExpanded}
+                        onToggleExpanded={() => toggleGroupExpanded(group.key)}
+                        onCardClick={handleCardClick}
+                        cardThumbnails={cardThumbnails}
+                      />
+                      {isExpanded && (
+                        <div className="ml-20 space-y-1">
+                          {group.variants.slice(1).map(variant => (
+                            <VariantRow key={variant.variantId} card={variant} onCardClick={handleCardClick} />
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             )}
+
+            {resultPage && (
+              <Pagination
+                page={resultPage.page}
+                totalPages={resultPage.totalPages}
+                onPageChange={handlePageChange}
+              />
+            )}
           </CardContent>
         </Card>
       ) : !isFiltering && (
@@ -1339,6 +1410,7 @@ export default function CardSearch() {
       {selectedCard && (
         <CardDetailModal
           card={selectedCard}
+          variants={selectedVariants}
           isOpen={!!selectedCard}
           onClose={() => setSelectedCard(null)}
         />
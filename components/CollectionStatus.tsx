@@ -1,14 +1,136 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import useStore from '@/lib/store';
 import { formatDate } from '@/lib/utils';
+import LoadingSpinner from './LoadingSpinner';
+import { ScryfallBulkProgress, ScryfallBulkStatus } from '@/lib/types';
+import { clearScryfallBulkData, getBulkStatus, importScryfallBulkFile } from '@/lib/scryfall-bulk';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Progress } from '@/components/ui/progress';
-import { DatabaseIcon, CheckCircleIcon, PackageIcon, TrendingUpIcon } from 'lucide-react';
+import { DatabaseIcon, CheckCircleIcon, PackageIcon, TrendingUpIcon, HardDriveIcon, UploadIcon, TrashIcon } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Import of a Scryfall bulk data file so card lookups work without the API
+function OfflineCardData() {
+  const [status, setStatus] = useState<ScryfallBulkStatus | null>(null);
+  const [progress, setProgress] = useState<ScryfallBulkProgress | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getBulkStatus().then(setStatus);
+  }, []);
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setStatus(null);
+    setProgress({ bytesRead: 0, totalBytes: file.size, cardsImported: 0 });
+    try {
+      const imported = await importScryfallBulkFile(file, setProgress);
+      setStatus(imported);
+      toast.success(`Imported ${imported.cardCount.toLocaleString()} cards from ${imported.fileName}`);
+    } catch (error: any) {
+      console.error('Scryfall bulk import failed:', error);
+      toast.error(`Import failed: ${error.message}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClear = async () => {
+    await clearScryfallBulkData();
+    setStatus(null);
+    toast.success('Offline card data removed, lookups use the Scryfall API again');
+  };
+
+  const importing = progress !== null;
+  const percent = progress && progress.totalBytes > 0
+    ? Math.round((progress.bytesRead / progress.totalBytes) * 100)
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <HardDriveIcon className="h-5 w-5" />
+            Offline Card Data
+          </CardTitle>
+          <Badge variant={status ? 'default' : 'secondary'}>
+            {status ? 'Local lookups' : 'Scryfall API'}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-muted-foreground">
+          Import a Scryfall bulk data file (<strong>Default Cards</strong> for every printing, or <strong>Oracle Cards</strong> for
+          one printing per card) from scryfall.com/docs/api/bulk-data. Card details, printings and prices are then looked up in
+          this browser instead of one API request per card; images are still loaded from Scryfall.
+        </p>
+
+        {status && (
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className="font-medium">File:</span>
+              <span className="text-muted-foreground">
+                {status.fileName} ({status.kind === 'default_cards' ? 'every printing' : 'one printing per card'})
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="font-medium">Cards:</span>
+              <span className="text-muted-foreground">{status.cardCount.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="font-medium">Imported:</span>
+              <span className="text-muted-foreground">{formatDate(status.importedAt)}</span>
+            </div>
+          </div>
+        )}
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={percent} className="h-2" />
+            <div className="text-xs text-muted-foreground">
+              {percent}% read, {progress.cardsImported.toLocaleString()} cards imported
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+            <UploadIcon className="h-4 w-4 mr-2" />
+            {importing ? 'Importing...' : status ? 'Replace File' : 'Import Bulk File'}
+          </Button>
+          {status && (
+            <Button size="sm" variant="outline" onClick={handleClear} disabled={importing}>
+              <TrashIcon className="h-4 w-4 mr-2" />
+              Remove
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function CollectionStatus() {
-  const { outpostData, lastDataRefresh } = useStore();
+  const { outpostData, lastDataRefresh, isLoading, ensureOutpostData } = useStore();
+
+  // Coverage needs every card, which the search tab may not have downloaded
+  useEffect(() => {
+    ensureOutpostData();
+  }, [ensureOutpostData]);
 
   const collectionStats = useMemo(() => {
     const stats: Record<string, { count: number; available: number; totalStock: number }> = {};
@@ -50,6 +172,17 @@ export default function CollectionStatus() {
     return sum;
   }, 0) / outpostData.length / 100;
 
+  if (isLoading && outpostData.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <LoadingSpinner />
+          <span className="ml-2 text-muted-foreground">Loading card data...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -204,6 +337,8 @@ export default function CollectionStatus() {
           </Card>
         </CardContent>
       </Card>
+
+      <OfflineCardData />
     </div>
   );
 } 
\ No newline at end of file
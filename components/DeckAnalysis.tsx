@@ -1,9 +1,29 @@
-import React, { useState, useEffect } from 'react';
-import { DeckAnalysis as DeckAnalysisType, CardAvailability } from '@/lib/types';
-import { formatPrice } from '@/lib/utils';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useRouter } from 'next/router';
+import { toast } from 'sonner';
+import { DeckAnalysis as DeckAnalysisType, CardAvailability, OutpostCard, PurchasePolicy, DeckShareView, DeckBoard, BudgetGoal, BudgetLeftOut, DeckCard, DeckImportResult, MoxfieldDeck, MultiDeckAnalysis, CollectionMatching, SavedDeck } from '@/lib/types';
+import { formatPrice, fetchMoxfieldDeck, parseMoxfieldUrl, downloadTextFile, fileNameSlug } from '@/lib/utils';
+import { cardNameKey, describeVariant } from '@/lib/card-variants';
+import { getPrintingForVariant } from '@/lib/card-identity';
+import { DECK_FORMAT_LABELS, importDeckList } from '@/lib/deck-import';
+import { deckCardsFromMoxfield } from '@/lib/moxfield';
+import { deckFromCards, otherDecksLedger } from '@/lib/deck-analysis';
+import { DECK_SHARE_PARAM, DeckShareError, buildDeckShareUrl, decodeDeckShare, encodeDeckShare } from '@/lib/deck-share';
+import { ExportCard, buildPickList, deckAnalysisCsv, formatDeckListText, missingCardsList, pickListHtml } from '@/lib/deck-export';
+import { StockLedger, allocatePurchase, createStockLedger, reservePurchase } from '@/lib/purchase-allocation';
+import { COLLECTION_MATCHING_LABELS, copiesToBuy } from '@/lib/collection';
+import { compareSnapshots, createSavedDeckId, snapshotAnalysis } from '@/lib/deck-library';
+import { NAME_MATCH_LABELS, isLowConfidenceMatch, withMatchCorrection } from '@/lib/match-corrections';
+import { isListingAcceptable } from '@/lib/purchase-policy';
+import { CARD_TYPES, CURVE_MAX, DeckStatistics, MANA_COLORS, MANA_COLOR_LABELS, SplitCount, deckStatistics } from '@/lib/deck-stats';
+import { PRINTING_MATCH_LABELS, describePrinting, matchListingPrinting } from '@/lib/printing-match';
+import { DEFAULT_PRIORITY, PRIORITY_LEVELS, optimizeBudget } from '@/lib/budget-optimizer';
+import { DECK_BOARDS, DECK_BOARD_LABELS, DEFAULT_INCLUDED_BOARDS, cardsOnBoards, deckEntryKey, summarizeBoards, summarizeCards } from '@/lib/deck-boards';
 import useStore from '@/lib/store';
 import LoadingSpinner from './LoadingSpinner';
 import CardDetailModal from './CardDetailModal';
+import PurchasePolicySettings from './PurchasePolicySettings';
+import DeckLibrary from './DeckLibrary';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -13,32 +33,17 @@ import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { CheckCircleIcon, XCircleIcon, AlertCircleIcon, FileTextIcon, SparklesIcon, ImageIcon, ExternalLinkIcon, TrendingUpIcon, MapIcon, ArrowUpDownIcon, EyeOffIcon, EyeIcon, MinusCircleIcon, PlusCircleIcon, KeyboardIcon } from 'lucide-react';
+import { CheckCircleIcon, XCircleIcon, AlertCircleIcon, FileTextIcon, SparklesIcon, ImageIcon, ExternalLinkIcon, TrendingUpIcon, MapIcon, ArrowUpDownIcon, EyeOffIcon, EyeIcon, MinusCircleIcon, PlusCircleIcon, KeyboardIcon, UploadIcon, LinkIcon, LayersIcon, WalletIcon, Share2Icon, DownloadIcon, FileSpreadsheetIcon, PrinterIcon, CopyIcon, LibraryIcon, ArchiveIcon, BookmarkPlusIcon, BarChart3Icon } from 'lucide-react';
 import { 
   ScryfallCard, 
   getCardForThumbnail, 
   getCardThumbnail, 
   getAllPrintings,
   getCardByNameAndSet,
+  getCardBySetAndNumber,
   shouldFetchScryfallData
 } from '@/lib/scryfall';
 
-// Types for parsed deck list
-interface DeckCard {
-  name: string;
-  quantity: number;
-  set?: string;
-  foil?: boolean;
-  collectorNumber?: string;
-}
-
-interface ParsedDeck {
-  name: string;
-  format: string;
-  cards: DeckCard[];
-  totalCards: number;
-}
-
 // Enhanced card availability with Scryfall data
 interface EnhancedCardAvailability extends CardAvailability {
   scryfallCard?: ScryfallCard;
@@ -47,30 +52,84 @@ interface EnhancedCardAvailability extends CardAvailability {
   marketPrice?: number;
   marketPriceFoil?: number;
   isBasicLand?: boolean;
-  artMatched?: boolean; // New field to track if art matches original deck
+  selectedVariantId?: string; // Outpost variant picked by the user instead of the cheapest
 }
 
+// Scryfall market prices in euros (USD roughly converted when there is no EUR price)
+const marketPricesFor = (printing: ScryfallCard | null) => {
+  if (!printing) return { marketPrice: 0, marketPriceFoil: 0 };
+  const eurPrice = parseFloat(printing.prices.eur || '0');
+  const usdPrice = parseFloat(printing.prices.usd || '0');
+  const eurFoilPrice = parseFloat(printing.prices.eur_foil || '0');
+  const usdFoilPrice = parseFloat(printing.prices.usd_foil || '0');
+
+  return {
+    marketPrice: eurPrice || (usdPrice * 0.85), // rough EUR conversion
+    marketPriceFoil: eurFoilPrice || (usdFoilPrice * 0.85)
+  };
+};
+
+// Price of a variant's cheapest in-stock condition the policy accepts in euros, falling back to the cheapest listed
+const variantBestPrice = (variant: OutpostCard, policy: PurchasePolicy): number => {
+  const priced = (variant.conditions || []).filter(c => isListingAcceptable(policy, variant, c));
+  const inStock = priced.filter(c => c.stock > 0);
+  const candidates = inStock.length > 0 ? inStock : priced;
+  return candidates.length > 0 ? Math.min(...candidates.map(c => c.price)) / 100 : 0;
+};
+
 // Sorting options
 type SortOption = 'none' | 'availability' | 'markup' | 'outpost-price' | 'market-price' | 'name';
 
+const SORT_OPTIONS: SortOption[] = ['none', 'availability', 'markup', 'outpost-price', 'market-price', 'name'];
+
 interface DeckAnalysisResultsProps {
   analysis: DeckAnalysisType;
   excludeBasicLands: boolean;
   aggressiveArtMatching: boolean;
   originalDeckCards: DeckCard[];
+  initialView?: DeckShareView | null; // sort and hidden cards from a share link
+  onViewChange?: (view: DeckShareView) => void;
 }
 
-function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatching, originalDeckCards }: DeckAnalysisResultsProps) {
+function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatching, originalDeckCards, initialView, onViewChange }: DeckAnalysisResultsProps) {
   const [enhancedCards, setEnhancedCards] = useState<EnhancedCardAvailability[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCard, setSelectedCard] = useState<any>(null);
+  const [selectedCardVariants, setSelectedCardVariants] = useState<OutpostCard[]>([]);
+  const [expandedCards, setExpandedCards] = useState<Set<number>>(new Set());
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const { purchasePolicy, multiDeckAnalysis } = useStore();
   const [hoveredCard, setHoveredCard] = useState<ScryfallCard | null>(null);
   const [hoveredPosition, setHoveredPosition] = useState({ x: 0, y: 0 });
   const [sortBy, setSortBy] = useState<SortOption>('none');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [hiddenCards, setHiddenCards] = useState<Set<number>>(new Set());
   const [showHidden, setShowHidden] = useState(false);
+  const [includedBoards, setIncludedBoards] = useState<DeckBoard[]>(DEFAULT_INCLUDED_BOARDS);
+  const appliedView = useRef<DeckShareView | null>(null);
+
+  // Restore a shared view once; hidden cards are matched by board and name
+  useEffect(() => {
+    if (!initialView || appliedView.current === initialView) return;
+    appliedView.current = initialView;
+
+    setSortBy(SORT_OPTIONS.indexOf(initialView.sortBy as SortOption) !== -1 ? initialView.sortBy as SortOption : 'none');
+    setSortDirection(initialView.sortDirection);
+    setHiddenCards(new Set(analysis.cardAvailability
+      .map((card, index) => initialView.hiddenCards.indexOf(deckEntryKey(card)) !== -1 ? index : -1)
+      .filter(index => index !== -1)));
+  }, [initialView, analysis.cardAvailability]);
+
+  // Report what a share link should carry
+  useEffect(() => {
+    onViewChange?.({
+      sortBy,
+      sortDirection,
+      hiddenCards: Array.from(hiddenCards)
+        .filter(index => index < analysis.cardAvailability.length)
+        .map(index => deckEntryKey(analysis.cardAvailability[index]))
+    });
+  }, [onViewChange, sortBy, sortDirection, hiddenCards, analysis.cardAvailability]);
 
   // Basic land types for filtering
   const BASIC_LAND_NAMES = ['Plains', 'Island', 'Swamp', 'Mountain', 'Forest', 'Wastes'];
@@ -100,53 +159,6 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  // Helper function to check if art matches between cards
-  const checkArtMatch = (scryfallCard: ScryfallCard, originalCard: DeckCard): boolean => {
-    if (!originalCard.set || !originalCard.collectorNumber) return true; // Can't check, assume match
-    
-    return scryfallCard.set.toLowerCase() === originalCard.set.toLowerCase() && 
-           scryfallCard.collector_number === originalCard.collectorNumber;
-  };
-
-  // Helper function to find best art-matching printing
-  const findBestArtMatch = (allPrintings: ScryfallCard[], originalCard: DeckCard): ScryfallCard | null => {
-    console.log(`🎨 Finding best art match for ${originalCard.name}:`, {
-      originalSet: originalCard.set,
-      originalCollectorNumber: originalCard.collectorNumber,
-      availablePrintings: allPrintings.map(p => ({ set: p.set, collector_number: p.collector_number, set_name: p.set_name }))
-    });
-
-    if (!originalCard.set && !originalCard.collectorNumber) {
-      console.log(`⚪ No set/collector info for ${originalCard.name}, using newest printing`);
-      return allPrintings[0]; // Return newest printing if no specific art preference
-    }
-
-    // First try exact match on set and collector number
-    const exactMatch = allPrintings.find(printing => 
-      originalCard.set && printing.set.toLowerCase() === originalCard.set.toLowerCase() &&
-      originalCard.collectorNumber && printing.collector_number === originalCard.collectorNumber
-    );
-    if (exactMatch) {
-      console.log(`✅ Exact match found for ${originalCard.name}:`, { set: exactMatch.set, collector_number: exactMatch.collector_number });
-      return exactMatch;
-    }
-
-    // Try set match only
-    if (originalCard.set) {
-      const setMatch = allPrintings.find(printing => 
-        printing.set.toLowerCase() === originalCard.set!.toLowerCase()
-      );
-      if (setMatch) {
-        console.log(`🔍 Set match found for ${originalCard.name}:`, { set: setMatch.set, collector_number: setMatch.collector_number });
-        return setMatch;
-      }
-    }
-
-    // Return newest printing as fallback
-    console.log(`⚠️ No specific match for ${originalCard.name}, using fallback:`, { set: allPrintings[0].set, collector_number: allPrintings[0].collector_number });
-    return allPrintings[0];
-  };
-
   // Load Scryfall data for all cards
   useEffect(() => {
     const loadScryfallData = async () => {
@@ -156,94 +168,36 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
         analysis.cardAvailability.map(async (card): Promise<EnhancedCardAvailability> => {
           const isBasicLand = BASIC_LAND_NAMES.includes(card.cardName);
           
-          // Find original deck card for art matching
-          const originalCard = originalDeckCards.find(dc => 
-            dc.name.toLowerCase() === card.cardName.toLowerCase()
-          );
-          
           if (!shouldFetchScryfallData(card.cardName) || isBasicLand) {
-            return { ...card, isBasicLand, artMatched: true };
+            return { ...card, isBasicLand };
           }
 
           try {
-            // Get main Scryfall card data and all printings
-            let scryfallCard = await getCardForThumbnail(card.cardName);
-            let allPrintings: ScryfallCard[] = [];
-            let artMatched = true;
-            
-            if (scryfallCard) {
-              allPrintings = await getAllPrintings(card.cardName);
-              
-              // Try to find better art match if we have original card info
-              if (originalCard && allPrintings.length > 1) {
-                const bestMatch = findBestArtMatch(allPrintings, originalCard);
-                if (bestMatch && bestMatch.id !== scryfallCard.id) {
-                  scryfallCard = bestMatch;
-                }
-                artMatched = checkArtMatch(scryfallCard, originalCard);
-              }
-            }
-
-            // For aggressive art matching, filter out available cards that don't match art
-            let filteredAvailableCards = card.availableCards;
-            if (aggressiveArtMatching && originalCard && scryfallCard) {
-              filteredAvailableCards = card.availableCards.filter(availableCard => {
-                if (!originalCard.set) return true; // Can't filter without set info
-                
-                // Check if the available card matches the original set
-                const availableSet = availableCard.set || availableCard.collection;
-                return !availableSet || !originalCard.set || availableSet.toLowerCase() === originalCard.set.toLowerCase();
-              });
-              
-              // If no cards match art, mark as not fully available
-              if (filteredAvailableCards.length === 0) {
-                artMatched = false;
-              }
-            }
-
-            // Determine market prices (prefer EUR, fallback to USD)
-            let marketPrice = 0;
-            let marketPriceFoil = 0;
-            
-            if (scryfallCard) {
-              const eurPrice = parseFloat(scryfallCard.prices.eur || '0');
-              const usdPrice = parseFloat(scryfallCard.prices.usd || '0');
-              const eurFoilPrice = parseFloat(scryfallCard.prices.eur_foil || '0');
-              const usdFoilPrice = parseFloat(scryfallCard.prices.usd_foil || '0');
-              
-              marketPrice = eurPrice || (usdPrice * 0.85); // rough EUR conversion
-              marketPriceFoil = eurFoilPrice || (usdFoilPrice * 0.85);
-            }
-
-            // Update card availability if aggressive art matching filtered out cards
-            const updatedCard = aggressiveArtMatching && filteredAvailableCards.length !== card.availableCards.length
-              ? {
-                  ...card,
-                  availableCards: filteredAvailableCards,
-                  totalAvailable: filteredAvailableCards.reduce((sum, ac) => 
-                    sum + (ac.conditions?.reduce((condSum, cond) => condSum + cond.stock, 0) || 0), 0),
-                  isFullyAvailable: filteredAvailableCards.reduce((sum, ac) => 
-                    sum + (ac.conditions?.reduce((condSum, cond) => condSum + cond.stock, 0) || 0), 0) >= card.requestedQuantity,
-                  cheapestPrice: filteredAvailableCards.length > 0 
-                    ? Math.min(...filteredAvailableCards.flatMap(ac => 
-                        ac.conditions?.filter(c => c.price > 0).map(c => c.price / 100) || [])) 
-                    : 0
-                }
-              : card;
+            // The printing being bought comes from the identity map; cards Outpost does not stock
+            // show the deck list's printing, or the newest printing of the name
+            const variant = card.purchasePlan.lines[0]?.card || card.availableCards[0];
+            const listingPrinting = variant ? await getPrintingForVariant(variant) : null;
+            const requested = card.requestedPrinting;
+            const requestedPrinting = !listingPrinting && requested
+              ? (requested.collectorNumber
+                  ? await getCardBySetAndNumber(requested.set, requested.collectorNumber)
+                  : await getCardByNameAndSet(card.cardName, requested.set))
+              : null;
+            const scryfallCard = listingPrinting || requestedPrinting || await getCardForThumbnail(card.cardName);
+            const allPrintings = scryfallCard ? await getAllPrintings(card.cardName) : [];
 
             return {
-              ...updatedCard,
+              ...card,
               scryfallCard: scryfallCard || undefined,
               allPrintings,
               selectedPrinting: scryfallCard || undefined,
-              marketPrice,
-              marketPriceFoil,
-              isBasicLand,
-              artMatched
+              // Market prices of the printing actually being bought
+              ...marketPricesFor(listingPrinting || scryfallCard),
+              isBasicLand
             };
           } catch (error) {
             console.warn(`Failed to load Scryfall data for ${card.cardName}:`, error);
-            return { ...card, isBasicLand, artMatched: true };
+            return { ...card, isBasicLand };
           }
         })
       );
@@ -253,7 +207,7 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
     };
 
     loadScryfallData();
-  }, [analysis.cardAvailability, aggressiveArtMatching, originalDeckCards]);
+  }, [analysis.cardAvailability]);
 
   // Filter cards based on exclude basic lands and hidden cards settings
   const filteredCards = enhancedCards.filter((card, index) => {
@@ -314,18 +268,39 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
     return sorted;
   }, [filteredCards, sortBy, sortDirection]);
 
-  // Calculate totals
+  // Totals per board, and for the boards being counted
+  const boardTotals = summarizeBoards(filteredCards);
+  const countedCards = cardsOnBoards(sortedCards, includedBoards);
   const filteredAnalysis = {
     ...analysis,
-    cardAvailability: sortedCards,
-    totalCards: sortedCards.reduce((sum, card) => sum + card.requestedQuantity, 0),
-    availableCards: sortedCards.filter(card => card.isFullyAvailable).length,
-    missingCards: sortedCards.filter(card => !card.isFullyAvailable).length,
-    totalCost: sortedCards.reduce((sum, card) => sum + card.cheapestPrice * card.requestedQuantity, 0)
+    ...summarizeCards(countedCards),
+    cardAvailability: countedCards
   };
 
+  // Exports follow the list as sorted, but never include hidden cards, even while they are shown
+  const exportCards = sortedCards.filter(card => !hiddenCards.has(enhancedCards.indexOf(card)));
+  const looseMatches = enhancedCards.filter(card => isLowConfidenceMatch(card.nameMatch)).length;
+
+  // Copies other decks analyzed alongside this one were given; neither budget mode nor a picked variant may take them
+  const reservedStock = React.useMemo(() => otherDecksLedger(multiDeckAnalysis, analysis.deckId), [multiDeckAnalysis, analysis.deckId]);
+
+  // Counted, unhidden cards for budget mode (memoized so the optimizer only reruns when they change)
+  const budgetCards = React.useMemo(() =>
+    cardsOnBoards(
+      enhancedCards.filter((card, index) => !(excludeBasicLands && card.isBasicLand) && !hiddenCards.has(index)),
+      includedBoards
+    ).map(card => {
+      // A picked Outpost version is the only one the budget may buy from
+      const variant = card.availableCards.find(v => v.variantId === card.selectedVariantId);
+      return variant ? { ...card, availableCards: [variant] } : card;
+    }),
+  [enhancedCards, excludeBasicLands, hiddenCards, includedBoards]);
+
+  // Statistics cover every card on the counted boards, hidden cards and basic lands included
+  const deckStats = React.useMemo(() => deckStatistics(cardsOnBoards(enhancedCards, includedBoards)), [enhancedCards, includedBoards]);
+
   // Calculate market value totals
-  const marketValueTotal = sortedCards.reduce((sum, card) => {
+  const marketValueTotal = countedCards.reduce((sum, card) => {
     if (!card.marketPrice) return sum;
     const basePrice = card.marketPrice;
     const foilPrice = card.marketPriceFoil || card.marketPrice;
@@ -336,7 +311,7 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
       : 0;
     
     const estimatedMarketPrice = avgFoilRatio > 0.5 ? foilPrice : basePrice;
-    return sum + (estimatedMarketPrice * card.requestedQuantity);
+    return sum + (estimatedMarketPrice * copiesToBuy(card));
   }, 0);
 
   const availabilityPercentage = filteredAnalysis.totalCards > 0 
@@ -353,13 +328,70 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
     }
   };
 
+  // The variant picked by the user, otherwise the first one the purchase plan buys from
+  const getSelectedVariant = (card: EnhancedCardAvailability): OutpostCard | undefined =>
+    card.availableCards.find(variant => variant.variantId === card.selectedVariantId) ||
+      card.purchasePlan.lines[0]?.card || card.availableCards[0];
+
   const handleCardClick = (card: EnhancedCardAvailability) => {
-    if (card.availableCards.length > 0) {
-      setSelectedCard(card.availableCards[0]);
+    const variant = getSelectedVariant(card);
+    if (variant) {
+      setSelectedCard(variant);
+      setSelectedCardVariants(card.availableCards);
       setIsModalOpen(true);
     }
   };
 
+  // Price the row with a specific Outpost variant (e.g. a foil or a particular set)
+  const handleVariantSelect = async (cardIndex: number, variantId: string) => {
+    const variant = enhancedCards[cardIndex]?.availableCards.find(v => v.variantId === variantId);
+    if (!variant) return;
+
+    // The row is then bought from that variant only, from copies no other row or deck was given
+    setEnhancedCards(prev => prev.map((card, index) => {
+      if (index !== cardIndex) return card;
+      const ledger = createStockLedger(reservedStock);
+      prev.forEach((other, otherIndex) => {
+        if (otherIndex !== cardIndex) reservePurchase(ledger, other.purchasePlan.lines);
+      });
+      const purchasePlan = allocatePurchase([variant], copiesToBuy(card), {
+        ledger,
+        policy: purchasePolicy,
+        wantedFoil: card.requestedFoil
+      });
+      return {
+        ...card,
+        selectedVariantId: variantId,
+        cheapestPrice: variantBestPrice(variant, purchasePolicy),
+        purchasePlan,
+        printingMatch: card.requestedPrinting ? matchListingPrinting(variant, card.requestedPrinting) : null,
+        isFullyAvailable: purchasePlan.shortfall === 0
+      };
+    }));
+
+    // Compare against the market price of that variant's printing
+    const printing = await getPrintingForVariant(variant);
+    if (printing) {
+      setEnhancedCards(prev => prev.map((card, index) =>
+        index === cardIndex && card.selectedVariantId === variantId
+          ? { ...card, ...marketPricesFor(printing) }
+          : card
+      ));
+    }
+  };
+
+  const toggleCardExpanded = (cardIndex: number) => {
+    setExpandedCards(prev => {
+      const next = new Set(prev);
+      if (next.has(cardIndex)) {
+        next.delete(cardIndex);
+      } else {
+        next.add(cardIndex);
+      }
+      return next;
+    });
+  };
+
   const handlePrintingSelect = (cardIndex: number, printing: ScryfallCard) => {
     setEnhancedCards(prev => prev.map((card, index) => 
       index === cardIndex 
@@ -411,6 +443,12 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
     setHiddenCards(new Set());
   };
 
+  const toggleBoard = (board: DeckBoard, included: boolean) => {
+    setIncludedBoards(prev => included
+      ? DECK_BOARDS.filter(b => b === board || prev.indexOf(b) !== -1)
+      : prev.filter(b => b !== board));
+  };
+
   if (loading) {
     return (
       <Card>
@@ -494,6 +532,16 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
               <p className="text-sm text-green-600">
                 Total cost for available cards
               </p>
+              {filteredAnalysis.ownedCopies > 0 && (
+                <p className="text-xs text-purple-700 mt-1">
+                  {filteredAnalysis.ownedCopies} cop{filteredAnalysis.ownedCopies === 1 ? 'y' : 'ies'} from your collection
+                </p>
+              )}
+              {filteredAnalysis.missingCopies > 0 && (
+                <p className="text-xs text-red-600 mt-1">
+                  {filteredAnalysis.missingCopies} cop{filteredAnalysis.missingCopies === 1 ? 'y' : 'ies'} not in stock
+                </p>
+              )}
             </div>
             
             {/* Market Value Total */}
@@ -525,6 +573,57 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
         </CardContent>
       </Card>
 
+      {/* Boards counted in the summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LayersIcon className="h-5 w-5" />
+            Boards
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {DECK_BOARDS.filter(board => analysis.boards[board].totalCards > 0).map(board => {
+            const totals = boardTotals[board];
+            return (
+              <div key={board} className="flex items-center justify-between gap-4">
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id={`board-${board}`}
+                    checked={includedBoards.indexOf(board) !== -1}
+                    onCheckedChange={(checked) => toggleBoard(board, !!checked)}
+                  />
+                  <label htmlFor={`board-${board}`} className="text-sm font-medium">
+                    {DECK_BOARD_LABELS[board]} ({totals.totalCards} cards)
+                  </label>
+                </div>
+                <div className="flex items-center gap-4 text-sm">
+                  <span className="text-green-600">{totals.availableCards} available</span>
+                  <span className="text-red-600">{totals.missingCards} missing</span>
+                  <span className="font-medium w-20 text-right">{formatPrice(totals.totalCost)}</span>
+                </div>
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground">
+            Unchecked boards are still listed below but are left out of totals and cost calculations. The maybeboard is left out by default.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Deck Statistics */}
+      <DeckStatsPanel stats={deckStats} />
+
+      {/* Budget Mode */}
+      <BudgetPlanner cards={budgetCards} reserved={reservedStock} />
+
+      {/* Exports */}
+      <DeckExport
+        deckName={analysis.deckName}
+        cards={exportCards}
+        countedBoards={includedBoards}
+        originalDeckCards={originalDeckCards}
+      />
+
       {/* Controls Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Sorting Controls */}
@@ -638,234 +737,351 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
       {/* Card Availability */}
       <Card>
         <CardHeader>
-          <CardTitle>Card Availability</CardTitle>
+          <CardTitle className="flex items-center gap-2">
+            Card Availability
+            {looseMatches > 0 && (
+              <Badge variant="outline" className="text-amber-700 border-amber-300">
+                {looseMatches} {looseMatches === 1 ? 'match' : 'matches'} to check
+              </Badge>
+            )}
+          </CardTitle>
         </CardHeader>
         <CardContent className="space-y-3">
-          {filteredAnalysis.cardAvailability.map((card, displayIndex) => {
-            // Find the original index in enhancedCards for hiding functionality
-            const originalIndex = enhancedCards.findIndex(c => c.cardName === card.cardName);
-            const isHidden = hiddenCards.has(originalIndex);
-            
+          {DECK_BOARDS.map(board => {
+            const boardCards = sortedCards.filter(card => card.board === board);
+            if (boardCards.length === 0) return null;
+            const totals = summarizeCards(boardCards);
+            const counted = includedBoards.indexOf(board) !== -1;
+
             return (
-              <Card
-                key={originalIndex}
-                className={`transition-all duration-200 ${
-                  isHidden && showHidden
-                    ? 'opacity-60 bg-gray-50 border-gray-300'
-                    : card.isFullyAvailable
-                    ? 'bg-green-50 border-green-200 hover:shadow-md'
-                    : 'bg-red-50 border-red-200 hover:shadow-md'
-                } ${
-                  aggressiveArtMatching && !card.artMatched 
-                    ? 'ring-2 ring-orange-300 bg-orange-50 border-orange-200'
-                    : ''
-                }`}
-              >
-              <CardContent className="p-4">
-                <div className="flex items-start gap-4">
-                  {/* Card Image */}
-                  <div className="flex-shrink-0">
-                    {card.selectedPrinting ? (
-                      <img
-                        src={getCardThumbnail(card.selectedPrinting)}
-                        alt={card.cardName}
-                        className="w-20 h-28 object-cover rounded shadow-md"
-                        onError={(e) => {
-                          e.currentTarget.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iODAiIGhlaWdodD0iMTEyIiB2aWV3Qm94PSIwIDAgODAgMTEyIiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjxyZWN0IHdpZHRoPSI4MCIgaGVpZ2h0PSIxMTIiIGZpbGw9IiNmM2Y0ZjYiIHJ4PSI0Ii8+PGNpcmNsZSBjeD0iNDAiIGN5PSI1NiIgcj0iMTYiIGZpbGw9IiM5Y2EzYWYiLz48cGF0aCBkPSJtMzIgNDggOCAxNiA4LTE2eiIgZmlsbD0iIzljYTNhZiIvPjwvc3ZnPg==';
-                        }}
-                      />
-                    ) : (
-                      <div className="w-20 h-28 bg-gray-200 rounded shadow-md flex items-center justify-center">
-                        <ImageIcon className="h-8 w-8 text-gray-400" />
-                      </div>
+              <div key={board} className="space-y-3">
+                <div className="flex items-center justify-between border-b pb-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{DECK_BOARD_LABELS[board]}</h3>
+                    <span className="text-sm text-muted-foreground">({totals.totalCards})</span>
+                    {!counted && (
+                      <Badge variant="secondary" className="text-gray-600">
+                        Not counted
+                      </Badge>
                     )}
                   </div>
+                  <span className="text-sm font-medium text-green-700">{formatPrice(totals.totalCost)}</span>
+                </div>
+                {boardCards.map(card => {
+                  // Hiding and selections are tracked by the card's index in enhancedCards
+                  const originalIndex = enhancedCards.indexOf(card);
+                  const isHidden = hiddenCards.has(originalIndex);
+                  // Aggressive art matching only buys the deck list's printing or set
+                  const printingUnavailable = aggressiveArtMatching && !!card.requestedPrinting && card.purchasePlan.shortfall > 0;
+
+                  return (
+                    <Card
+                      key={originalIndex}
+                      className={`transition-all duration-200 ${
+                        isHidden && showHidden
+                          ? 'opacity-60 bg-gray-50 border-gray-300'
+                          : card.isFullyAvailable
+                          ? 'bg-green-50 border-green-200 hover:shadow-md'
+                          : 'bg-red-50 border-red-200 hover:shadow-md'
+                      } ${
+                        printingUnavailable
+                          ? 'ring-2 ring-orange-300 bg-orange-50 border-orange-200'
+                          : ''
+                      }`}
+                    >
+                    <CardContent className="p-4">
+                      <div className="flex items-start gap-4">
+                        {/* Card Image */}
+                        <div className="flex-shrink-0">
+                          {card.selectedPrinting ? (
+                            <img
+                              src={getCardThumbnail(card.selectedPrinting)}
+                              alt={card.cardName}
+                              className="w-20 h-28 object-cover rounded shadow-md"
+                              onError={(e) => {
+                                e.currentTarget.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iODAiIGhlaWdodD0iMTEyIiB2aWV3Qm94PSIwIDAgODAgMTEyIiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjxyZWN0IHdpZHRoPSI4MCIgaGVpZ2h0PSIxMTIiIGZpbGw9IiNmM2Y0ZjYiIHJ4PSI0Ii8+PGNpcmNsZSBjeD0iNDAiIGN5PSI1NiIgcj0iMTYiIGZpbGw9IiM5Y2EzYWYiLz48cGF0aCBkPSJtMzIgNDggOCAxNiA4LTE2eiIgZmlsbD0iIzljYTNhZiIvPjwvc3ZnPg==';
+                              }}
+                            />
+                          ) : (
+                            <div className="w-20 h-28 bg-gray-200 rounded shadow-md flex items-center justify-center">
+                              <ImageIcon className="h-8 w-8 text-gray-400" />
+                            </div>
+                          )}
+                        </div>
 
-                  {/* Card Details */}
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-start justify-between">
-                      <div className="flex items-start gap-3 flex-1 min-w-0">
-                        {card.isFullyAvailable ? (
-                          <CheckCircleIcon className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
-                        ) : (
-                          <XCircleIcon className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
-                        )}
+                        {/* Card Details */}
                         <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2 mb-1">
-                            <button
-                              onClick={() => handleCardClick(card)}
-                              className="font-medium text-foreground hover:text-blue-600 hover:underline cursor-pointer"
-                            >
-                              {card.cardName}
-                            </button>
-                            {aggressiveArtMatching && !card.artMatched && (
-                              <Badge variant="outline" className="text-orange-600 border-orange-300">
-                                Art Mismatch
-                              </Badge>
-                            )}
-                            {isHidden && showHidden && (
-                              <Badge variant="secondary" className="text-gray-600">
-                                Hidden
-                              </Badge>
-                            )}
-                          </div>
-                          <div className="text-sm text-muted-foreground mb-2">
-                            Need: {card.requestedQuantity} • Available: {card.totalAvailable}
-                          </div>
-                          
-                          {/* Copy Selection */}
-                          {card.allPrintings && card.allPrintings.length > 1 && (
-                            <div className="mb-2">
-                              <Select
-                                value={card.selectedPrinting?.id || ''}
-                                onValueChange={(printingId) => {
-                                  const printing = card.allPrintings?.find(p => p.id === printingId);
-                                  if (printing) {
-                                    handlePrintingSelect(originalIndex, printing);
-                                  }
-                                }}
-                              >
-                                <SelectTrigger className="w-full h-8 text-xs">
-                                  <SelectValue placeholder="Select printing" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  {card.allPrintings.map((printing) => (
-                                    <SelectItem 
-                                      key={printing.id} 
-                                      value={printing.id}
-                                      onMouseEnter={(e) => handlePrintingHover(printing, e)}
-                                      onMouseLeave={() => handlePrintingHover(null)}
-                                    >
-                                      <div className="flex items-center gap-2">
-                                        <span className="font-mono text-xs">{printing.set.toUpperCase()}</span>
-                                        <span>{printing.set_name}</span>
-                                        <Badge variant="outline" className="text-xs">
-                                          {printing.rarity}
-                                        </Badge>
+                          <div className="flex items-start justify-between">
+                            <div className="flex items-start gap-3 flex-1 min-w-0">
+                              {card.isFullyAvailable ? (
+                                <CheckCircleIcon className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
+                              ) : (
+                                <XCircleIcon className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 mb-1">
+                                  <button
+                                    onClick={() => handleCardClick(card)}
+                                    className="font-medium text-foreground hover:text-blue-600 hover:underline cursor-pointer"
+                                  >
+                                    {card.cardName}
+                                  </button>
+                                  {printingUnavailable && (
+                                    <Badge variant="outline" className="text-orange-600 border-orange-300">
+                                      Printing not in stock
+                                    </Badge>
+                                  )}
+                                  {card.printingMatch === 'any' && (
+                                    <Badge variant="outline" className="text-orange-600 border-orange-300" title={`Deck list asks for ${describePrinting(card.requestedPrinting)}`}>
+                                      {PRINTING_MATCH_LABELS.any}
+                                    </Badge>
+                                  )}
+                                  {card.printingMatch === 'set' && card.requestedPrinting?.collectorNumber && (
+                                    <Badge variant="outline" className="text-slate-600 border-slate-300" title={`Deck list asks for ${describePrinting(card.requestedPrinting)}`}>
+                                      {PRINTING_MATCH_LABELS.set}
+                                    </Badge>
+                                  )}
+                                  {copiesToBuy(card) === 0 && (
+                                    <Badge variant="outline" className="text-purple-700 border-purple-300">
+                                      Owned
+                                    </Badge>
+                                  )}
+                                  {isLowConfidenceMatch(card.nameMatch) && (
+                                    <Badge variant="outline" className="text-amber-700 border-amber-300">
+                                      Check match
+                                    </Badge>
+                                  )}
+                                  {(card.nameMatch.type === 'manual' || card.nameMatch.type === 'not-stocked') && (
+                                    <Badge variant="outline" className="text-blue-700 border-blue-300">
+                                      {NAME_MATCH_LABELS[card.nameMatch.type]}
+                                    </Badge>
+                                  )}
+                                  {isHidden && showHidden && (
+                                    <Badge variant="secondary" className="text-gray-600">
+                                      Hidden
+                                    </Badge>
+                                  )}
+                                </div>
+                                <div className="text-sm text-muted-foreground mb-2">
+                                  Need: {card.requestedQuantity}
+                                  {card.ownedQuantity > 0 && <span className="text-purple-700"> • Owned: {card.ownedQuantity}</span>}
+                                  {' '}• To buy: {card.purchasePlan.quantity}
+                                  {card.purchasePlan.shortfall > 0 && <span className="text-red-600"> • Unavailable: {card.purchasePlan.shortfall}</span>}
+                                  {' '}• In stock: {card.totalAvailable}
+                                </div>
+
+                                {/* Buy Plan */}
+                                {(card.purchasePlan.lines.length > 1 || card.purchasePlan.shortfall > 0) && (
+                                  <div className="text-xs mb-2 space-y-0.5">
+                                    {card.purchasePlan.lines.map(line => (
+                                      <div key={`${line.card.variantId}|${line.condition.condition}`} className="text-muted-foreground">
+                                        Buy {line.quantity}× {line.condition.condition} · {line.card.set || line.card.collection}{line.card.foil ? ' · Foil' : ''} at {formatPrice(line.unitPrice)}
                                       </div>
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
+                                    ))}
+                                    {card.purchasePlan.shortfall > 0 && (
+                                      <div className="text-red-600">
+                                        {card.purchasePlan.shortfall} not in stock
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
+
+                                {/* Name Match */}
+                                <NameMatchCorrection card={card} />
+
+                                {/* Copy Selection */}
+                                {card.allPrintings && card.allPrintings.length > 1 && (
+                                  <div className="mb-2">
+                                    <Select
+                                      value={card.selectedPrinting?.id || ''}
+                                      onValueChange={(printingId) => {
+                                        const printing = card.allPrintings?.find(p => p.id === printingId);
+                                        if (printing) {
+                                          handlePrintingSelect(originalIndex, printing);
+                                        }
+                                      }}
+                                    >
+                                      <SelectTrigger className="w-full h-8 text-xs">
+                                        <SelectValue placeholder="Select printing" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {card.allPrintings.map((printing) => (
+                                          <SelectItem 
+                                            key={printing.id} 
+                                            value={printing.id}
+                                            onMouseEnter={(e) => handlePrintingHover(printing, e)}
+                                            onMouseLeave={() => handlePrintingHover(null)}
+                                          >
+                                            <div className="flex items-center gap-2">
+                                              <span className="font-mono text-xs">{printing.set.toUpperCase()}</span>
+                                              <span>{printing.set_name}</span>
+                                              <Badge variant="outline" className="text-xs">
+                                                {printing.rarity}
+                                              </Badge>
+                                            </div>
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )}
+
+                                {/* Outpost Variant Selection */}
+                                {card.availableCards.length > 1 && (
+                                  <div className="mb-2">
+                                    <Select
+                                      value={getSelectedVariant(card)?.variantId || ''}
+                                      onValueChange={(variantId) => handleVariantSelect(originalIndex, variantId)}
+                                    >
+                                      <SelectTrigger className="w-full h-8 text-xs">
+                                        <SelectValue placeholder="Select Outpost version" />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {card.availableCards.map((variant) => (
+                                          <SelectItem key={variant.variantId} value={variant.variantId}>
+                                            {describeVariant(variant)} - {formatPrice(variantBestPrice(variant, purchasePolicy))} ({variant.stock} in stock)
+                                            {card.requestedPrinting && ` · ${PRINTING_MATCH_LABELS[matchListingPrinting(variant, card.requestedPrinting)]}`}
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  </div>
+                                )}
+
+                                {/* Hide/Show Button */}
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => toggleCardVisibility(originalIndex)}
+                                  className={`text-xs h-6 ${isHidden ? 'text-blue-600 hover:text-blue-700' : 'text-gray-600 hover:text-gray-700'}`}
+                                >
+                                  {isHidden ? (
+                                    <>
+                                      <EyeIcon className="h-3 w-3 mr-1" />
+                                      Show
+                                    </>
+                                  ) : (
+                                    <>
+                                      <EyeOffIcon className="h-3 w-3 mr-1" />
+                                      Hide
+                                    </>
+                                  )}
+                                </Button>
+                              </div>
                             </div>
-                          )}
-                          
-                          {/* Hide/Show Button */}
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => toggleCardVisibility(originalIndex)}
-                            className={`text-xs h-6 ${isHidden ? 'text-blue-600 hover:text-blue-700' : 'text-gray-600 hover:text-gray-700'}`}
-                          >
-                            {isHidden ? (
-                              <>
-                                <EyeIcon className="h-3 w-3 mr-1" />
-                                Show
-                              </>
-                            ) : (
-                              <>
-                                <EyeOffIcon className="h-3 w-3 mr-1" />
-                                Hide
-                              </>
-                            )}
-                          </Button>
-                        </div>
-                      </div>
 
-                      {/* Pricing Section */}
-                      <div className="text-right flex-shrink-0 ml-4">
-                        {/* Outpost Price */}
-                        <div className="mb-2">
-                          <div className="text-sm font-medium text-green-700">Outpost</div>
-                          <div className="font-bold text-green-600">
-                            {formatPrice(card.cheapestPrice)}
-                          </div>
-                          <div className="text-xs text-muted-foreground">
-                            {card.availableCards.length} listing{card.availableCards.length !== 1 ? 's' : ''}
-                          </div>
-                        </div>
+                            {/* Pricing Section */}
+                            <div className="text-right flex-shrink-0 ml-4">
+                              {/* Outpost Price */}
+                              <div className="mb-2">
+                                <div className="text-sm font-medium text-green-700">Outpost</div>
+                                <div className="font-bold text-green-600">
+                                  {formatPrice(card.cheapestPrice)}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  {card.availableCards.length} listing{card.availableCards.length !== 1 ? 's' : ''}
+                                </div>
+                                {card.requestedQuantity > 1 && card.purchasePlan.totalCost > 0 && (
+                                  <div className="text-xs font-medium text-green-700">
+                                    {card.purchasePlan.quantity}× total {formatPrice(card.purchasePlan.totalCost)}
+                                  </div>
+                                )}
+                              </div>
 
-                        {/* Market Price */}
-                        {card.marketPrice && (
-                          <div>
-                            <div className="text-sm font-medium text-blue-700">Market</div>
-                            <div className="font-bold text-blue-600">
-                              {formatPrice(card.marketPrice)}
+                              {/* Market Price */}
+                              {card.marketPrice && (
+                                <div>
+                                  <div className="text-sm font-medium text-blue-700">Market</div>
+                                  <div className="font-bold text-blue-600">
+                                    {formatPrice(card.marketPrice)}
+                                  </div>
+                                  {card.marketPriceFoil && card.marketPriceFoil !== card.marketPrice && (
+                                    <div className="text-xs text-blue-500">
+                                      Foil: {formatPrice(card.marketPriceFoil)}
+                                    </div>
+                                  )}
+                                  {/* Markup indicator */}
+                                  {card.cheapestPrice > 0 && (
+                                    <div className={`text-xs font-medium ${
+                                      card.cheapestPrice < card.marketPrice 
+                                        ? 'text-green-600' 
+                                        : 'text-orange-600'
+                                    }`}>
+                                      {card.cheapestPrice < card.marketPrice 
+                                        ? `Save ${formatPrice(card.marketPrice - card.cheapestPrice)}`
+                                        : `+${formatPrice(card.cheapestPrice - card.marketPrice)}`
+                                      }
+                                    </div>
+                                  )}
+                                </div>
+                              )}
                             </div>
-                            {card.marketPriceFoil && card.marketPriceFoil !== card.marketPrice && (
-                              <div className="text-xs text-blue-500">
-                                Foil: {formatPrice(card.marketPriceFoil)}
-                              </div>
-                            )}
-                            {/* Markup indicator */}
-                            {card.cheapestPrice > 0 && (
-                              <div className={`text-xs font-medium ${
-                                card.cheapestPrice < card.marketPrice 
-                                  ? 'text-green-600' 
-                                  : 'text-orange-600'
-                              }`}>
-                                {card.cheapestPrice < card.marketPrice 
-                                  ? `Save ${formatPrice(card.marketPrice - card.cheapestPrice)}`
-                                  : `+${formatPrice(card.cheapestPrice - card.marketPrice)}`
-                                }
-                              </div>
-                            )}
                           </div>
-                        )}
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                </div>
-                
-                {/* Available Cards List */}
-                {card.availableCards.length > 0 && (
-                  <div className="mt-3 pt-3">
-                    <Separator />
-                    <div className="text-xs text-muted-foreground mb-2 mt-3">Available copies:</div>
-                    <div className="space-y-1">
-                      {card.availableCards.slice(0, 3).map((availableCard, cardIndex) => {
-                        const totalStock = availableCard.conditions?.reduce((sum, condition) => sum + condition.stock, 0) || 0;
-                        const bestCondition = availableCard.conditions?.filter(c => c.price > 0 && c.stock > 0).sort((a, b) => {
-                          // Sort by quality first (NM/M > EX/GD > SP/P > HP > PR), then by price
-                          const qualityOrder = ['NM/M', 'EX/GD', 'SP/P', 'HP', 'PR'];
-                          const aQuality = qualityOrder.indexOf(a.condition);
-                          const bQuality = qualityOrder.indexOf(b.condition);
-                          if (aQuality !== bQuality) return aQuality - bQuality;
-                          return a.price - b.price;
-                        })[0];
-                        
-                        return (
-                          <div key={cardIndex} className="flex justify-between text-xs">
-                            <div className="flex items-center gap-2">
-                              <span>{availableCard.set || availableCard.collection}</span>
-                              <Badge variant="secondary" className="text-xs">
-                                {getRarityDisplay(availableCard.rarity)}
-                              </Badge>
-                              <Badge variant="outline" className="text-xs">
-                                {availableCard.foil ? 'Foil' : 'Non-foil'}
-                              </Badge>
-                              <span className="text-muted-foreground">
-                                Stock: {totalStock} • Best: {bestCondition?.condition || 'N/A'}
-                              </span>
-                            </div>
-                            <span className="font-medium">
-                              {bestCondition ? formatPrice(bestCondition.price / 100) : 'N/A'}
-                            </span>
+
+                      {/* Available Cards List */}
+                      {card.availableCards.length > 0 && (
+                        <div className="mt-3 pt-3">
+                          <Separator />
+                          <div className="text-xs text-muted-foreground mb-2 mt-3">Available copies:</div>
+                          <div className="space-y-1">
+                            {(expandedCards.has(originalIndex) ? card.availableCards : card.availableCards.slice(0, 3)).map((availableCard) => {
+                              const totalStock = availableCard.conditions?.reduce((sum, condition) => sum + condition.stock, 0) || 0;
+                              const bestCondition = availableCard.conditions?.filter(c => c.price > 0 && c.stock > 0).sort((a, b) => {
+                                // Sort by quality first (NM/M > EX/GD > SP/P > HP > PR), then by price
+                                const qualityOrder = ['NM/M', 'EX/GD', 'SP/P', 'HP', 'PR'];
+                                const aQuality = qualityOrder.indexOf(a.condition);
+                                const bQuality = qualityOrder.indexOf(b.condition);
+                                if (aQuality !== bQuality) return aQuality - bQuality;
+                                return a.price - b.price;
+                              })[0];
+
+                              const isSelected = availableCard.variantId === getSelectedVariant(card)?.variantId;
+                              return (
+                                <div
+                                  key={availableCard.variantId}
+                                  className={`flex justify-between text-xs rounded px-1 cursor-pointer hover:bg-white/60 ${isSelected ? 'font-semibold' : ''}`}
+                                  onClick={() => handleVariantSelect(originalIndex, availableCard.variantId)}
+                                >
+                                  <div className="flex items-center gap-2">
+                                    <span>{availableCard.set || availableCard.collection}</span>
+                                    <Badge variant="secondary" className="text-xs">
+                                      {getRarityDisplay(availableCard.rarity)}
+                                    </Badge>
+                                    <Badge variant="outline" className="text-xs">
+                                      {availableCard.foil ? 'Foil' : 'Non-foil'}
+                                    </Badge>
+                                    <span className="text-muted-foreground">
+                                      Stock: {totalStock} • Best: {bestCondition?.condition || 'N/A'}
+                                    </span>
+                                  </div>
+                                  <span className="font-medium">
+                                    {bestCondition ? formatPrice(bestCondition.price / 100) : 'N/A'}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                            {card.availableCards.length > 3 && (
+                              <button
+                                className="text-xs text-muted-foreground hover:text-blue-600 hover:underline"
+                                onClick={() => toggleCardExpanded(originalIndex)}
+                              >
+                                {expandedCards.has(originalIndex)
+                                  ? 'Show fewer listings'
+                                  : `+${card.availableCards.length - 3} more listings`}
+                              </button>
+                            )}
                           </div>
-                        );
-                      })}
-                      {card.availableCards.length > 3 && (
-                        <div className="text-xs text-muted-foreground">
-                          +{card.availableCards.length - 3} more listings
                         </div>
                       )}
-                    </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-              );
-            })}
+                    </CardContent>
+                  </Card>
+                    );
+                })}
+              </div>
+            );
+          })}
         </CardContent>
       </Card>
 
@@ -873,6 +1089,7 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
       {selectedCard && (
         <CardDetailModal
           card={selectedCard}
+          variants={selectedCardVariants}
           isOpen={isModalOpen}
           onClose={() => setIsModalOpen(false)}
         />
@@ -898,56 +1115,737 @@ function DeckAnalysisResults({ analysis, excludeBasicLands, aggressiveArtMatchin
   );
 }
 
-// Parse deck list format
-function parseDeckList(deckListText: string, deckName: string = 'Imported Deck'): ParsedDeck {
-  const lines = deckListText.trim().split('\n');
-  const cards: DeckCard[] = [];
-  
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    if (!trimmedLine) continue;
-    
-    // Skip comment lines
-    if (trimmedLine.startsWith('//') || trimmedLine.startsWith('#')) continue;
-    
-    // Parse format: "10 Plains (LCI) 287 *F*"
-    // or "1 Lightning Bolt (M21) 168"
-    // or simpler: "1 Lightning Bolt"
-    const match = trimmedLine.match(/^(\d+)\s+(.+?)(?:\s+\(([^)]+)\)(?:\s+(\d+))?)?(?:\s+\*F\*)?$/);
-    
-    if (match) {
-      const quantity = parseInt(match[1]);
-      let cardName = match[2].trim();
-      const setCode = match[3]; // Set code from inside parentheses
-      const collectorNumber = match[4]; // Collector number after parentheses
-      const foil = trimmedLine.includes('*F*');
-      
-      // Clean up card name (remove any trailing set info that wasn't caught)
-      cardName = cardName.replace(/\s+\([^)]+\)\s*\d*\s*\*?F?\*?$/, '').trim();
-      
-      const parsedCard = {
-        name: cardName,
-        quantity,
-        set: setCode,
-        collectorNumber,
-        foil
-      };
-      
-      console.log(`📝 Parsed deck card from "${trimmedLine}":`, parsedCard);
-      cards.push(parsedCard);
-    }
+const NOT_STOCKED = '__not-stocked__';
+
+// How a card's name was matched to Outpost, with a picker to correct loose matches; corrections are remembered
+function NameMatchCorrection({ card }: { card: CardAvailability }) {
+  const { matchCorrections, setMatchCorrections } = useStore();
+  const match = card.nameMatch;
+  const isCorrected = match.type === 'manual' || match.type === 'not-stocked';
+  if (!isCorrected && !isLowConfidenceMatch(match) && !(match.type === 'none' && match.candidates.length > 0)) {
+    return null;
   }
-  
-  return {
-    name: deckName,
-    format: 'Unknown',
-    cards,
-    totalCards: cards.reduce((sum, card) => sum + card.quantity, 0)
+
+  const correct = (outpostName: string | null | undefined) =>
+    setMatchCorrections(withMatchCorrection(matchCorrections, card.cardName, outpostName));
+  const names = match.matchedNames.concat(match.candidates.filter(name => match.matchedNames.indexOf(name) === -1));
+
+  let description: string;
+  switch (match.type) {
+    case 'fuzzy':
+      description = `${NAME_MATCH_LABELS.fuzzy}: "${match.matchedNames[0]}" (${Math.round(match.score * 100)}% alike)`;
+      break;
+    case 'face':
+      description = `${NAME_MATCH_LABELS.face} of several cards: ${match.matchedNames.join(', ')}`;
+      break;
+    case 'manual':
+      description = `${NAME_MATCH_LABELS.manual}: "${match.matchedNames[0]}"`;
+      break;
+    case 'not-stocked':
+      description = 'Marked as not stocked at Outpost';
+      break;
+    default:
+      description = 'No listing with this name. Is it one of these?';
+  }
+
+  return (
+    <div className={`mb-2 p-2 rounded border text-xs space-y-2 ${isCorrected ? 'border-blue-200 bg-blue-50' : 'border-amber-200 bg-amber-50'}`}>
+      <div className={`flex items-center gap-1 ${isCorrected ? 'text-blue-700' : 'text-amber-700'}`}>
+        <AlertCircleIcon className="h-3 w-3 flex-shrink-0" />
+        {description}
+      </div>
+      <div className="flex items-center gap-2">
+        <Select
+          value={match.type === 'not-stocked' ? NOT_STOCKED : match.matchedNames[0] || ''}
+          onValueChange={(value) => correct(value === NOT_STOCKED ? null : value)}
+        >
+          <SelectTrigger className="flex-1 h-8 text-xs bg-white">
+            <SelectValue placeholder="Pick the right card" />
+          </SelectTrigger>
+          <SelectContent>
+            {names.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+            <SelectItem value={NOT_STOCKED}>Not stocked at Outpost</SelectItem>
+          </SelectContent>
+        </Select>
+        {!isCorrected && match.matchedNames.length === 1 && (
+          <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => correct(match.matchedNames[0])}>
+            Confirm
+          </Button>
+        )}
+        {isCorrected && (
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => correct(undefined)}>
+            Undo
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const copiesIn = (count: SplitCount) => count.available + count.missing;
+
+// "12 + 3 missing", or just "12"
+function SplitCopies({ count }: { count: SplitCount }) {
+  return (
+    <span>
+      <span className="text-green-700">{count.available}</span>
+      {count.missing > 0 && <span className="text-red-600">{` + ${count.missing} missing`}</span>}
+    </span>
+  );
+}
+
+// Mana curve, pips, types and lands of the counted boards, split by what the deck will have and what Outpost lacks
+function DeckStatsPanel({ stats }: { stats: DeckStatistics }) {
+  const tallest = Math.max(1, ...stats.curve.map(copiesIn));
+  const colors = MANA_COLORS.filter(color => copiesIn(stats.colors[color].pips) > 0 || copiesIn(stats.colors[color].sources) > 0);
+  const types = CARD_TYPES.filter(type => copiesIn(stats.types[type]) > 0);
+  const availablePips = colors.reduce((sum, color) => sum + stats.colors[color].pips.available, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3Icon className="h-5 w-5" />
+            Deck Statistics
+          </CardTitle>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded-sm bg-green-500" /> Owned or in stock</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded-sm bg-red-400" /> Missing</span>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div className="p-3 rounded-lg border">
+            <div className="text-muted-foreground mb-1">Average mana value</div>
+            <div className="text-2xl font-bold">{stats.averageManaValue.available.toFixed(2)}</div>
+            <div className="text-xs text-muted-foreground">
+              {`Whole deck ${stats.averageManaValue.all.toFixed(2)}`}
+              {stats.averageManaValue.missing > 0 && ` · missing cards ${stats.averageManaValue.missing.toFixed(2)}`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg border">
+            <div className="text-muted-foreground mb-1">Lands</div>
+            <div className="text-2xl font-bold">{stats.lands.available}</div>
+            <div className="text-xs text-muted-foreground">
+              {`of ${copiesIn(stats.lands)} in the deck`}
+            </div>
+          </div>
+          <div className="p-3 rounded-lg border">
+            <div className="text-muted-foreground mb-1">Nonland cards</div>
+            <div className="text-2xl font-bold">{stats.curve.reduce((sum, bucket) => sum + bucket.available, 0)}</div>
+            <div className="text-xs text-muted-foreground">
+              {`of ${stats.curve.reduce((sum, bucket) => sum + copiesIn(bucket), 0)} in the deck`}
+            </div>
+          </div>
+        </div>
+
+        {/* Mana Curve */}
+        <div>
+          <h4 className="text-sm font-medium mb-2">Mana Curve</h4>
+          <div className="flex items-end gap-2 h-32">
+            {stats.curve.map((bucket, manaValue) => (
+              <div key={manaValue} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bucket.available} available, ${bucket.missing} missing`}>
+                <span className="text-xs text-muted-foreground mb-1">{copiesIn(bucket) || ''}</span>
+                <div className="w-full flex-1 flex flex-col justify-end">
+                  <div className="w-full flex flex-col" style={{ height: `${(copiesIn(bucket) / tallest) * 100}%` }}>
+                    {bucket.missing > 0 && <div className="w-full bg-red-400 rounded-t-sm" style={{ flexGrow: bucket.missing }} />}
+                    {bucket.available > 0 && <div className={`w-full bg-green-500 ${bucket.missing > 0 ? '' : 'rounded-t-sm'}`} style={{ flexGrow: bucket.available }} />}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-1">
+            {stats.curve.map((_, manaValue) => (
+              <span key={manaValue} className="flex-1 text-center text-xs text-muted-foreground">
+                {manaValue === CURVE_MAX ? `${CURVE_MAX}+` : manaValue}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Colors */}
+          <div>
+            <h4 className="text-sm font-medium mb-2">Colored Pips and Sources</h4>
+            {colors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No colored mana costs or land sources found.</p>
+            ) : (
+              <div className="space-y-2 text-sm">
+                {colors.map(color => {
+                  const { pips, sources } = stats.colors[color];
+                  const share = availablePips > 0 ? Math.round((pips.available / availablePips) * 100) : 0;
+                  return (
+                    <div key={color} className="flex items-center justify-between gap-4">
+                      <span className="font-medium w-24">{MANA_COLOR_LABELS[color]}</span>
+                      <span className="flex-1">
+                        <SplitCopies count={pips} /> pips{share > 0 && <span className="text-muted-foreground">{` (${share}%)`}</span>}
+                      </span>
+                      <span className="flex-1 text-right">
+                        <SplitCopies count={sources} /> land sources
+                      </span>
+                      {pips.available > 0 && sources.available === 0 && (
+                        <Badge variant="outline" className="text-orange-600 border-orange-300">No sources</Badge>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Types */}
+          <div>
+            <h4 className="text-sm font-medium mb-2">Card Types</h4>
+            <div className="space-y-2 text-sm">
+              {types.map(type => (
+                <div key={type} className="flex items-center justify-between gap-4">
+                  <span className="font-medium">{type}</span>
+                  <SplitCopies count={stats.types[type]} />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Counts are copies on the counted boards, including hidden cards and basic lands. Available copies are owned or covered by the buy plan.
+          Cards count as their front face, and a land counts as a source for every color it can add.
+          {copiesIn(stats.unknown) > 0 && ` ${copiesIn(stats.unknown)} cop${copiesIn(stats.unknown) === 1 ? 'y has' : 'ies have'} no Scryfall data and ${copiesIn(stats.unknown) === 1 ? 'is' : 'are'} left out.`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+const LEFT_OUT_REASONS: Record<BudgetLeftOut['reason'], string> = {
+  budget: 'over budget',
+  unavailable: 'not in stock',
+  skipped: 'skipped'
+};
+
+// Budget mode: which cards to buy, and in which condition, for a fixed amount
+// Downloads and a printable pick list of the cards as listed
+function DeckExport({ deckName, cards, countedBoards, originalDeckCards }: {
+  deckName: string;
+  cards: ExportCard[];
+  countedBoards: DeckBoard[];
+  originalDeckCards: DeckCard[];
+}) {
+  const countedCards = cardsOnBoards(cards, countedBoards);
+  const pickList = buildPickList(countedCards);
+  const missing = missingCardsList(countedCards, originalDeckCards);
+  const pickCount = pickList.reduce((sum, group) => sum + group.quantity, 0);
+  const missingCount = missing.reduce((sum, card) => sum + card.quantity, 0);
+  const fileName = fileNameSlug(deckName);
+
+  const handleCsv = () => {
+    downloadTextFile(`${fileName}-analysis.csv`, deckAnalysisCsv(cards, countedBoards), 'text/csv');
   };
+
+  const handlePrintPickList = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('Allow pop-ups to print the pick list');
+      return;
+    }
+    printWindow.document.write(pickListHtml(`${deckName || 'Deck'} - Outpost pick list`, pickList, formatPrice));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleMissingList = () => {
+    downloadTextFile(`${fileName}-missing.txt`, formatDeckListText(missing) + '\n');
+  };
+
+  const handleCopyMissingList = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDeckListText(missing));
+      toast.success(`Copied ${missingCount} missing cards`);
+    } catch {
+      toast.error('Failed to copy the missing cards');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DownloadIcon className="h-5 w-5" />
+          Export
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleCsv} disabled={cards.length === 0}>
+            <FileSpreadsheetIcon className="h-4 w-4 mr-2" />
+            Analysis CSV ({cards.length} cards)
+          </Button>
+          <Button variant="outline" size="sm" onClick={handlePrintPickList} disabled={pickCount === 0}>
+            <PrinterIcon className="h-4 w-4 mr-2" />
+            Print pick list ({pickCount})
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleMissingList} disabled={missingCount === 0}>
+            <FileTextIcon className="h-4 w-4 mr-2" />
+            Missing cards list ({missingCount})
+          </Button>
+          <Button variant="ghost" size="sm" onClick={handleCopyMissingList} disabled={missingCount === 0}>
+            <CopyIcon className="h-4 w-4 mr-2" />
+            Copy missing
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Exports follow the current sort and leave out hidden cards and excluded basic lands. The CSV has every board;
+          the pick list (grouped by collection and condition) and the missing list only cover counted boards.
+          The missing list uses the deck list import format, so other shops and deck sites can read it.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Per-deck coverage and cost, cards several decks want, and one shopping list for all of them
+function MultiDeckOverview({ analysis, selectedDeckId, onSelect, onRemove }: {
+  analysis: MultiDeckAnalysis;
+  selectedDeckId: string;
+  onSelect: (deckId: string) => void;
+  onRemove: (deckId: string) => void;
+}) {
+  const [showShoppingList, setShowShoppingList] = useState(false);
+  const coveredCopies = analysis.totalCopies - analysis.missingCopies;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LibraryIcon className="h-5 w-5" />
+          {analysis.decks.length} Decks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {analysis.decks.map(deck => {
+            const missingCopies = DEFAULT_INCLUDED_BOARDS.reduce((sum, board) => sum + deck.boards[board].missingCopies, 0);
+            const coverage = deck.totalCards > 0 ? Math.round(((deck.totalCards - missingCopies) / deck.totalCards) * 100) : 0;
+            const isSelected = deck.deckId === selectedDeckId;
+
+            return (
+              <div key={deck.deckId} className={`p-3 rounded-lg border ${isSelected ? 'border-blue-300 bg-blue-50' : ''}`}>
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{deck.deckName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {deck.totalCards - missingCopies} of {deck.totalCards} copies covered
+                      {missingCopies > 0 && `, ${missingCopies} not in stock`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="font-medium w-20 text-right">{formatPrice(deck.totalCost)}</span>
+                    <Button variant={isSelected ? 'default' : 'outline'} size="sm" onClick={() => onSelect(deck.deckId)}>
+                      {isSelected ? 'Showing' : 'Show'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onRemove(deck.deckId)} title="Remove deck">
+                      <XCircleIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Progress value={coverage} className="h-2 mt-2" />
+              </div>
+            );
+          })}
+          <div className="flex items-center justify-between text-sm font-medium">
+            <span>All decks: {coveredCopies} of {analysis.totalCopies} copies covered</span>
+            <span>{formatPrice(analysis.totalCost)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Copies in stock are handed out board by board (commanders, then mainboards, then sideboards), earlier decks first,
+            so no copy is counted for two decks. Maybeboards only get what is left.
+          </p>
+        </div>
+
+        {analysis.overlap.length > 0 && (
+          <div>
+            <Separator />
+            <div className="text-sm font-medium mt-4 mb-2">In more than one deck ({analysis.overlap.length})</div>
+            <div className="space-y-1">
+              {analysis.overlap.map(overlap => (
+                <div key={overlap.cardName} className="flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">{overlap.cardName}</span>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {overlap.decks.map(deck => `${deck.quantity}× ${deck.deckName}`).join(', ')}
+                    </span>
+                  </div>
+                  <span className={`text-xs shrink-0 ${overlap.owned + overlap.bought < overlap.requested ? 'text-red-600' : 'text-green-600'}`}>
+                    {overlap.owned + overlap.bought}/{overlap.requested} covered
+                    {overlap.owned > 0 && ` (${overlap.owned} owned)`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <Separator />
+          <div className="flex items-center justify-between mt-4">
+            <div className="text-sm font-medium">
+              Combined shopping list ({analysis.shoppingList.reduce((sum, line) => sum + line.quantity, 0)} cards)
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowShoppingList(!showShoppingList)}>
+              {showShoppingList ? 'Hide' : 'Show'}
+            </Button>
+          </div>
+          {showShoppingList && (
+            <div className="space-y-1 mt-2">
+              {analysis.shoppingList.map(line => (
+                <div key={`${line.card.variantId}|${line.condition.condition}`} className="flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium">{line.quantity}× {line.cardName}</span>
+                    <span className="text-xs text-muted-foreground ml-2">
+                      {line.card.collection}, {line.condition.condition}{line.card.foil ? ', foil' : ''}
+                      {' · '}
+                      {line.decks.map(deck => `${deck.quantity} ${deck.deckName}`).join(', ')}
+                    </span>
+                  </div>
+                  <span className="shrink-0">{formatPrice(line.subtotal)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function BudgetPlanner({ cards, reserved }: { cards: CardAvailability[]; reserved: StockLedger }) {
+  const { purchasePolicy } = useStore();
+  const [enabled, setEnabled] = useState(false);
+  const [budgetInput, setBudgetInput] = useState('50');
+  const [goal, setGoal] = useState<BudgetGoal>('coverage');
+  const [priorities, setPriorities] = useState<Record<string, number>>({});
+
+  const budget = parseFloat(budgetInput.replace(',', '.')) || 0;
+  const plan = React.useMemo(
+    () => enabled ? optimizeBudget(cards, { budget, goal, priorities, policy: purchasePolicy, reserved }) : null,
+    [enabled, cards, budget, goal, priorities, purchasePolicy, reserved]
+  );
+
+  const prioritySelect = (card: CardAvailability) => {
+    const key = deckEntryKey(card);
+    return (
+      <Select
+        value={String(priorities[key] ?? DEFAULT_PRIORITY)}
+        onValueChange={(weight) => setPriorities(prev => ({ ...prev, [key]: parseFloat(weight) }))}
+      >
+        <SelectTrigger className="w-28 h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PRIORITY_LEVELS.map(level => (
+            <SelectItem key={level.label} value={String(level.weight)}>
+              {level.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WalletIcon className="h-5 w-5" />
+          Budget Mode
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="budget-mode"
+            checked={enabled}
+            onCheckedChange={(checked) => setEnabled(!!checked)}
+          />
+          <label htmlFor="budget-mode" className="text-sm font-medium">
+            Plan purchases within a budget
+          </label>
+        </div>
+
+        {enabled && plan && (
+          <>
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">Budget (€)</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={budgetInput}
+                  onChange={(e) => setBudgetInput(e.target.value)}
+                  className="w-28 h-8"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant={goal === 'coverage' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setGoal('coverage')}
+                >
+                  Most cards
+                </Button>
+                <Button
+                  variant={goal === 'priority' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setGoal('priority')}
+                >
+                  By priority
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div className="p-3 rounded-lg border bg-green-50 border-green-200">
+                <div className="font-medium text-green-700">Spend {formatPrice(plan.spent)} of {formatPrice(plan.budget)}</div>
+                <div className="text-green-600">
+                  {plan.copiesCovered} of {plan.copiesRequested} copies covered
+                </div>
+              </div>
+              <div className="p-3 rounded-lg border bg-muted/50">
+                <div className="font-medium">{plan.leftOut.length} left out</div>
+                <div className="text-muted-foreground">
+                  {goal === 'priority' ? 'Raise a card\'s priority to buy it first' : 'Cheapest copies are bought first'}
+                </div>
+              </div>
+            </div>
+
+            {plan.picks.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Buy</div>
+                {plan.picks.map(pick => (
+                  <div key={deckEntryKey(pick.card)} className="flex items-center justify-between gap-4 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">
+                        {pick.card.cardName}
+                        <span className="ml-2 text-xs text-muted-foreground">{DECK_BOARD_LABELS[pick.card.board]}</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {pick.plan.lines.map(line => `${line.quantity}× ${line.condition.condition} ${line.card.set || line.card.collection}`).join(', ')}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                      {goal === 'priority' && prioritySelect(pick.card)}
+                      <span className="font-medium w-20 text-right">{formatPrice(pick.plan.totalCost)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {plan.leftOut.length > 0 && (
+              <div className="space-y-2">
+                <Separator />
+                <div className="text-sm font-medium">Left out</div>
+                {plan.leftOut.map(item => (
+                  <div key={`${deckEntryKey(item.card)}|${item.reason}`} className="flex items-center justify-between gap-4 text-sm">
+                    <div className="min-w-0 truncate">
+                      {item.quantity}× {item.card.cardName}
+                      <span className="ml-2 text-xs text-muted-foreground">{LEFT_OUT_REASONS[item.reason]}</span>
+                    </div>
+                    {(goal === 'priority' || item.reason === 'skipped') && item.reason !== 'unavailable' && prioritySelect(item.card)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// The user's own cards: owned copies are taken off each deck card before it is priced
+function MyCollection() {
+  const { collection, collectionMatching, importCollection, clearCollection, setCollectionMatching } = useStore();
+  const [showImport, setShowImport] = useState(false);
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>(undefined);
+  const [report, setReport] = useState<DeckImportResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const ownedCopies = collection.reduce((sum, card) => sum + card.quantity, 0);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setText(await file.text());
+    setFileName(file.name);
+    setReport(null);
+  };
+
+  const handleImport = async (mode: 'replace' | 'add') => {
+    const result = importDeckList(text, { fileName });
+    setReport(result);
+    if (result.deck.cards.length === 0) {
+      toast.error('No cards found to import');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await importCollection(result.deck.cards, mode);
+      toast.success(`${mode === 'add' ? 'Added' : 'Imported'} ${result.deck.totalCards} cards`);
+      setText('');
+      setFileName(undefined);
+    } catch (error) {
+      console.error('Failed to save collection:', error);
+      toast.error('Failed to save your collection in this browser');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(`Remove all ${ownedCopies} cards from your collection?`)) return;
+    try {
+      await clearCollection();
+      setReport(null);
+    } catch (error) {
+      console.error('Failed to clear collection:', error);
+      toast.error('Failed to clear your collection');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArchiveIcon className="h-5 w-5" />
+          My Collection
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm">
+            {collection.length > 0
+              ? `${ownedCopies} cards owned (${collection.length} printings)`
+              : 'No cards imported yet'}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={collectionMatching} onValueChange={(matching) => setCollectionMatching(matching as CollectionMatching)}>
+              <SelectTrigger className="h-9 w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COLLECTION_MATCHING_LABELS) as CollectionMatching[]).map(matching => (
+                  <SelectItem key={matching} value={matching}>
+                    {COLLECTION_MATCHING_LABELS[matching]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setShowImport(!showImport)}>
+              <UploadIcon className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            {collection.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={handleClear}>
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {showImport && (
+          <div className="space-y-3">
+            <div className="flex justify-end">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.csv,text/plain,text/csv"
+                className="hidden"
+                onChange={handleFile}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isSaving}>
+                <UploadIcon className="h-4 w-4 mr-2" />
+                {fileName || 'Load File'}
+              </Button>
+            </div>
+            <Textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setFileName(undefined);
+              }}
+              placeholder={`Paste a card list or load a Moxfield collection CSV export:
+4 Lightning Bolt (M21) 168
+1 Sol Ring (C21) 263 *F*`}
+              rows={6}
+              className="font-mono text-sm"
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleImport('add')} disabled={isSaving || !text.trim()}>
+                Add to collection
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleImport('replace')} disabled={isSaving || !text.trim()}>
+                Replace collection
+              </Button>
+            </div>
+            {report && <DeckImportReport report={report} />}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Owned copies are used before anything is bought, so each card shows what you own, what to buy and what Outpost does not have.
+          With the printing option, only copies of the set and collector number in the deck list count. Saved in this browser.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Shows which format a list was read as and the lines that were not cards
+function DeckImportReport({ report }: { report: DeckImportResult }) {
+  const [showAll, setShowAll] = useState(false);
+  const visible = showAll ? report.skipped : report.skipped.slice(0, 5);
+
+  return (
+    <div className={`p-3 rounded-lg border text-sm space-y-2 ${report.skipped.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-muted/50'}`}>
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">{DECK_FORMAT_LABELS[report.source]}</Badge>
+        <span>
+          Read {report.deck.totalCards} cards ({report.deck.cards.length} entries)
+          {report.skipped.length > 0 && `, ${report.skipped.length} line${report.skipped.length === 1 ? '' : 's'} skipped`}
+        </span>
+      </div>
+      {report.skipped.length > 0 && (
+        <ul className="space-y-1 font-mono text-xs text-amber-900">
+          {visible.map(issue => (
+            <li key={`${issue.line}-${issue.text}`}>
+              Line {issue.line}: <span className="break-all">{issue.text}</span> — {issue.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+      {report.skipped.length > 5 && (
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setShowAll(!showAll)}>
+          {showAll ? 'Show fewer' : `Show all ${report.skipped.length}`}
+        </Button>
+      )}
+    </div>
+  );
 }
 
 export default function DeckAnalysis() {
-  const { deckAnalysis, currentDeck, analyzeDeck } = useStore();
+  const { deckAnalysis, currentDeck, decks, multiDeckAnalysis, analyzeDeck, reanalyzeDecks, selectDeck, removeDeck, purchasePolicy, collection, collectionMatching, matchCorrections, outpostData, ensureOutpostData, lastDataRefresh, savedDecks, saveDeckToLibrary } = useStore();
   const [deckListText, setDeckListText] = useState('');
   const [deckName, setDeckName] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
@@ -955,6 +1853,206 @@ export default function DeckAnalysis() {
   const [matchCardStyle, setMatchCardStyle] = useState(false);
   const [excludeBasicLands, setExcludeBasicLands] = useState(false);
   const [aggressiveArtMatching, setAggressiveArtMatching] = useState(false);
+  const [deckFileName, setDeckFileName] = useState<string | undefined>(undefined);
+  const [importReport, setImportReport] = useState<DeckImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [moxfieldUrl, setMoxfieldUrl] = useState('');
+  const [isFetchingDeck, setIsFetchingDeck] = useState(false);
+  const analyzedInputs = useRef({ purchasePolicy, collection, collectionMatching, matchCorrections, matchCardStyle, aggressiveArtMatching });
+  const [addAsNewDeck, setAddAsNewDeck] = useState(false);
+  const importMode = addAsNewDeck && decks.length > 0 ? 'add' : 'replace';
+  const router = useRouter();
+  const restoredShare = useRef<string | null>(null);
+  const [sharedView, setSharedView] = useState<DeckShareView | null>(null);
+  const viewRef = useRef<DeckShareView | null>(null);
+  const [shareUrl, setShareUrl] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
+  const [libraryLink, setLibraryLink] = useState<{ deckId: string; savedId: string } | null>(null);
+  const [isSavingDeck, setIsSavingDeck] = useState(false);
+  const savedDeckId = libraryLink && currentDeck && libraryLink.deckId === currentDeck.id ? libraryLink.savedId : null;
+  const handleViewChange = useCallback((view: DeckShareView) => {
+    viewRef.current = view;
+  }, []);
+
+  // Restore a shared analysis (?d=...) and run it against the current inventory
+  const shareParam = router.query[DECK_SHARE_PARAM];
+  useEffect(() => {
+    const encoded = typeof shareParam === 'string' ? shareParam : undefined;
+    if (!encoded || restoredShare.current === encoded || outpostData.length === 0) return;
+    restoredShare.current = encoded;
+
+    decodeDeckShare(encoded)
+      .then(shared => {
+        setDeckListText(formatDeckListText(shared.cards));
+        setDeckName(shared.deckName);
+        setDeckFileName(undefined);
+        setImportReport(null);
+        setMatchCardStyle(shared.matchCardStyle);
+        setExcludeBasicLands(shared.excludeBasicLands);
+        setAggressiveArtMatching(shared.aggressiveArtMatching);
+        setSharedView(shared.view);
+        setLibraryLink(null);
+        setError(shared.cards.length === 0 ? 'The shared deck has no cards' : null);
+        if (shared.cards.length > 0) {
+          analyzeDeck(deckFromCards(shared.deckName || 'Shared Deck', 'Unknown', shared.cards), {
+            matchCardStyle: shared.matchCardStyle,
+            aggressiveArtMatching: shared.aggressiveArtMatching
+          });
+        }
+      })
+      .catch(err => {
+        console.error('Error opening share link:', err);
+        setError(err instanceof DeckShareError ? err.message : 'Failed to open the share link');
+      });
+  }, [shareParam, outpostData.length, analyzeDeck]);
+
+  // A link made for a previous deck no longer matches
+  useEffect(() => {
+    setShareUrl('');
+  }, [currentDeck]);
+
+  // The list as it was imported, with printings and finishes
+  const currentDeckCards = (deck: MoxfieldDeck): DeckCard[] =>
+    (deck as any).originalParsedCards || deckCardsFromMoxfield(deck);
+
+  // Link to this analysis with its options, sort and hidden cards
+  const handleShare = async () => {
+    if (!currentDeck) return;
+
+    setIsSharing(true);
+    try {
+      const encoded = await encodeDeckShare({
+        deckName: deckName || currentDeck.name,
+        cards: currentDeckCards(currentDeck),
+        matchCardStyle,
+        excludeBasicLands,
+        aggressiveArtMatching,
+        view: viewRef.current || { sortBy: 'none', sortDirection: 'desc', hiddenCards: [] }
+      });
+      const url = buildDeckShareUrl(window.location.origin, encoded);
+      setShareUrl(url);
+
+      try {
+        await navigator.clipboard.writeText(url);
+        toast.success('Share link copied to clipboard');
+      } catch {
+        toast.info('Copy the share link below');
+      }
+    } catch (err) {
+      console.error('Error creating share link:', err);
+      toast.error('Failed to create a share link');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  // Keep the deck with its options and this analysis; saving it again updates the same entry
+  const handleSaveToLibrary = async () => {
+    if (!currentDeck || !deckAnalysis) return;
+
+    const existing = savedDecks.find(deck => deck.id === savedDeckId);
+    const snapshot = snapshotAnalysis(deckAnalysis, lastDataRefresh);
+    const saved: SavedDeck = {
+      id: existing?.id || createSavedDeckId(),
+      name: deckName || currentDeck.name,
+      cards: currentDeckCards(currentDeck),
+      options: { matchCardStyle, excludeBasicLands, aggressiveArtMatching },
+      savedAt: new Date().toISOString(),
+      lastAnalysis: snapshot,
+      changes: existing?.lastAnalysis ? compareSnapshots(existing.lastAnalysis, snapshot) : []
+    };
+
+    setIsSavingDeck(true);
+    try {
+      await saveDeckToLibrary(saved);
+      setLibraryLink({ deckId: currentDeck.id, savedId: saved.id });
+      toast.success(existing ? `Updated "${saved.name}" in the library` : `Saved "${saved.name}" to the library`);
+    } catch (err) {
+      console.error('Error saving deck to library:', err);
+      toast.error('Failed to save the deck');
+    } finally {
+      setIsSavingDeck(false);
+    }
+  };
+
+  // Load a saved deck with its options and analyze it against the current inventory
+  const handleOpenSavedDeck = (deck: SavedDeck) => {
+    setDeckListText(formatDeckListText(deck.cards));
+    setDeckName(deck.name);
+    setDeckFileName(undefined);
+    setImportReport(null);
+    setMatchCardStyle(deck.options.matchCardStyle);
+    setExcludeBasicLands(deck.options.excludeBasicLands);
+    setAggressiveArtMatching(deck.options.aggressiveArtMatching);
+    setSharedView(null);
+    setError(null);
+
+    analyzeDeck(deckFromCards(deck.name, 'Unknown', deck.cards), {
+      matchCardStyle: deck.options.matchCardStyle,
+      aggressiveArtMatching: !!deck.options.aggressiveArtMatching
+    }, importMode);
+    const opened = useStore.getState().currentDeck;
+    setLibraryLink(opened ? { deckId: opened.id, savedId: deck.id } : null);
+  };
+
+  // Analysis needs the full inventory, which the search tab skips when the inventory API answers
+  useEffect(() => {
+    ensureOutpostData();
+  }, [ensureOutpostData]);
+
+  // Price the loaded decks again when the purchase policy, the collection, a name match or the printing options change
+  useEffect(() => {
+    const inputs = analyzedInputs.current;
+    if (
+      inputs.purchasePolicy === purchasePolicy && inputs.collection === collection &&
+      inputs.collectionMatching === collectionMatching && inputs.matchCorrections === matchCorrections &&
+      inputs.matchCardStyle === matchCardStyle && inputs.aggressiveArtMatching === aggressiveArtMatching
+    ) return;
+    analyzedInputs.current = { purchasePolicy, collection, collectionMatching, matchCorrections, matchCardStyle, aggressiveArtMatching };
+    reanalyzeDecks({ matchCardStyle, aggressiveArtMatching });
+  }, [purchasePolicy, collection, collectionMatching, matchCorrections, reanalyzeDecks, matchCardStyle, aggressiveArtMatching]);
+
+  // Load a deck straight from a Moxfield link (fetched through /api/moxfield)
+  const handleMoxfieldImport = async () => {
+    const deckId = parseMoxfieldUrl(moxfieldUrl);
+    if (!deckId) {
+      setError('Invalid Moxfield URL. Please enter a valid deck URL.');
+      return;
+    }
+
+    setIsFetchingDeck(true);
+    setError(null);
+    setImportReport(null);
+
+    try {
+      const deck = await fetchMoxfieldDeck(deckId);
+      setDeckName(deck.name);
+
+      // Printings and finishes from Moxfield drive art matching like a pasted list does
+      await ensureOutpostData();
+      analyzeDeck({ ...deck, originalParsedCards: deckCardsFromMoxfield(deck) } as MoxfieldDeck, { matchCardStyle, aggressiveArtMatching }, importMode);
+      setSharedView(null);
+      setLibraryLink(null);
+    } catch (err) {
+      console.error('Error loading Moxfield deck:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load deck. Please try again.');
+    } finally {
+      setIsFetchingDeck(false);
+    }
+  };
+
+  // Load an exported deck file (.txt, .dek, .csv) into the text area
+  const handleDeckFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setDeckListText(await file.text());
+    setDeckFileName(file.name);
+    if (!deckName) setDeckName(file.name.replace(/\.[^.]+$/, ''));
+    setImportReport(null);
+    setError(null);
+  };
 
   const handleAnalyzeDeck = async () => {
     if (!deckListText.trim()) {
@@ -966,38 +2064,19 @@ export default function DeckAnalysis() {
     setError(null);
 
     try {
-      // Parse the deck list
-      const parsedDeck = parseDeckList(deckListText, deckName || 'Imported Deck');
+      // Parse the deck list in whichever format it was pasted
+      const report = importDeckList(deckListText, { deckName, fileName: deckFileName });
+      setImportReport(report);
+      const parsedDeck = report.deck;
       
       if (parsedDeck.cards.length === 0) {
         throw new Error('No valid cards found in deck list');
       }
 
-      // Convert to format expected by analyzeDeck
-      const mockMoxfieldDeck = {
-        id: 'imported-deck',
-        name: parsedDeck.name,
-        format: parsedDeck.format,
-        mainboard: {} as any,
-        sideboard: {} as any,
-        maybeboard: {} as any,
-        commanders: {} as any
-      };
-
-      // Add cards to mainboard
-      parsedDeck.cards.forEach((card, index) => {
-        mockMoxfieldDeck.mainboard[index] = {
-          name: card.name,
-          quantity: card.quantity,
-          set: card.set,
-          foil: false // MoxfieldCard doesn't have foil info, default to false
-        };
-      });
-
-      // Store the parsed deck cards for art matching
-      (mockMoxfieldDeck as any).originalParsedCards = parsedDeck.cards;
-
-      analyzeDeck(mockMoxfieldDeck, matchCardStyle);
+      await ensureOutpostData();
+      analyzeDeck(deckFromCards(parsedDeck.name, parsedDeck.format, parsedDeck.cards), { matchCardStyle, aggressiveArtMatching }, importMode);
+      setSharedView(null);
+      setLibraryLink(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to analyze deck');
     } finally {
@@ -1008,6 +2087,9 @@ export default function DeckAnalysis() {
   const handleClearDeck = () => {
     setDeckListText('');
     setDeckName('');
+    setDeckFileName(undefined);
+    setImportReport(null);
+    setMoxfieldUrl('');
     setError(null);
   };
 
@@ -1022,6 +2104,43 @@ export default function DeckAnalysis() {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">Moxfield Deck URL</label>
+            <div className="flex gap-2">
+              <Input
+                type="url"
+                value={moxfieldUrl}
+                onChange={(e) => setMoxfieldUrl(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && moxfieldUrl.trim()) handleMoxfieldImport();
+                }}
+                placeholder="https://www.moxfield.com/decks/..."
+              />
+              <Button
+                onClick={handleMoxfieldImport}
+                disabled={isFetchingDeck || isAnalyzing || !moxfieldUrl.trim()}
+              >
+                {isFetchingDeck ? (
+                  <div className="flex items-center gap-2">
+                    <LoadingSpinner size="sm" />
+                    <span>Loading...</span>
+                  </div>
+                ) : (
+                  <>
+                    <LinkIcon className="h-4 w-4 mr-2" />
+                    Load Deck
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <Separator className="flex-1" />
+            or paste a deck list
+            <Separator className="flex-1" />
+          </div>
+
           <div>
             <label className="text-sm font-medium mb-2 block">Deck Name (optional)</label>
             <Input
@@ -1033,22 +2152,53 @@ export default function DeckAnalysis() {
           </div>
           
           <div>
-            <label className="text-sm font-medium mb-2 block">Deck List</label>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium block">Deck List</label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.dek,.csv,text/plain,text/csv,application/xml"
+                className="hidden"
+                onChange={handleDeckFile}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isAnalyzing}>
+                <UploadIcon className="h-4 w-4 mr-2" />
+                {deckFileName || 'Load File'}
+              </Button>
+            </div>
             <Textarea
               value={deckListText}
-              onChange={(e) => setDeckListText(e.target.value)}
-              placeholder={`Paste your deck list here. Supported formats:
-1 Alania (OTJ) 204 *F*
-1 Lightning Bolt (M21) 168
-2 Island
-1 Sol Ring *F*
-
-Each line should have: quantity, card name, optional (SET) collector_number, optional *F* for foil`}
+              onChange={(e) => {
+                setDeckListText(e.target.value);
+                setDeckFileName(undefined);
+              }}
+              placeholder={`Paste your deck list or load an export file. Supported formats:
+MTG Arena / Moxfield / Archidekt text:
+  Deck
+  1 Alania (OTJ) 204 *F*
+  4 Lightning Bolt (M21) 168
+  Sideboard
+  2 Negate
+Plain lists: 4x Lightning Bolt, SB: 2 Negate
+MTGO .dek files, Moxfield and Archidekt CSV exports`}
               rows={12}
               className="font-mono text-sm"
             />
           </div>
           
+          {decks.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="add-as-new-deck"
+                checked={addAsNewDeck}
+                onCheckedChange={(checked) => setAddAsNewDeck(!!checked)}
+              />
+              <label htmlFor="add-as-new-deck" className="text-sm">
+                Add to the {decks.length === 1 ? 'deck' : `${decks.length} decks`} already loaded, sharing stock between them
+              </label>
+            </div>
+          )}
+
           <div className="flex gap-3">
             <Button 
               onClick={handleAnalyzeDeck}
@@ -1061,7 +2211,7 @@ Each line should have: quantity, card name, optional (SET) collector_number, opt
                   <span>Analyzing...</span>
                 </div>
               ) : (
-                'Analyze Deck'
+                importMode === 'add' ? 'Add Deck' : 'Analyze Deck'
               )}
             </Button>
             <Button 
@@ -1073,6 +2223,8 @@ Each line should have: quantity, card name, optional (SET) collector_number, opt
             </Button>
           </div>
           
+          {importReport && <DeckImportReport report={importReport} />}
+
           {error && (
             <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
               <AlertCircleIcon className="h-5 w-5 text-red-600" />
@@ -1082,6 +2234,22 @@ Each line should have: quantity, card name, optional (SET) collector_number, opt
         </CardContent>
       </Card>
 
+      {/* Saved decks */}
+      <DeckLibrary activeDeckId={savedDeckId} onOpen={handleOpenSavedDeck} />
+
+      {/* Decks analyzed together */}
+      {multiDeckAnalysis && currentDeck && (
+        <MultiDeckOverview
+          analysis={multiDeckAnalysis}
+          selectedDeckId={currentDeck.id}
+          onSelect={(deckId) => {
+            selectDeck(deckId);
+            setSharedView(null);
+          }}
+          onRemove={(deckId) => removeDeck(deckId, { matchCardStyle, aggressiveArtMatching })}
+        />
+      )}
+
       {/* Current Deck Info */}
       {currentDeck && (
         <Card>
@@ -1096,16 +2264,38 @@ Each line should have: quantity, card name, optional (SET) collector_number, opt
                   {Object.keys(currentDeck.mainboard).length} cards
                 </p>
               </div>
-              <Badge variant="outline">
-                Imported Deck
-              </Badge>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">
+                  Imported Deck
+                </Badge>
+                {deckAnalysis && (
+                  <Button variant="outline" size="sm" onClick={handleSaveToLibrary} disabled={isSavingDeck}>
+                    <BookmarkPlusIcon className="h-4 w-4 mr-2" />
+                    {savedDeckId ? 'Update in library' : 'Save to library'}
+                  </Button>
+                )}
+                {deckAnalysis && (
+                  <Button variant="outline" size="sm" onClick={handleShare} disabled={isSharing}>
+                    <Share2Icon className="h-4 w-4 mr-2" />
+                    {isSharing ? 'Creating link...' : 'Copy share link'}
+                  </Button>
+                )}
+              </div>
             </div>
+            {shareUrl && (
+              <div className="mt-3 space-y-1">
+                <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} className="text-xs" />
+                <p className="text-xs text-muted-foreground">
+                  Opens this deck with the same options, sort and hidden cards, priced against the inventory at the time it is opened.
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
 
       {/* Analysis Results */}
-      {deckAnalysis && <DeckAnalysisResults analysis={deckAnalysis} excludeBasicLands={excludeBasicLands} aggressiveArtMatching={aggressiveArtMatching} originalDeckCards={(currentDeck as any)?.originalParsedCards || []} />}
+      {deckAnalysis && <DeckAnalysisResults key={deckAnalysis.deckId} analysis={deckAnalysis} excludeBasicLands={excludeBasicLands} aggressiveArtMatching={aggressiveArtMatching} originalDeckCards={(currentDeck as any)?.originalParsedCards || []} initialView={sharedView} onViewChange={handleViewChange} />}
 
       {/* Empty State */}
       {!currentDeck && !deckAnalysis && (
@@ -1143,16 +2333,22 @@ Each line should have: quantity, card name, optional (SET) collector_number, opt
               className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
             />
             <label htmlFor="match-card-style" className="text-sm font-medium text-gray-700">
-              Always use cheapest best quality (ignore set/foil preferences)
+              Always use cheapest best quality (ignore set preferences)
             </label>
           </div>
           <p className="text-xs text-gray-500 mt-2">
-            When checked, will prioritize card quality and price over matching specific sets or foil status.
+            When checked, will prioritize card quality and price over matching specific sets. Otherwise the printing in your deck list is bought first, then its set. Foil status follows the purchase policy below.
             Automatically excludes all cards priced at €0.00.
           </p>
         </CardContent>
       </Card>
 
+      {/* Purchase Policy */}
+      <PurchasePolicySettings />
+
+      {/* Owned Cards */}
+      <MyCollection />
+
       {/* Exclude Basic Lands Toggle */}
       <Card>
         <CardHeader>
@@ -1195,8 +2391,8 @@ Each line should have: quantity, card name, optional (SET) collector_number, opt
             </label>
           </div>
           <p className="text-xs text-gray-500 mt-2">
-            When checked, will prioritize finding Scryfall cards that match the exact set and collector number of cards in your deck.
-            This can help ensure you get the correct art for your deck.
+            When checked, only listings of the printing in your deck list are bought: the exact set and collector number first, then the same set.
+            Cards with no such listing in stock are left unavailable rather than bought in another printing.
           </p>
         </CardContent>
       </Card>
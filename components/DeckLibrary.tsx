@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { DeckChange, DeckChangeKind, SavedDeck } from '@/lib/types';
+import { DECK_CHANGE_LABELS } from '@/lib/deck-library';
+import { DECK_BOARD_LABELS } from '@/lib/deck-boards';
+import { formatDate, formatPrice } from '@/lib/utils';
+import useStore from '@/lib/store';
+import LoadingSpinner from './LoadingSpinner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BookmarkIcon, RefreshCwIcon, Trash2Icon, ChevronDownIcon, ChevronUpIcon } from 'lucide-react';
+import { toast } from 'sonner';
+
+const CHANGE_STYLES: Record<DeckChangeKind, string> = {
+  'available': 'text-green-700 border-green-300',
+  'price-drop': 'text-blue-700 border-blue-300',
+  'sold-out': 'text-red-700 border-red-300'
+};
+
+const CHANGE_ORDER: DeckChangeKind[] = ['available', 'price-drop', 'sold-out'];
+
+function describeChange(change: DeckChange): string {
+  switch (change.kind) {
+    case 'price-drop':
+      return `${formatPrice(change.before)} → ${formatPrice(change.after)}`;
+    default:
+      return `buying ${change.after} (was ${change.before})`;
+  }
+}
+
+// Saved decks with their last analysis; re-analyzing all of them shows what changed in the inventory
+export default function DeckLibrary({ activeDeckId, onOpen }: {
+  activeDeckId: string | null;
+  onOpen: (deck: SavedDeck) => void;
+}) {
+  const { savedDecks, outpostData, lastDataRefresh, deleteSavedDeck, reanalyzeDeckLibrary } = useStore();
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [expandedDeckId, setExpandedDeckId] = useState<string | null>(null);
+
+  const handleReanalyze = async () => {
+    setIsReanalyzing(true);
+    try {
+      await reanalyzeDeckLibrary();
+      toast.success(`Re-analyzed ${savedDecks.length} deck${savedDecks.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Failed to re-analyze saved decks:', error);
+      toast.error('Failed to re-analyze saved decks');
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
+  const handleDelete = async (deck: SavedDeck) => {
+    if (!window.confirm(`Remove "${deck.name}" from the library?`)) return;
+    try {
+      await deleteSavedDeck(deck.id);
+    } catch (error) {
+      console.error('Failed to delete saved deck:', error);
+      toast.error('Failed to delete the deck');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <BookmarkIcon className="h-5 w-5" />
+            Deck Library
+          </CardTitle>
+          {savedDecks.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleReanalyze} disabled={isReanalyzing || outpostData.length === 0}>
+              {isReanalyzing ? <LoadingSpinner size="sm" className="mr-2" /> : <RefreshCwIcon className="h-4 w-4 mr-2" />}
+              Re-analyze all
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {savedDecks.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Save an analyzed deck to keep its list and options here, then re-analyze it whenever the inventory updates.
+          </p>
+        )}
+
+        {savedDecks.map(deck => {
+          const snapshot = deck.lastAnalysis;
+          const isStale = !!snapshot && !!lastDataRefresh && snapshot.inventoryUpdated !== lastDataRefresh;
+          const isExpanded = expandedDeckId === deck.id;
+          const copies = deck.cards.reduce((sum, card) => sum + card.quantity, 0);
+
+          return (
+            <div key={deck.id} className={`p-3 rounded-lg border ${deck.id === activeDeckId ? 'border-blue-300 bg-blue-50' : ''}`}>
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{deck.name}</span>
+                    {isStale && <Badge variant="secondary">Inventory updated</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {copies} cards
+                    {snapshot && ` · analyzed ${formatDate(snapshot.analyzedAt)}`}
+                    {snapshot && ` · ${snapshot.totals.totalCards - snapshot.totals.missingCopies}/${snapshot.totals.totalCards} covered`}
+                    {snapshot && ` · ${formatPrice(snapshot.totals.totalCost)}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => onOpen(deck)} disabled={outpostData.length === 0}>
+                    Open
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(deck)} title="Remove from library">
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {deck.changes.length > 0 && (
+                <div className="mt-2">
+                  <button
+                    className="flex items-center gap-2 flex-wrap text-xs"
+                    onClick={() => setExpandedDeckId(isExpanded ? null : deck.id)}
+                  >
+                    {CHANGE_ORDER.map(kind => {
+                      const count = deck.changes.filter(change => change.kind === kind).length;
+                      return count > 0 && (
+                        <Badge key={kind} variant="outline" className={CHANGE_STYLES[kind]}>
+                          {count} {DECK_CHANGE_LABELS[kind].toLowerCase()}
+                        </Badge>
+                      );
+                    })}
+                    {isExpanded ? <ChevronUpIcon className="h-3 w-3" /> : <ChevronDownIcon className="h-3 w-3" />}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="mt-2 space-y-1">
+                      {CHANGE_ORDER.flatMap(kind => deck.changes.filter(change => change.kind === kind)).map(change => (
+                        <div key={`${change.kind}|${change.board}|${change.cardName}`} className="flex items-center gap-2 text-xs">
+                          <Badge variant="outline" className={`${CHANGE_STYLES[change.kind]} w-24 justify-center`}>
+                            {DECK_CHANGE_LABELS[change.kind]}
+                          </Badge>
+                          <span className="font-medium">{change.cardName}</span>
+                          <span className="text-muted-foreground">
+                            {DECK_BOARD_LABELS[change.board]} · {describeChange(change)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {savedDecks.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Each deck is re-analyzed on its own with its saved options and the current purchase policy and collection.
+            Changes compare against the previous analysis. Saved in this browser.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
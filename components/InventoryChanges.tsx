@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InventoryChange, InventoryChangeType, InventoryDiff, InventorySnapshotEntry, OutpostDataResponse } from '@/lib/types';
+import { CHANGE_TYPES, diffInventories, priceDelta } from '@/lib/inventory-diff';
+import { parseInventoryData } from '@/lib/inventory-schema';
+import { formatDate, formatPrice } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HistoryIcon, PlusCircleIcon, MinusCircleIcon, PackageCheckIcon, PackageXIcon, TrendingUpIcon, TrendingDownIcon, Loader2Icon } from 'lucide-react';
+
+// Rendering thousands of rows at once makes the tab sluggish
+const MAX_VISIBLE_CHANGES = 250;
+
+const CHANGE_LABELS: Record<InventoryChangeType, string> = {
+  'added': 'New listings',
+  'removed': 'Removed',
+  'restocked': 'Restocked',
+  'sold-out': 'Sold out',
+  'price-changed': 'Price changes'
+};
+
+const CHANGE_STYLES: Record<InventoryChangeType, string> = {
+  'added': 'bg-blue-50 border-blue-200 text-blue-700',
+  'removed': 'bg-gray-50 border-gray-200 text-gray-700',
+  'restocked': 'bg-green-50 border-green-200 text-green-700',
+  'sold-out': 'bg-red-50 border-red-200 text-red-700',
+  'price-changed': 'bg-orange-50 border-orange-200 text-orange-700'
+};
+
+const CHANGE_ICONS: Record<InventoryChangeType, typeof HistoryIcon> = {
+  'added': PlusCircleIcon,
+  'removed': MinusCircleIcon,
+  'restocked': PackageCheckIcon,
+  'sold-out': PackageXIcon,
+  'price-changed': TrendingUpIcon
+};
+
+// Load a snapshot file and bring it up to the current schema
+async function fetchSnapshot(entry: InventorySnapshotEntry): Promise<OutpostDataResponse> {
+  const response = await fetch(`/api/snapshots?id=${encodeURIComponent(entry.id)}`);
+  if (!response.ok) {
+    throw new Error(`Snapshot ${entry.file} could not be loaded`);
+  }
+  return parseInventoryData(await response.json()).data;
+}
+
+// Before → after description of a single change
+const ChangeDetail = ({ change }: { change: InventoryChange }) => {
+  const { before, after } = change;
+
+  if (change.type === 'price-changed' && before && after) {
+    const delta = priceDelta(change);
+    const Icon = delta > 0 ? TrendingUpIcon : TrendingDownIcon;
+    return (
+      <span className={`flex items-center gap-1 ${delta > 0 ? 'text-red-600' : 'text-green-600'}`}>
+        <Icon className="h-3 w-3" />
+        {formatPrice(before.price / 100)} → {formatPrice(after.price / 100)}
+      </span>
+    );
+  }
+
+  if (change.type === 'restocked' || change.type === 'sold-out') {
+    return <span>Stock {before?.stock ?? 0} → {after?.stock ?? 0}</span>;
+  }
+
+  const state = after || before;
+  return state ? <span>{formatPrice(state.price / 100)} · {state.stock} in stock</span> : null;
+};
+
+export default function InventoryChanges() {
+  const [snapshots, setSnapshots] = useState<InventorySnapshotEntry[] | null>(null);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [diff, setDiff] = useState<InventoryDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<InventoryChangeType | 'all'>('all');
+  const [showAll, setShowAll] = useState(false);
+
+  // Load the snapshot manifest written by the scrapers
+  useEffect(() => {
+    fetch('/api/snapshots')
+      .then(response => response.ok ? response.json() : { snapshots: [] })
+      .then(manifest => {
+        const entries: InventorySnapshotEntry[] = Array.isArray(manifest.snapshots) ? manifest.snapshots : [];
+        setSnapshots(entries);
+        if (entries.length >= 2) {
+          setFromId(entries[entries.length - 2].id);
+          setToId(entries[entries.length - 1].id);
+        }
+      })
+      .catch(() => setSnapshots([]));
+  }, []);
+
+  // Compare the selected snapshots whenever the selection changes
+  useEffect(() => {
+    if (!snapshots || !fromId || !toId || fromId === toId) {
+      setDiff(null);
+      return;
+    }
+
+    const fromEntry = snapshots.find(s => s.id === fromId);
+    const toEntry = snapshots.find(s => s.id === toId);
+    if (!fromEntry || !toEntry) return;
+
+    let cancelled = false;
+    setIsComparing(true);
+    setError(null);
+
+    Promise.all([fetchSnapshot(fromEntry), fetchSnapshot(toEntry)])
+      .then(([from, to]) => {
+        if (!cancelled) setDiff(diffInventories(from, to));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Snapshots could not be compared');
+      })
+      .finally(() => {
+        if (!cancelled) setIsComparing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [snapshots, fromId, toId]);
+
+  const visibleChanges = useMemo(() => {
+    if (!diff) return [];
+    return typeFilter === 'all' ? diff.changes : diff.changes.filter(change => change.type === typeFilter);
+  }, [diff, typeFilter]);
+
+  const displayedChanges = showAll ? visibleChanges : visibleChanges.slice(0, MAX_VISIBLE_CHANGES);
+
+  if (snapshots === null) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2Icon className="h-5 w-5 animate-spin mr-2" />
+        Loading snapshots...
+      </div>
+    );
+  }
+
+  if (snapshots.length < 2) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <HistoryIcon className="h-8 w-8 mx-auto mb-3" />
+          <div className="font-medium">Not enough history yet</div>
+          <div className="text-sm mt-1">
+            Each run of <code>npm run scrape</code> saves a snapshot. Changes appear once there are at least two.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const snapshotOptions = [...snapshots].reverse();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <HistoryIcon className="h-5 w-5" />
+              What Changed
+            </CardTitle>
+            <div className="flex items-center gap-2 text-sm">
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="From" />
+                </SelectTrigger>
+                <SelectContent>
+                  {snapshotOptions.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>
+                      {formatDate(snapshot.lastUpdated)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">→</span>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="To" />
+                </SelectTrigger>
+                <SelectContent>
+                  {snapshotOptions.map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>
+                      {formatDate(snapshot.lastUpdated)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="text-sm text-red-600">{error}</div>
+          )}
+
+          {fromId === toId && (
+            <div className="text-sm text-muted-foreground">Pick two different snapshots to compare.</div>
+          )}
+
+          {isComparing && (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2Icon className="h-4 w-4 animate-spin mr-2" />
+              Comparing snapshots...
+            </div>
+          )}
+
+          {diff && !isComparing && (
+            <>
+              {/* Change counts, click to filter */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {CHANGE_TYPES.map(type => {
+                  const Icon = CHANGE_ICONS[type];
+                  const isActive = typeFilter === type;
+                  return (
+                    <button
+                      key={type}
+                      onClick={() => { setTypeFilter(isActive ? 'all' : type); setShowAll(false); }}
+                      className={`rounded-lg border p-3 text-center transition-shadow ${CHANGE_STYLES[type]} ${isActive ? 'ring-2 ring-offset-1 ring-current' : 'hover:shadow-sm'}`}
+                    >
+                      <div className="flex items-center justify-center gap-2">
+                        <Icon className="h-4 w-4" />
+                        <span className="text-xl font-bold">{diff.counts[type]}</span>
+                      </div>
+                      <div className="text-xs mt-1">{CHANGE_LABELS[type]}</div>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {visibleChanges.length === 0 ? (
+                <div className="text-sm text-muted-foreground text-center py-6">
+                  No changes between these snapshots.
+                </div>
+              ) : (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Card</TableHead>
+                        <TableHead>Collection</TableHead>
+                        <TableHead>Condition</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {displayedChanges.map(change => (
+                        <TableRow key={`${change.type}-${change.key}`}>
+                          <TableCell>
+                            <Badge variant="outline" className={CHANGE_STYLES[change.type]}>
+                              {CHANGE_LABELS[change.type]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-medium">
+                            {change.name}
+                            {change.foil && <Badge variant="secondary" className="ml-2 text-xs">Foil</Badge>}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{change.collection}</TableCell>
+                          <TableCell>{change.condition}</TableCell>
+                          <TableCell className="text-sm"><ChangeDetail change={change} /></TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {displayedChanges.length < visibleChanges.length && (
+                    <div className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>
+                        Showing {displayedChanges.length} of {visibleChanges.length.toLocaleString()} changes
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => setShowAll(true)}>
+                        Show all
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
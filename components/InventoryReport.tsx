@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { InventoryRecordIssue, InventoryValidationReport } from '@/lib/types';
+import { reportHasIssues } from '@/lib/inventory-schema';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Collapsible, CollapsibleContent } from '@/components/ui/collapsible';
+import { AlertTriangleIcon, XCircleIcon, ChevronDownIcon, ChevronUpIcon, XIcon } from 'lucide-react';
+
+interface InventoryReportProps {
+  report: InventoryValidationReport | null;
+}
+
+// List of dropped or repaired records with their reasons
+const IssueList = ({ title, issues, tone }: { title: string; issues: InventoryRecordIssue[]; tone: 'red' | 'yellow' }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <div>
+      <div className={`text-sm font-medium mb-2 ${tone === 'red' ? 'text-red-700' : 'text-yellow-800'}`}>
+        {title} ({issues.length})
+      </div>
+      <ScrollArea className="max-h-48">
+        <div className="space-y-1">
+          {issues.map(issue => (
+            <div key={`${title}-${issue.index}`} className="text-xs flex gap-2">
+              <span className="font-mono text-muted-foreground w-14 flex-shrink-0">#{issue.index + 1}</span>
+              <span className="font-medium truncate max-w-48">{issue.name}</span>
+              {issue.collection && (
+                <span className="text-muted-foreground truncate max-w-40">{issue.collection}</span>
+              )}
+              <span className="text-muted-foreground">{issue.reasons.join('; ')}</span>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default function InventoryReport({ report }: InventoryReportProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!report || !reportHasIssues(report) || dismissed) {
+    return null;
+  }
+
+  if (report.fatalError) {
+    return (
+      <Card className="mb-6 bg-red-50 border-red-200">
+        <CardContent className="p-4 flex items-center gap-3">
+          <XCircleIcon className="h-5 w-5 text-red-600 flex-shrink-0" />
+          <div className="text-sm text-red-800">
+            <strong>Inventory could not be loaded:</strong> {report.fatalError}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const hasDropped = report.droppedRecords.length > 0;
+
+  return (
+    <Card className={`mb-6 ${hasDropped ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <AlertTriangleIcon className={`h-5 w-5 flex-shrink-0 ${hasDropped ? 'text-red-600' : 'text-yellow-600'}`} />
+            <div className="text-sm">
+              <strong>Inventory data issues:</strong>{' '}
+              {report.acceptedRecords.toLocaleString()} of {report.totalRecords.toLocaleString()} records loaded
+              {hasDropped && <>, {report.droppedRecords.length} dropped</>}
+              {report.repairedRecords.length > 0 && <>, {report.repairedRecords.length} repaired</>}
+            </div>
+            {report.sourceVersion !== report.targetVersion && (
+              <Badge variant="outline" className="text-xs">
+                Schema v{report.sourceVersion} → v{report.targetVersion}
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+              Details
+              {expanded ? <ChevronUpIcon className="h-3 w-3 ml-1" /> : <ChevronDownIcon className="h-3 w-3 ml-1" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setDismissed(true)}>
+              <XIcon className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+
+        <Collapsible open={expanded} onOpenChange={setExpanded}>
+          <CollapsibleContent className="space-y-4">
+            {report.migrationsApplied.length > 0 && (
+              <div className="text-xs text-muted-foreground">
+                Migrations applied: {report.migrationsApplied.join(', ')}
+              </div>
+            )}
+            <IssueList title="Dropped records" issues={report.droppedRecords} tone="red" />
+            <IssueList title="Repaired records" issues={report.repairedRecords} tone="yellow" />
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
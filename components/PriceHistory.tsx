@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from 'react';
+import { OutpostCard, PriceHistorySeries } from '@/lib/types';
+import { ScryfallCard } from '@/lib/scryfall';
+import { listingSeriesForCard, loadLocalPriceHistory, mergeSeries, scryfallSeriesKey, summarizeSeries } from '@/lib/price-history';
+import { formatPrice } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2Icon, LineChartIcon } from 'lucide-react';
+
+interface PriceHistoryProps {
+  card: OutpostCard;
+  printing: ScryfallCard | null;
+}
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 28, left: 56 };
+
+interface ChartLine {
+  label: string;
+  color: string;
+  dashed?: boolean;
+  series: PriceHistorySeries;
+}
+
+function formatShortDate(date: string): string {
+  return new Date(date).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: '2-digit' });
+}
+
+// Step chart: a price holds until the next change, and up to lastSeen for the latest point
+const PriceChart = ({ lines }: { lines: ChartLine[] }) => {
+  const times = lines.flatMap(line => [
+    ...line.series.points.map(point => new Date(point.date).getTime()),
+    new Date(line.series.lastSeen).getTime()
+  ]);
+  const prices = lines.flatMap(line => line.series.points.map(point => point.price));
+
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const maxPrice = Math.max(...prices) * 1.1 || 1;
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const y = (price: number) => PADDING.top + plotHeight - (price / maxPrice) * plotHeight;
+
+  const stepPath = (series: PriceHistorySeries) => {
+    const commands: string[] = [];
+    series.points.forEach((point, index) => {
+      const px = x(new Date(point.date).getTime());
+      const py = y(point.price);
+      if (index === 0) {
+        commands.push(`M ${px} ${py}`);
+      } else {
+        commands.push(`H ${px}`, `V ${py}`);
+      }
+    });
+    commands.push(`H ${x(new Date(series.lastSeen).getTime())}`);
+    return commands.join(' ');
+  };
+
+  const gridPrices = [0, 0.5, 1].map(fraction => Math.round(maxPrice * fraction));
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Price history chart">
+      {gridPrices.map(price => (
+        <g key={price}>
+          <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(price)} y2={y(price)} className="stroke-gray-200" strokeWidth={1} />
+          <text x={PADDING.left - 6} y={y(price) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {formatPrice(price / 100)}
+          </text>
+        </g>
+      ))}
+
+      <text x={PADDING.left} y={CHART_HEIGHT - 8} className="fill-gray-500 text-[10px]">
+        {formatShortDate(new Date(minTime).toISOString())}
+      </text>
+      <text x={CHART_WIDTH - PADDING.right} y={CHART_HEIGHT - 8} textAnchor="end" className="fill-gray-500 text-[10px]">
+        {formatShortDate(new Date(maxTime).toISOString())}
+      </text>
+
+      {lines.map(line => (
+        <g key={line.label}>
+          <path
+            d={stepPath(line.series)}
+            fill="none"
+            stroke={line.color}
+            strokeWidth={2}
+            strokeDasharray={line.dashed ? '6 4' : undefined}
+          />
+          {line.series.points.map(point => (
+            <circle key={point.date} cx={x(new Date(point.date).getTime())} cy={y(point.price)} r={3} fill={line.color}>
+              <title>
+                {`${line.label}: ${formatPrice(point.price / 100)} on ${formatShortDate(point.date)}${point.stock !== undefined ? ` (${point.stock} in stock)` : ''}`}
+              </title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default function PriceHistory({ card, printing }: PriceHistoryProps) {
+  const [serverSeries, setServerSeries] = useState<Record<string, PriceHistorySeries>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedCondition, setSelectedCondition] = useState<string>('');
+
+  // Scraped history comes from the API; prices seen in this browser are merged in below
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ variantId: card.variantId, name: card.name, collection: card.collection });
+    if (card.foil) params.set('foil', '1');
+
+    setIsLoading(true);
+    fetch(`/api/price-history?${params.toString()}`, { signal: controller.signal })
+      .then(response => response.ok ? response.json() : { conditions: {} })
+      .then(data => setServerSeries(data.conditions || {}))
+      .catch(() => {
+        if (!controller.signal.aborted) setServerSeries({});
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [card.variantId, card.name, card.collection, card.foil]);
+
+  const localHistory = useMemo(() => loadLocalPriceHistory(), []);
+
+  const conditionSeries = useMemo(() => {
+    const local = listingSeriesForCard(localHistory, card);
+    const merged: Record<string, PriceHistorySeries> = {};
+    Array.from(new Set([...Object.keys(serverSeries), ...Object.keys(local)])).forEach(condition => {
+      const series = mergeSeries(serverSeries[condition], local[condition]);
+      if (series) merged[condition] = series;
+    });
+    return merged;
+  }, [localHistory, card, serverSeries]);
+
+  const conditionNames = useMemo(() => Object.keys(conditionSeries), [conditionSeries]);
+
+  // Default to the cheapest condition currently listed
+  useEffect(() => {
+    if (selectedCondition && conditionSeries[selectedCondition]) return;
+    const cheapest = [...(card.conditions || [])]
+      .filter(condition => conditionSeries[condition.condition])
+      .sort((a, b) => a.price - b.price)[0];
+    setSelectedCondition(cheapest ? cheapest.condition : conditionNames[0] || '');
+  }, [conditionSeries, conditionNames, card.conditions, selectedCondition]);
+
+  const outpostSeries = conditionSeries[selectedCondition];
+  const scryfallSeries = printing ? localHistory.scryfall[scryfallSeriesKey(printing.id, card.foil)] : undefined;
+  const stats = summarizeSeries(outpostSeries);
+  const currentPrice = outpostSeries ? outpostSeries.points[outpostSeries.points.length - 1].price : null;
+
+  const lines: ChartLine[] = [];
+  if (outpostSeries) {
+    lines.push({ label: `Outpost ${selectedCondition}`, color: '#2563eb', series: outpostSeries });
+  }
+  if (scryfallSeries) {
+    lines.push({ label: card.foil ? 'Scryfall EUR foil' : 'Scryfall EUR', color: '#ea580c', dashed: true, series: scryfallSeries });
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2Icon className="h-5 w-5 animate-spin mr-2" />
+        Loading price history...
+      </div>
+    );
+  }
+
+  if (lines.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <LineChartIcon className="h-8 w-8 mx-auto mb-3" />
+        <div className="font-medium">No price history yet</div>
+        <div className="text-sm mt-1">Prices are recorded on every scrape and whenever this card is viewed.</div>
+      </div>
+    );
+  }
+
+  const deviation = stats && currentPrice !== null && stats.median > 0
+    ? Math.round(((currentPrice - stats.median) / stats.median) * 100)
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {conditionNames.length > 0 && (
+          <Select value={selectedCondition} onValueChange={setSelectedCondition}>
+            <SelectTrigger className="w-40 h-8 text-xs">
+              <SelectValue placeholder="Condition" />
+            </SelectTrigger>
+            <SelectContent>
+              {conditionNames.map(condition => (
+                <SelectItem key={condition} value={condition}>{condition}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-center gap-3 text-xs">
+          {lines.map(line => (
+            <span key={line.label} className="flex items-center gap-1">
+              <span className="inline-block w-4 h-0.5" style={{ backgroundColor: line.color }} />
+              {line.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <PriceChart lines={lines} />
+
+      {stats && currentPrice !== null && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="outline">Low {formatPrice(stats.min / 100)}</Badge>
+          <Badge variant="outline">Usual {formatPrice(stats.median / 100)}</Badge>
+          <Badge variant="outline">High {formatPrice(stats.max / 100)}</Badge>
+          {deviation !== null && deviation !== 0 && (
+            <Badge className={deviation > 0 ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'}>
+              Now {Math.abs(deviation)}% {deviation > 0 ? 'above' : 'below'} usual
+            </Badge>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
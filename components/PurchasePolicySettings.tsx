@@ -0,0 +1,92 @@
+import { FoilPreference, PriceQualityTradeoff } from '@/lib/types';
+import { CONDITION_ORDER, FOIL_PREFERENCE_LABELS } from '@/lib/purchase-policy';
+import useStore from '@/lib/store';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldCheckIcon } from 'lucide-react';
+
+const TRADEOFF_OPTIONS: { value: PriceQualityTradeoff; label: string }[] = [
+  { value: 'quality', label: 'Best condition' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'price', label: 'Cheapest' }
+];
+
+// Minimum condition, foil preference and price/quality tradeoff, shared by deck analysis, the cart and search
+export default function PurchasePolicySettings() {
+  const { purchasePolicy, setPurchasePolicy } = useStore();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheckIcon className="h-5 w-5" />
+          Purchase Policy
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-gray-700">Minimum condition</label>
+            <Select
+              value={purchasePolicy.minCondition}
+              onValueChange={(minCondition) => setPurchasePolicy({ ...purchasePolicy, minCondition })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONDITION_ORDER.map((condition, index) => (
+                  <SelectItem key={condition} value={condition}>
+                    {index === CONDITION_ORDER.length - 1 ? `${condition} (any condition)` : `${condition} or better`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-sm font-medium text-gray-700">Foil</label>
+            <Select
+              value={purchasePolicy.foil}
+              onValueChange={(foil) => setPurchasePolicy({ ...purchasePolicy, foil: foil as FoilPreference })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FOIL_PREFERENCE_LABELS) as FoilPreference[]).map(foil => (
+                  <SelectItem key={foil} value={foil}>
+                    {FOIL_PREFERENCE_LABELS[foil]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-sm font-medium text-gray-700">Price versus quality</div>
+          <div className="flex flex-wrap gap-2">
+            {TRADEOFF_OPTIONS.map(option => (
+              <Button
+                key={option.value}
+                variant={purchasePolicy.tradeoff === option.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setPurchasePolicy({ ...purchasePolicy, tradeoff: option.value })}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Listings below the minimum condition or with the wrong finish are never bought. Best condition buys the best copies first,
+          Cheapest the cheapest, and Balanced takes a worse condition when it is clearly cheaper. Also used for quick cart adds and
+          the default search filters. Saved in this browser.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,178 @@
+import { BudgetGoal, BudgetLeftOut, BudgetPick, BudgetPlan, CardAvailability, PurchasePlan, PurchasePolicy } from './types';
+import { deckEntryKey } from './deck-boards';
+import { StockLedger, allocatePurchase, createStockLedger, reservePurchase } from './purchase-allocation';
+import { listingKey } from './card-variants';
+import { DEFAULT_PURCHASE_POLICY } from './purchase-policy';
+import { copiesToBuy } from './collection';
+
+// Chooses which cards (and how many copies) to buy within a budget
+// A multiple-choice knapsack over the cheapest plan for 1..n copies of each card,
+// then leftover money upgrades picks the way the purchase policy ranks listings
+
+export const DEFAULT_PRIORITY = 1;
+
+export const PRIORITY_LEVELS = [
+  { label: 'Skip', weight: 0 },
+  { label: 'Low', weight: 0.5 },
+  { label: 'Normal', weight: 1 },
+  { label: 'High', weight: 2 },
+  { label: 'Must have', weight: 5 }
+];
+
+// Budgets are solved in whole cents up to this many steps; larger budgets use coarser steps
+const MAX_BUDGET_STEPS = 20000;
+
+export interface BudgetOptions {
+  budget: number; // euros
+  goal: BudgetGoal;
+  priorities?: Record<string, number>; // by deckEntryKey, DEFAULT_PRIORITY when missing
+  policy?: PurchasePolicy;
+  reserved?: StockLedger; // copies given to other decks
+}
+
+interface BuyOption {
+  plan: PurchasePlan;
+  cost: number; // in budget steps, rounded up
+  value: number;
+}
+
+const toCents = (euros: number) => Math.round(euros * 100);
+
+// Copies each card may not plan: those the deck analysis gave other cards and other decks,
+// and stock nobody was given once an earlier card can buy it, so no copy is planned twice
+function cardLedgers(cards: CardAvailability[], reserved?: StockLedger): StockLedger[] {
+  const given = createStockLedger(reserved);
+  cards.forEach(card => reservePurchase(given, card.purchasePlan.lines));
+
+  const owners = new Map<string, number>();
+  return cards.map((card, cardIndex) => {
+    const own = createStockLedger();
+    reservePurchase(own, card.purchasePlan.lines);
+
+    const ledger = createStockLedger();
+    card.availableCards.forEach(variant => (variant.conditions || []).forEach(condition => {
+      const key = listingKey(variant, condition.condition);
+      if (!owners.has(key)) owners.set(key, cardIndex);
+      const taken = owners.get(key) === cardIndex ? (given.get(key) || 0) : condition.stock;
+      ledger.set(key, Math.max(0, taken - (own.get(key) || 0)));
+    }));
+    return ledger;
+  });
+}
+
+export function optimizeBudget(cards: CardAvailability[], options: BudgetOptions): BudgetPlan {
+  const budgetCents = Math.max(0, toCents(options.budget));
+  const step = Math.max(1, Math.ceil(budgetCents / MAX_BUDGET_STEPS));
+  const capacity = Math.floor(budgetCents / step);
+  const policy = options.policy || DEFAULT_PURCHASE_POLICY;
+  const cheapestFirst: PurchasePolicy = { ...policy, tradeoff: 'price' };
+  const ledgers = cardLedgers(cards, options.reserved);
+  const cheapestPlan = (cardIndex: number, copies: number) => allocatePurchase(cards[cardIndex].availableCards, copies, {
+    ledger: createStockLedger(ledgers[cardIndex]),
+    policy: cheapestFirst,
+    wantedFoil: cards[cardIndex].requestedFoil
+  });
+
+  const weightOf = (card: CardAvailability) => {
+    const priority = options.priorities?.[deckEntryKey(card)];
+    if (priority === 0) return 0;
+    return options.goal === 'priority' ? (priority ?? DEFAULT_PRIORITY) : 1;
+  };
+
+  // Copies of each card that are in stock at all (owned copies are never bought)
+  const buyable = cards.map((card, cardIndex) => cheapestPlan(cardIndex, copiesToBuy(card)).quantity);
+
+  // Cheapest way to buy 1..n copies of each card, whatever the condition
+  const choices: BuyOption[][] = cards.map((card, cardIndex) => {
+    const weight = weightOf(card);
+    if (weight === 0) return [];
+
+    const cardOptions: BuyOption[] = [];
+    for (let copies = 1; copies <= buyable[cardIndex]; copies++) {
+      const plan = cheapestPlan(cardIndex, copies);
+      cardOptions.push({ plan, cost: Math.ceil(toCents(plan.totalCost) / step), value: weight * copies });
+    }
+    return cardOptions.filter(option => option.cost <= capacity);
+  });
+
+  // best[c]: highest value for at most c steps; chosen[i][c]: option of card i used for it (0 = none)
+  let best = new Float64Array(capacity + 1);
+  const chosen = choices.map(() => new Uint16Array(capacity + 1));
+
+  choices.forEach((cardOptions, cardIndex) => {
+    const next = best.slice();
+    for (let c = 0; c <= capacity; c++) {
+      cardOptions.forEach((option, optionIndex) => {
+        if (option.cost > c) return;
+        const value = best[c - option.cost] + option.value;
+        if (value > next[c] + 1e-9) {
+          next[c] = value;
+          chosen[cardIndex][c] = optionIndex + 1;
+        }
+      });
+    }
+    best = next;
+  });
+
+  // The cheapest budget that reaches the best value
+  let c = 0;
+  while (c < capacity && best[c] < best[capacity] - 1e-9) c++;
+
+  const plans: (PurchasePlan | null)[] = cards.map(() => null);
+  for (let cardIndex = cards.length - 1; cardIndex >= 0; cardIndex--) {
+    const optionIndex = chosen[cardIndex][c];
+    if (optionIndex === 0) continue;
+    const option = choices[cardIndex][optionIndex - 1];
+    plans[cardIndex] = option.plan;
+    c -= option.cost;
+  }
+
+  // Spend what is left on better conditions, most important cards first
+  let remaining = budgetCents - plans.reduce((sum, plan) => sum + (plan ? toCents(plan.totalCost) : 0), 0);
+  cards
+    .map((card, cardIndex) => ({ card, cardIndex }))
+    .filter(({ cardIndex }) => plans[cardIndex] !== null)
+    .sort((a, b) => weightOf(b.card) - weightOf(a.card))
+    .forEach(({ card, cardIndex }) => {
+      const plan = plans[cardIndex]!;
+      const upgrade = allocatePurchase(card.availableCards, plan.quantity, {
+        ledger: createStockLedger(ledgers[cardIndex]),
+        policy,
+        wantedFoil: card.requestedFoil
+      });
+      const extra = toCents(upgrade.totalCost) - toCents(plan.totalCost);
+      if (upgrade.quantity === plan.quantity && extra > 0 && extra <= remaining) {
+        plans[cardIndex] = upgrade;
+        remaining -= extra;
+      }
+    });
+
+  const picks: BudgetPick[] = [];
+  const leftOut: BudgetLeftOut[] = [];
+  cards.forEach((card, cardIndex) => {
+    const plan = plans[cardIndex];
+    const bought = plan ? plan.quantity : 0;
+    if (plan) picks.push({ card, plan });
+
+    if (weightOf(card) === 0) {
+      if (copiesToBuy(card) > 0) leftOut.push({ card, quantity: copiesToBuy(card), reason: 'skipped' });
+      return;
+    }
+
+    if (buyable[cardIndex] > bought) {
+      leftOut.push({ card, quantity: buyable[cardIndex] - bought, reason: 'budget' });
+    }
+    if (copiesToBuy(card) > buyable[cardIndex]) {
+      leftOut.push({ card, quantity: copiesToBuy(card) - buyable[cardIndex], reason: 'unavailable' });
+    }
+  });
+
+  return {
+    budget: budgetCents / 100,
+    spent: picks.reduce((sum, pick) => sum + toCents(pick.plan.totalCost), 0) / 100,
+    picks,
+    leftOut,
+    copiesRequested: cards.reduce((sum, card) => sum + copiesToBuy(card), 0),
+    copiesCovered: picks.reduce((sum, pick) => sum + pick.plan.quantity, 0)
+  };
+}
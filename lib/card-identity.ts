@@ -0,0 +1,198 @@
+import { OutpostCard, CardIdentity, CardIdentityMap } from './types';
+import { ScryfallCard, extractSetCode, getAllPrintings, getCardById, searchCardsByName, shouldFetchScryfallData } from './scryfall';
+import { matchCardName } from './card-names';
+
+// Persisted map from Outpost variants to Scryfall oracle and printing IDs
+// Built once per variant from the collection's set code, rarity and foil; manual links always win
+
+const LOCAL_STORAGE_KEY = 'outpost_card_identities';
+
+// Automatic links are re-checked after this long (new printings, better set mapping)
+const AUTO_IDENTITY_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// Below this the link is shown as a guess in the UI
+export const LOW_CONFIDENCE = 0.6;
+
+const RARITY_LETTERS: Record<string, string> = {
+  common: 'C',
+  uncommon: 'U',
+  rare: 'R',
+  mythic: 'M'
+};
+
+let identityMap: CardIdentityMap | null = null;
+const pending = new Map<string, Promise<CardIdentity | null>>();
+
+// Printings seen while matching, so the chosen one does not have to be fetched again
+const knownPrintings = new Map<string, ScryfallCard>();
+
+function createIdentityMap(): CardIdentityMap {
+  return { identities: {}, updatedAt: new Date(0).toISOString() };
+}
+
+function loadIdentityMap(): CardIdentityMap {
+  if (identityMap) return identityMap;
+
+  identityMap = createIdentityMap();
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return identityMap;
+  }
+
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (stored) {
+      identityMap = { ...identityMap, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to load card identities:', error);
+  }
+  return identityMap!;
+}
+
+function saveIdentityMap(map: CardIdentityMap) {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(map));
+  } catch (error) {
+    console.warn('Failed to save card identities:', error);
+  }
+}
+
+function storeIdentity(identity: CardIdentity) {
+  const map = loadIdentityMap();
+  map.identities[identity.variantId] = identity;
+  map.updatedAt = identity.resolvedAt;
+  saveIdentityMap(map);
+}
+
+function oracleIdOf(printing: ScryfallCard): string | null {
+  return printing.oracle_id || null;
+}
+
+// How well a printing fits an Outpost variant, from 0 to 1
+// Name 0.4 (front face 0.35), set code 0.4, rarity 0.1, foil finish 0.1
+export function scorePrinting(variant: Pick<OutpostCard, 'name' | 'rarity' | 'foil' | 'collection'>, printing: ScryfallCard): number {
+  const nameMatch = matchCardName(variant.name, printing.name);
+  let score = nameMatch === 'exact' || nameMatch === 'normalized' ? 0.4 : nameMatch === 'face' ? 0.35 : 0.1;
+
+  const setCode = extractSetCode(variant.collection);
+  if (setCode && printing.set.toUpperCase() === setCode.toUpperCase()) {
+    score += 0.4;
+  }
+
+  if (variant.rarity && RARITY_LETTERS[printing.rarity] === variant.rarity.charAt(0).toUpperCase()) {
+    score += 0.1;
+  }
+
+  // Without finishes, fall back to whether Scryfall has a price for that finish
+  const finishes = printing.finishes || [
+    ...(printing.prices?.eur || printing.prices?.usd ? ['nonfoil'] : []),
+    ...(printing.prices?.eur_foil || printing.prices?.usd_foil ? ['foil'] : [])
+  ];
+  const foilMatches = variant.foil
+    ? finishes.includes('foil') || finishes.includes('etched')
+    : finishes.includes('nonfoil');
+  if (foilMatches) {
+    score += 0.1;
+  }
+
+  return Math.round(score * 100) / 100;
+}
+
+// Pick the best printing for a variant; earlier (newer) printings win ties
+export function matchPrinting(variant: OutpostCard, printings: ScryfallCard[]): CardIdentity | null {
+  const scored = printings.map(printing => ({ printing, score: scorePrinting(variant, printing) }));
+  const best = scored.reduce<{ printing: ScryfallCard; score: number } | null>((top, current) =>
+    !top || current.score > top.score ? current : top, null);
+
+  if (!best) return null;
+  const { printing, score } = best;
+
+  return {
+    variantId: variant.variantId,
+    oracleId: oracleIdOf(printing),
+    printingId: printing.id,
+    setCode: printing.set.toLowerCase(),
+    collectorNumber: printing.collector_number,
+    confidence: score,
+    source: 'auto',
+    resolvedAt: new Date().toISOString()
+  };
+}
+
+// The stored link for a variant, if any (no network)
+export function getCardIdentity(variantId: string): CardIdentity | null {
+  return loadIdentityMap().identities[variantId] || null;
+}
+
+function isFresh(identity: CardIdentity): boolean {
+  return identity.source === 'manual' ||
+    Date.now() - new Date(identity.resolvedAt).getTime() < AUTO_IDENTITY_MAX_AGE;
+}
+
+// Link a variant to Scryfall, using the stored link when it is still fresh
+export async function resolveCardIdentity(variant: OutpostCard): Promise<CardIdentity | null> {
+  const stored = getCardIdentity(variant.variantId);
+  if (stored && isFresh(stored)) return stored;
+  if (!shouldFetchScryfallData(variant.name)) return null;
+
+  const inFlight = pending.get(variant.variantId);
+  if (inFlight) return inFlight;
+
+  const request = (async () => {
+    let printings = await getAllPrintings(variant.name);
+    if (printings.length === 0) {
+      printings = await searchCardsByName(variant.name);
+    }
+
+    printings.forEach(printing => knownPrintings.set(printing.id, printing));
+    const identity = matchPrinting(variant, printings);
+    if (identity) {
+      storeIdentity(identity);
+    }
+    return identity || stored;
+  })();
+
+  pending.set(variant.variantId, request);
+  try {
+    return await request;
+  } finally {
+    pending.delete(variant.variantId);
+  }
+}
+
+// The Scryfall printing for a variant - use this for images and market prices
+export async function getPrintingForVariant(variant: OutpostCard): Promise<ScryfallCard | null> {
+  const identity = await resolveCardIdentity(variant);
+  if (!identity) return null;
+  return knownPrintings.get(identity.printingId) || getCardById(identity.printingId);
+}
+
+// Pin a variant to a printing chosen by the user
+export function setManualIdentity(variantId: string, printing: ScryfallCard): CardIdentity {
+  knownPrintings.set(printing.id, printing);
+  const identity: CardIdentity = {
+    variantId,
+    oracleId: oracleIdOf(printing),
+    printingId: printing.id,
+    setCode: printing.set.toLowerCase(),
+    collectorNumber: printing.collector_number,
+    confidence: 1,
+    source: 'manual',
+    resolvedAt: new Date().toISOString()
+  };
+  storeIdentity(identity);
+  return identity;
+}
+
+// Drop a manual link so the variant is matched automatically again
+export function clearManualIdentity(variantId: string) {
+  const map = loadIdentityMap();
+  if (map.identities[variantId]?.source !== 'manual') return;
+
+  delete map.identities[variantId];
+  saveIdentityMap(map);
+}
@@ -0,0 +1,187 @@
+import { NameMatchType } from './types';
+
+// Card-name normalization shared by deck analysis, inventory search and the Scryfall lookups
+// Deck lists, Outpost and Scryfall write the same card differently: "Lim-Dul's Vault" / "Lim-Dûl's Vault",
+// "Fire // Ice" / "Fire/Ice" / "Fire", "A-Alrund's Epiphany" (Alchemy rebalance), "Sol Ring (Foil)".
+
+// Best first: the name as written, the same name once normalized, the front face of a split or
+// double-faced card, and a fuzzy match (whole words of a longer name, or a name a few typos away)
+export interface CardNameMatch<T> {
+  match: NameMatchType | null; // null: nothing close enough
+  score: number; // similarity of the matched name, 1 unless fuzzy
+  cards: T[];
+  candidates: string[]; // names of other close cards, closest first
+}
+
+interface CardNameIndex<T> {
+  byName: Map<string, T[]>;
+  byFrontFace: Map<string, T[]>; // names with more than one face, by their first
+}
+
+const FACE_SEPARATOR = ' // ';
+const FACE_SPLIT = /\s*\/\/?\s*/;
+const ALCHEMY_PREFIX = /^A-(?=\S)/i;
+
+// Fuzzy matches need this similarity unless one name contains the other's words; candidates need less
+const FUZZY_SIMILARITY = 0.8;
+const CANDIDATE_SIMILARITY = 0.6;
+const CANDIDATE_LIMIT = 5;
+
+// What Outpost sometimes appends to a name: "(Foil)", "(Borderless)", "[Extended Art]"
+const TRAILING_TAG = /\s*(\([^()]*\)|\[[^[\]]*\])\s*$/;
+
+// The printed name without Alchemy prefix or Outpost tags, faces joined with " // "
+export function cleanCardName(name: string): string {
+  let cleaned = name.trim().replace(ALCHEMY_PREFIX, '');
+  while (TRAILING_TAG.test(cleaned)) {
+    cleaned = cleaned.replace(TRAILING_TAG, '');
+  }
+
+  const faces = cleaned.split(FACE_SPLIT).filter(Boolean);
+  return faces.length > 0 ? faces.join(FACE_SEPARATOR) : name.trim();
+}
+
+// Lowercase words without accents, apostrophes or punctuation: "Lim-Dûl's Vault" → "lim duls vault"
+function normalizeFace(face: string): string {
+  const normalized = face
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/æ/g, 'ae')
+    .replace(/['\u2018\u2019`\u00b4]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+  // Names with nothing left (placeholders, other scripts) keep their own characters
+  return normalized || face.toLowerCase().trim();
+}
+
+export function cardFaceNames(name: string): string[] {
+  return cleanCardName(name).split(FACE_SEPARATOR).map(normalizeFace);
+}
+
+export function normalizeCardName(name: string): string {
+  return cardFaceNames(name).join(FACE_SEPARATOR);
+}
+
+// How a name from a deck list or search matches a card name, or null when it doesn't
+export function matchCardName(query: string, candidate: string): NameMatchType | null {
+  if (query.toLowerCase().trim() === candidate.toLowerCase().trim()) return 'exact';
+
+  const queryFaces = cardFaceNames(query);
+  const candidateFaces = cardFaceNames(candidate);
+  const queryName = queryFaces.join(FACE_SEPARATOR);
+  const candidateName = candidateFaces.join(FACE_SEPARATOR);
+
+  if (queryName === candidateName) return 'normalized';
+  if ((queryFaces.length > 1 || candidateFaces.length > 1) && queryFaces[0] === candidateFaces[0]) return 'face';
+  const contains = containsWords(candidateName, queryName) || containsWords(queryName, candidateName);
+  return contains || nameSimilarity(queryName, candidateName) >= FUZZY_SIMILARITY ? 'fuzzy' : null;
+}
+
+// "fire" is in "fire // ice" and "chandra fire of kaladesh" but not in "fireball"
+function containsWords(name: string, words: string): boolean {
+  return ` ${name} `.includes(` ${words} `);
+}
+
+// Levenshtein distance, stopping early once it exceeds `limit`
+function editDistance(a: string, b: string, limit: number): number {
+  let previous: number[] = [];
+  for (let j = 0; j <= b.length; j++) previous.push(j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for the same normalized name, 0 for nothing in common
+export function nameSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  if (length === 0) return 1;
+
+  // Names too different in length cannot reach the candidate similarity
+  const limit = Math.floor(length * (1 - CANDIDATE_SIMILARITY));
+  if (Math.abs(a.length - b.length) > limit) return 0;
+  return 1 - Math.min(editDistance(a, b, limit), length) / length;
+}
+
+function push<T>(map: Map<string, T[]>, key: string, card: T) {
+  const cards = map.get(key);
+  if (cards) {
+    cards.push(card);
+  } else {
+    map.set(key, [card]);
+  }
+}
+
+// The inventory is matched against many deck cards, so its names are normalized once per cards array
+const indexCache = new WeakMap<object, CardNameIndex<any>>();
+
+function getNameIndex<T extends { name: string }>(cards: T[]): CardNameIndex<T> {
+  let index = indexCache.get(cards);
+  if (!index) {
+    const built: CardNameIndex<T> = { byName: new Map(), byFrontFace: new Map() };
+    cards.forEach(card => {
+      const faces = cardFaceNames(card.name || '');
+      push(built.byName, faces.join(FACE_SEPARATOR), card);
+      if (faces.length > 1) push(built.byFrontFace, faces[0], card);
+    });
+    indexCache.set(cards, built);
+    index = built;
+  }
+  return index;
+}
+
+// Cards of the best kind of match for a name, and the names of other cards it might be
+export function findCardsByName<T extends { name: string }>(cards: T[], name: string): CardNameMatch<T> {
+  const index = getNameIndex(cards);
+  const faces = cardFaceNames(name);
+  const key = faces.join(FACE_SEPARATOR);
+
+  const normalized = index.byName.get(key);
+  if (normalized) {
+    const written = name.toLowerCase().trim();
+    const exact = normalized.some(card => card.name.toLowerCase().trim() === written);
+    return { match: exact ? 'exact' : 'normalized', score: 1, cards: normalized, candidates: [] };
+  }
+
+  // Everything close, closest first; whole-word matches rank ahead at the same similarity
+  const close: { name: string; cards: T[]; score: number; contains: boolean }[] = [];
+  index.byName.forEach((named, candidate) => {
+    const contains = containsWords(candidate, key) || containsWords(key, candidate);
+    // A name inside a longer one scores by how much of it is the shorter name
+    const score = contains
+      ? Math.max(nameSimilarity(key, candidate), Math.min(key.length, candidate.length) / Math.max(key.length, candidate.length))
+      : nameSimilarity(key, candidate);
+    if (contains || score >= CANDIDATE_SIMILARITY) {
+      close.push({ name: named[0].name, cards: named, score, contains });
+    }
+  });
+  close.sort((a, b) => b.score - a.score || Number(b.contains) - Number(a.contains) || a.name.localeCompare(b.name));
+  const candidatesBesides = (taken: T[]) => close
+    .filter(entry => taken.indexOf(entry.cards[0]) === -1)
+    .slice(0, CANDIDATE_LIMIT)
+    .map(entry => entry.name);
+
+  // "Fire" finds "Fire // Ice"; "Fire // Ice" finds an Outpost listing named "Fire"
+  const face = (index.byFrontFace.get(faces[0]) || []).concat(faces.length > 1 ? index.byName.get(faces[0]) || [] : []);
+  if (face.length > 0) {
+    return { match: 'face', score: 1, cards: face, candidates: candidatesBesides(face) };
+  }
+
+  // The closest fuzzy name only, so a loose match never mixes listings of different cards
+  const best = close.find(entry => entry.contains || entry.score >= FUZZY_SIMILARITY);
+  if (best) {
+    return { match: 'fuzzy', score: best.score, cards: best.cards, candidates: candidatesBesides(best.cards) };
+  }
+  return { match: null, score: 0, cards: [], candidates: candidatesBesides([]) };
+}
@@ -0,0 +1,143 @@
+import { CardCondition, OutpostCard, CardVariantGroup } from './types';
+import { normalizeCardName } from './card-names';
+
+// Variant identity and name-level grouping
+// The stock file keeps every variant (collection × foil) of a card; the app groups them by name
+
+// Grouping key for a card name, ignoring case, accents, punctuation and how faces are written (lib/card-names.ts)
+export function cardNameKey(name: string): string {
+  return normalizeCardName(name);
+}
+
+// URL-safe slug of a card name: "Jötun Grunt // Back" → "jotun-grunt-back"
+export function slugifyCardName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'unnamed';
+}
+
+// Stable ID for a name/collection/foil combination, e.g. "1234:lightning-bolt:foil"
+export function buildVariantId(card: Pick<OutpostCard, 'name' | 'collectionId' | 'foil'>): string {
+  return `${card.collectionId || 'unknown'}:${slugifyCardName(card.name)}:${card.foil ? 'foil' : 'nonfoil'}`;
+}
+
+// Fields a variant ID is built from: name, collection and foil, plus Outpost's IDs to tell same-name listings apart
+type VariantSource = Pick<OutpostCard, 'name' | 'collectionId' | 'foil'> & {
+  detailUrl?: string;
+  conditions?: Pick<CardCondition, 'outpostId'>[];
+};
+
+// Outpost's product ID for a listing: from the detail link ("...&productid=7001"), else its lowest condition ID
+export function listingProductId(card: VariantSource): string | null {
+  const match = card.detailUrl ? card.detailUrl.match(/[?&]productid=(\d+)/i) : null;
+  if (match) return match[1];
+
+  const conditionIds = (card.conditions || [])
+    .map(condition => condition.outpostId)
+    .filter((id): id is string => !!id && /^\d+$/.test(id))
+    .sort((a, b) => Number(a) - Number(b));
+  return conditionIds.length > 0 ? conditionIds[0] : null;
+}
+
+// Key of one condition listing: the variant ID already covers name, collection and foil ("1234:lightning-bolt:foil|NM/M")
+export function listingKey(card: Pick<OutpostCard, 'variantId'>, condition: string): string {
+  return `${card.variantId}|${condition}`;
+}
+
+// Make an ID unique among those already taken with a #2, #3... suffix
+export function uniqueVariantId(baseId: string, taken: Set<string>): string {
+  let id = baseId;
+  for (let copy = 2; taken.has(id); copy++) {
+    id = `${baseId}#${copy}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+// Give every card its variant ID. Some collections list the same name twice (e.g. alternate arts): the listing
+// with the lowest product ID keeps the plain ID and the others get "#<product ID>", so the IDs do not depend on
+// the order of the page. Listings without any Outpost ID fall back to a #2, #3... suffix in list order.
+export function assignVariantIds<T extends VariantSource>(cards: T[]): (T & { variantId: string })[] {
+  const groups = new Map<string, number[]>();
+  cards.forEach((card, index) => {
+    const baseId = buildVariantId(card);
+    const group = groups.get(baseId);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(baseId, [index]);
+    }
+  });
+
+  const variantIds: string[] = [];
+  const taken = new Set<string>();
+  groups.forEach((indexes, baseId) => {
+    indexes
+      .map(index => ({ index, productId: listingProductId(cards[index]) }))
+      .sort((a, b) => {
+        if (a.productId === null || b.productId === null) {
+          return a.productId === b.productId ? a.index - b.index : a.productId === null ? 1 : -1;
+        }
+        return Number(a.productId) - Number(b.productId) || a.index - b.index;
+      })
+      .forEach(({ index, productId }, position) => {
+        const id = position > 0 && productId ? `${baseId}#${productId}` : baseId;
+        variantIds[index] = uniqueVariantId(id, taken);
+      });
+  });
+
+  return cards.map((card, index) => ({ ...card, variantId: variantIds[index] }));
+}
+
+function hasStock(card: OutpostCard): boolean {
+  return card.stock > 0 && card.price > 0;
+}
+
+// Best variant first: in stock, then priced, then cheapest, then non-foil
+export function compareVariants(a: OutpostCard, b: OutpostCard): number {
+  if (hasStock(a) !== hasStock(b)) return hasStock(a) ? -1 : 1;
+  if ((a.price > 0) !== (b.price > 0)) return a.price > 0 ? -1 : 1;
+  if (a.price !== b.price) return a.price - b.price;
+  if (a.foil !== b.foil) return a.foil ? 1 : -1;
+  return a.collection.localeCompare(b.collection);
+}
+
+// Group variants by card name, keeping the order in which names first appear
+export function groupVariantsByName(cards: OutpostCard[]): CardVariantGroup[] {
+  const groups = new Map<string, OutpostCard[]>();
+
+  cards.forEach(card => {
+    const key = cardNameKey(card.name);
+    const group = groups.get(key);
+    if (group) {
+      group.push(card);
+    } else {
+      groups.set(key, [card]);
+    }
+  });
+
+  return Array.from(groups.entries()).map(([key, variants]) => {
+    const sorted = [...variants].sort(compareVariants);
+    return {
+      key,
+      name: sorted[0].name,
+      variants: sorted,
+      price: sorted[0].price,
+      stock: sorted.reduce((sum, card) => sum + card.stock, 0)
+    };
+  });
+}
+
+// All variants of a card name, best first
+export function findVariants(cards: OutpostCard[], name: string): OutpostCard[] {
+  const key = cardNameKey(name);
+  return cards.filter(card => cardNameKey(card.name) === key).sort(compareVariants);
+}
+
+// Short label for variant pickers: "Modern Horizons 3 · Foil"
+export function describeVariant(card: OutpostCard): string {
+  return card.foil ? `${card.collection} · Foil` : card.collection;
+}
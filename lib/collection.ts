@@ -0,0 +1,166 @@
+import { CardAvailability, CollectionMatching, DeckCard, OwnedCard } from './types';
+import { cardNameKey } from './card-variants';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+
+// The user's own cards, kept in IndexedDB
+// Imported from the deck list formats (lib/deck-import.ts), which include Moxfield collection CSV exports.
+// Deck analysis takes owned copies off each card before pricing the rest (lib/deck-analysis.ts).
+
+const DB_NAME = 'my-collection';
+const DB_VERSION = 1;
+const CARDS_STORE = 'cards';
+const MATCHING_STORAGE_KEY = 'outpost_collection_matching';
+
+export const DEFAULT_COLLECTION_MATCHING: CollectionMatching = 'name';
+
+export const COLLECTION_MATCHING_LABELS: Record<CollectionMatching, string> = {
+  off: 'Ignore my collection',
+  name: 'Any printing I own',
+  printing: 'Only the printing in the deck list'
+};
+
+// Owned copies handed out so far in one analysis, so two boards or decks never use the same copy
+export interface OwnedLedger {
+  byName: Map<string, OwnedCard[]>;
+  used: Map<string, number>; // by OwnedCard key
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openCollectionDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      db.createObjectStore(CARDS_STORE, { keyPath: 'key' });
+    }).catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+function ownedCardKey(card: Pick<DeckCard, 'name' | 'set' | 'collectorNumber' | 'foil'>): string {
+  return [cardNameKey(card.name), (card.set || '').toLowerCase(), card.collectorNumber || '', card.foil ? 'foil' : ''].join('|');
+}
+
+// Imported cards added to a collection; copies of the same printing and finish add up
+export function mergeOwnedCards(collection: OwnedCard[], cards: DeckCard[]): OwnedCard[] {
+  const merged = new Map<string, OwnedCard>();
+  collection.forEach(card => merged.set(card.key, { ...card }));
+
+  cards.forEach(card => {
+    const key = ownedCardKey(card);
+    const owned = merged.get(key);
+    if (owned) {
+      owned.quantity += card.quantity;
+    } else {
+      merged.set(key, {
+        key,
+        name: card.name,
+        set: card.set,
+        collectorNumber: card.collectorNumber,
+        foil: !!card.foil,
+        quantity: card.quantity
+      });
+    }
+  });
+
+  return Array.from(merged.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function loadOwnedCards(): Promise<OwnedCard[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  try {
+    const db = await openCollectionDatabase();
+    const cards = await requestToPromise(db.transaction(CARDS_STORE, 'readonly').objectStore(CARDS_STORE).getAll());
+    return (cards as OwnedCard[]).sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.warn('Failed to load collection:', error);
+    return [];
+  }
+}
+
+// Replaces the stored collection
+export async function saveOwnedCards(cards: OwnedCard[]): Promise<void> {
+  const db = await openCollectionDatabase();
+  const transaction = db.transaction(CARDS_STORE, 'readwrite');
+  const store = transaction.objectStore(CARDS_STORE);
+  store.clear();
+  cards.forEach(card => store.put(card));
+  await transactionDone(transaction);
+}
+
+export function loadCollectionMatching(): CollectionMatching {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return DEFAULT_COLLECTION_MATCHING;
+  }
+
+  try {
+    const stored = localStorage.getItem(MATCHING_STORAGE_KEY);
+    if (stored && stored in COLLECTION_MATCHING_LABELS) {
+      return stored as CollectionMatching;
+    }
+  } catch (error) {
+    console.warn('Failed to load collection matching:', error);
+  }
+  return DEFAULT_COLLECTION_MATCHING;
+}
+
+export function saveCollectionMatching(matching: CollectionMatching) {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(MATCHING_STORAGE_KEY, matching);
+  } catch (error) {
+    console.warn('Failed to save collection matching:', error);
+  }
+}
+
+export function createOwnedLedger(collection: OwnedCard[]): OwnedLedger {
+  const byName = new Map<string, OwnedCard[]>();
+  collection.forEach(card => {
+    const key = cardNameKey(card.name);
+    byName.set(key, (byName.get(key) || []).concat(card));
+  });
+  return { byName, used: new Map() };
+}
+
+// The deck list's set and collector number (when given), and foil when it asks for foil
+function isSamePrinting(owned: OwnedCard, card: Pick<DeckCard, 'set' | 'collectorNumber' | 'foil'>): boolean {
+  if (card.foil && !owned.foil) return false;
+  if (!card.set) return true;
+  if ((owned.set || '').toLowerCase() !== card.set.toLowerCase()) return false;
+  return !card.collectorNumber || !owned.collectorNumber || owned.collectorNumber === card.collectorNumber;
+}
+
+// Uses up to `quantity` owned copies of a deck card, the deck list's printing first; returns how many
+export function takeOwnedCopies(
+  ledger: OwnedLedger,
+  card: Pick<DeckCard, 'name' | 'set' | 'collectorNumber' | 'foil'>,
+  quantity: number,
+  matching: CollectionMatching
+): number {
+  if (matching === 'off') return 0;
+
+  const candidates = (ledger.byName.get(cardNameKey(card.name)) || [])
+    .filter(owned => matching === 'name' || isSamePrinting(owned, card))
+    .sort((a, b) => Number(isSamePrinting(b, card)) - Number(isSamePrinting(a, card)));
+
+  let taken = 0;
+  candidates.forEach(owned => {
+    const free = owned.quantity - (ledger.used.get(owned.key) || 0);
+    const take = Math.min(free, quantity - taken);
+    if (take <= 0) return;
+    ledger.used.set(owned.key, (ledger.used.get(owned.key) || 0) + take);
+    taken += take;
+  });
+  return taken;
+}
+
+// Copies of a deck card that still have to come from somewhere
+export function copiesToBuy(card: Pick<CardAvailability, 'requestedQuantity' | 'ownedQuantity'>): number {
+  return Math.max(0, card.requestedQuantity - card.ownedQuantity);
+}
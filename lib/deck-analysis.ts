@@ -0,0 +1,294 @@
+import {
+  CardAvailability, CollectionMatching, CombinedPurchaseLine, DeckAnalysis, DeckBoard, DeckCard, DeckCardMatch, DeckOverlap, DeckPrinting,
+  MatchCorrections, MoxfieldCard, MoxfieldDeck, MultiDeckAnalysis, OutpostCard, OwnedCard, PrintingOptions, PurchasePolicy
+} from './types';
+import { cardNameKey, compareVariants } from './card-variants';
+import { findCardsByName } from './card-names';
+import { matchCorrectionFor } from './match-corrections';
+import { PRINTING_MATCH_RANK, matchListingPrinting, worstPrintingMatch } from './printing-match';
+import { StockLedger, allocatePurchase, createStockLedger, reservePurchase } from './purchase-allocation';
+import { compareListings, isListingAcceptable } from './purchase-policy';
+import { OwnedLedger, createOwnedLedger, takeOwnedCopies } from './collection';
+import { DECK_BOARDS, DEFAULT_INCLUDED_BOARDS, cardsOnBoards, summarizeBoards, summarizeCards } from './deck-boards';
+
+// Matches deck cards to Outpost listings and plans what to buy, for one deck or several at once.
+// Decks analyzed together share one stock ledger, so no copy is promised to two decks.
+// Stock is handed out board by board across all decks (commanders, then mainboards, ...),
+// and within a board in deck order. Copies from the user's collection are used the same way, before buying.
+// When the deck list names a printing, listings of that printing (then its set) can be bought first or exclusively.
+
+export interface DeckAnalysisOptions extends Partial<PrintingOptions> {
+  collection?: OwnedCard[];
+  collectionMatching?: CollectionMatching;
+  matchCorrections?: MatchCorrections;
+}
+
+interface DeckEntry {
+  deckIndex: number;
+  board: DeckBoard;
+  card: MoxfieldCard;
+}
+
+// Parsed deck list cards in the shape analyzeDecks expects
+export function deckFromCards(name: string, format: string, cards: DeckCard[]): MoxfieldDeck {
+  const deck: MoxfieldDeck & { originalParsedCards?: DeckCard[] } = {
+    id: 'imported-deck',
+    name,
+    format,
+    mainboard: {},
+    sideboard: {},
+    maybeboard: {},
+    commanders: {}
+  };
+
+  // Keep each card on its board (main, side, commander, maybe)
+  cards.forEach((card, index) => {
+    deck[card.board][index] = {
+      id: `imported-${index}`,
+      name: card.name,
+      quantity: card.quantity,
+      set: card.set || '',
+      foil: card.foil,
+      collectorNumber: card.collectorNumber
+    };
+  });
+
+  // Store the parsed deck cards for art matching
+  deck.originalParsedCards = cards;
+  return deck;
+}
+
+// One name per card, however Outpost wrote it
+function uniqueNames(cards: OutpostCard[]): string[] {
+  const names = new Map<string, string>();
+  cards.forEach(card => {
+    if (!names.has(cardNameKey(card.name))) names.set(cardNameKey(card.name), card.name);
+  });
+  return Array.from(names.values());
+}
+
+// Listings for a deck card by name: the user's correction when there is one, else the best name match
+function matchListings(card: MoxfieldCard, outpostData: OutpostCard[], options: DeckAnalysisOptions) {
+  const found = findCardsByName(outpostData, card.name);
+  const correction = matchCorrectionFor(options.matchCorrections, card.name);
+
+  if (correction) {
+    const corrected = correction.outpostName !== null ? findCardsByName(outpostData, correction.outpostName) : null;
+    // Only the name picked, which has no listings once it leaves the inventory
+    const availableCards = corrected && (corrected.match === 'exact' || corrected.match === 'normalized') ? corrected.cards : [];
+    const nameMatch: DeckCardMatch = {
+      type: correction.outpostName !== null ? 'manual' : 'not-stocked',
+      score: 1,
+      matchedNames: correction.outpostName !== null ? [correction.outpostName] : [],
+      candidates: uniqueNames(found.cards).concat(found.candidates).filter(name => name !== correction.outpostName)
+    };
+    return { availableCards, nameMatch };
+  }
+
+  const nameMatch: DeckCardMatch = {
+    type: found.match || 'none',
+    score: found.score,
+    matchedNames: uniqueNames(found.cards),
+    candidates: found.candidates
+  };
+  return { availableCards: found.cards, nameMatch };
+}
+
+function analyzeCard(
+  card: MoxfieldCard,
+  board: DeckBoard,
+  outpostData: OutpostCard[],
+  policy: PurchasePolicy,
+  options: DeckAnalysisOptions,
+  ledger: StockLedger,
+  owned: OwnedLedger
+): CardAvailability {
+  const { availableCards: matchedCards, nameMatch } = matchListings(card, outpostData, options);
+  let availableCards = matchedCards;
+
+  // Only variants with a listing the purchase policy accepts, best variant first
+  const wantedFoil = card.foil;
+  availableCards = availableCards.filter(outpostCard =>
+    outpostCard.conditions?.some(condition => isListingAcceptable(policy, outpostCard, condition, wantedFoil)) || false
+  ).sort(compareVariants);
+
+  // The deck list's printing: exact printing first, then the same set, then any printing (the finish is up to the purchase policy)
+  const requestedPrinting: DeckPrinting | undefined = card.set ? { set: card.set, collectorNumber: card.collectorNumber } : undefined;
+  const printingRanks = new Map(availableCards.map(outpostCard => [
+    outpostCard.variantId,
+    requestedPrinting ? PRINTING_MATCH_RANK[matchListingPrinting(outpostCard, requestedPrinting)] : PRINTING_MATCH_RANK.any
+  ]));
+  const printingRank = (outpostCard: OutpostCard) => printingRanks.get(outpostCard.variantId) ?? PRINTING_MATCH_RANK.any;
+  const rankPrintings = !!requestedPrinting && !!(options.matchCardStyle || options.aggressiveArtMatching);
+
+  if (rankPrintings) {
+    availableCards = availableCards
+      .map((outpostCard, index) => ({ outpostCard, index }))
+      .sort((a, b) => printingRank(a.outpostCard) - printingRank(b.outpostCard) || a.index - b.index)
+      .map(({ outpostCard }) => outpostCard);
+
+    // Aggressive art matching buys nothing but the deck list's printing or set
+    if (options.aggressiveArtMatching) {
+      availableCards = availableCards.filter(outpostCard => printingRank(outpostCard) < PRINTING_MATCH_RANK.any);
+    }
+  }
+  const variantRank = rankPrintings ? printingRank : undefined;
+
+  // Every listing the policy accepts, in the order it would buy them
+  const listings = availableCards
+    .flatMap(outpostCard => (outpostCard.conditions || [])
+      .filter(condition => isListingAcceptable(policy, outpostCard, condition, wantedFoil))
+      .map(condition => ({ card: outpostCard, condition })))
+    .sort((a, b) => (variantRank ? variantRank(a.card) - variantRank(b.card) : 0) || compareListings(policy, a, b));
+
+  const totalAvailable = listings.reduce((sum, listing) => sum + listing.condition.stock, 0);
+
+  // Use owned copies first, then buy the rest across listings
+  const ownedQuantity = takeOwnedCopies(owned, card, card.quantity, options.collectionMatching || 'off');
+  const purchasePlan = allocatePurchase(availableCards, card.quantity - ownedQuantity, { ledger, policy, wantedFoil, variantRank });
+  const printingMatch = requestedPrinting
+    ? worstPrintingMatch(purchasePlan.lines.map(line => matchListingPrinting(line.card, requestedPrinting)))
+    : null;
+
+  // Unit price of the first listing bought, or of the best one when nothing is in stock
+  const bestListing = listings.find(listing => listing.condition.stock > 0) || listings[0];
+  const bestPrice = bestListing ? bestListing.condition.price / 100 : 0;
+
+  // Calculate average price for reference (only from non-zero prices)
+  const validPrices = availableCards.flatMap(outpostCard =>
+    outpostCard.conditions?.filter(condition => condition.price > 0).map(condition => condition.price / 100) || []
+  );
+  const averagePrice = validPrices.length > 0 ? validPrices.reduce((sum, price) => sum + price, 0) / validPrices.length : 0;
+
+  return {
+    cardName: card.name,
+    requestedQuantity: card.quantity,
+    availableCards,
+    totalAvailable,
+    cheapestPrice: bestPrice,
+    averagePrice,
+    isFullyAvailable: purchasePlan.shortfall === 0,
+    board,
+    requestedFoil: wantedFoil,
+    ownedQuantity,
+    purchasePlan,
+    nameMatch,
+    requestedPrinting,
+    printingMatch,
+  };
+}
+
+// Listings bought for the counted boards of every deck, merged per listing
+function combineShoppingList(analyses: DeckAnalysis[]): CombinedPurchaseLine[] {
+  const lines = new Map<string, CombinedPurchaseLine>();
+
+  analyses.forEach(analysis => {
+    cardsOnBoards(analysis.cardAvailability, DEFAULT_INCLUDED_BOARDS).forEach(card => {
+      card.purchasePlan.lines.forEach(line => {
+        const key = `${line.card.variantId}|${line.condition.condition}`;
+        const combined = lines.get(key) || { ...line, cardName: card.cardName, quantity: 0, subtotal: 0, decks: [] };
+        combined.quantity += line.quantity;
+        combined.subtotal += line.subtotal;
+
+        const deck = combined.decks.find(d => d.deckId === analysis.deckId);
+        if (deck) {
+          deck.quantity += line.quantity;
+        } else {
+          combined.decks.push({ deckId: analysis.deckId, deckName: analysis.deckName, quantity: line.quantity });
+        }
+        lines.set(key, combined);
+      });
+    });
+  });
+
+  return Array.from(lines.values()).sort((a, b) =>
+    a.cardName.localeCompare(b.cardName) || a.card.collection.localeCompare(b.card.collection)
+  );
+}
+
+const shortOf = (overlap: DeckOverlap) => overlap.requested - overlap.owned - overlap.bought;
+
+// Cards on the counted boards of more than one deck
+function findOverlap(analyses: DeckAnalysis[]): DeckOverlap[] {
+  const byName = new Map<string, DeckOverlap>();
+
+  analyses.forEach(analysis => {
+    cardsOnBoards(analysis.cardAvailability, DEFAULT_INCLUDED_BOARDS).forEach(card => {
+      const key = cardNameKey(card.cardName);
+      const overlap = byName.get(key) || { cardName: card.cardName, decks: [], requested: 0, owned: 0, bought: 0 };
+      overlap.requested += card.requestedQuantity;
+      overlap.owned += card.ownedQuantity;
+      overlap.bought += card.purchasePlan.quantity;
+
+      const deck = overlap.decks.find(d => d.deckId === analysis.deckId);
+      if (deck) {
+        deck.quantity += card.requestedQuantity;
+      } else {
+        overlap.decks.push({ deckId: analysis.deckId, deckName: analysis.deckName, quantity: card.requestedQuantity });
+      }
+      byName.set(key, overlap);
+    });
+  });
+
+  return Array.from(byName.values())
+    .filter(overlap => overlap.decks.length > 1)
+    .sort((a, b) => shortOf(b) - shortOf(a) || a.cardName.localeCompare(b.cardName));
+}
+
+// Copies the analysis gave every other deck, so one deck can be re-planned without taking them
+export function otherDecksLedger(analysis: MultiDeckAnalysis | null, deckId: string): StockLedger {
+  const ledger = createStockLedger();
+  analysis?.decks
+    .filter(deck => deck.deckId !== deckId)
+    .forEach(deck => deck.cardAvailability.forEach(card => reservePurchase(ledger, card.purchasePlan.lines)));
+  return ledger;
+}
+
+export function analyzeDecks(
+  decks: MoxfieldDeck[],
+  outpostData: OutpostCard[],
+  policy: PurchasePolicy,
+  options: DeckAnalysisOptions = {}
+): MultiDeckAnalysis {
+  const lastAnalyzed = new Date().toISOString();
+  const entries: DeckEntry[] = decks.flatMap((deck, deckIndex) =>
+    DECK_BOARDS.flatMap(board => Object.values(deck[board]).map(card => ({ deckIndex, board, card })))
+  );
+
+  // One ledger for every deck, so a card on two boards or in two decks doesn't count the same copies twice
+  const ledger = createStockLedger();
+  const owned = createOwnedLedger(options.collection || []);
+  const results = new Map<DeckEntry, CardAvailability>();
+  DECK_BOARDS.forEach(board => {
+    entries
+      .filter(entry => entry.board === board)
+      .forEach(entry => results.set(entry, analyzeCard(entry.card, board, outpostData, policy, options, ledger, owned)));
+  });
+
+  const analyses: DeckAnalysis[] = decks.map((deck, deckIndex) => {
+    const cardAvailability = entries
+      .filter(entry => entry.deckIndex === deckIndex)
+      .map(entry => results.get(entry)!);
+
+    return {
+      deckId: deck.id,
+      deckName: deck.name,
+      ...summarizeCards(cardsOnBoards(cardAvailability, DEFAULT_INCLUDED_BOARDS)),
+      boards: summarizeBoards(cardAvailability),
+      cardAvailability,
+      lastAnalyzed,
+    };
+  });
+
+  const counted = summarizeCards(analyses.flatMap(analysis => cardsOnBoards(analysis.cardAvailability, DEFAULT_INCLUDED_BOARDS)));
+  return {
+    decks: analyses,
+    shoppingList: combineShoppingList(analyses),
+    overlap: findOverlap(analyses),
+    totalCopies: counted.totalCards,
+    ownedCopies: counted.ownedCopies,
+    missingCopies: counted.missingCopies,
+    totalCost: counted.totalCost,
+    lastAnalyzed,
+  };
+}
@@ -0,0 +1,45 @@
+import { BoardTotals, CardAvailability, DeckBoard } from './types';
+import { cardNameKey } from './card-variants';
+
+// Deck boards in display order, and which of them count towards a deck's totals by default
+// (maybeboard cards are candidates, not part of the deck)
+
+export const DECK_BOARDS: DeckBoard[] = ['commanders', 'mainboard', 'sideboard', 'maybeboard'];
+
+export const DECK_BOARD_LABELS: Record<DeckBoard, string> = {
+  commanders: 'Commander',
+  mainboard: 'Mainboard',
+  sideboard: 'Sideboard',
+  maybeboard: 'Maybeboard'
+};
+
+export const DEFAULT_INCLUDED_BOARDS: DeckBoard[] = ['commanders', 'mainboard', 'sideboard'];
+
+// Identifies a deck entry across analyses: the same card can sit on two boards
+export function deckEntryKey(card: Pick<CardAvailability, 'board' | 'cardName'>): string {
+  return `${card.board}:${cardNameKey(card.cardName)}`;
+}
+
+// Copies, fully/partly available entries, owned copies and what their purchase plans cost
+export function summarizeCards(cards: CardAvailability[]): BoardTotals {
+  return cards.reduce<BoardTotals>((totals, card) => ({
+    totalCards: totals.totalCards + card.requestedQuantity,
+    availableCards: totals.availableCards + (card.isFullyAvailable ? 1 : 0),
+    missingCards: totals.missingCards + (card.isFullyAvailable ? 0 : 1),
+    ownedCopies: totals.ownedCopies + card.ownedQuantity,
+    missingCopies: totals.missingCopies + card.purchasePlan.shortfall,
+    totalCost: totals.totalCost + card.purchasePlan.totalCost
+  }), { totalCards: 0, availableCards: 0, missingCards: 0, ownedCopies: 0, missingCopies: 0, totalCost: 0 });
+}
+
+export function summarizeBoards(cards: CardAvailability[]): Record<DeckBoard, BoardTotals> {
+  return DECK_BOARDS.reduce((boards, board) => {
+    boards[board] = summarizeCards(cards.filter(card => card.board === board));
+    return boards;
+  }, {} as Record<DeckBoard, BoardTotals>);
+}
+
+// Only the cards on the given boards
+export function cardsOnBoards<T extends CardAvailability>(cards: T[], boards: DeckBoard[]): T[] {
+  return cards.filter(card => boards.indexOf(card.board) !== -1);
+}
@@ -0,0 +1,223 @@
+import { CardAvailability, DeckBoard, DeckCard } from './types';
+import { DECK_BOARDS, DECK_BOARD_LABELS } from './deck-boards';
+import { cardNameKey } from './card-variants';
+import { conditionRank } from './purchase-policy';
+import { PRINTING_MATCH_LABELS, describePrinting } from './printing-match';
+
+// Exports of a deck analysis: every row as CSV, a printable pick list for shopping in store,
+// and the copies Outpost cannot supply as a deck list to buy elsewhere.
+// Callers pass the cards in display order with hidden cards and basic lands already left out.
+
+export interface ExportCard extends CardAvailability {
+  marketPrice?: number;
+}
+
+export interface PickListItem {
+  cardName: string;
+  board: DeckBoard;
+  quantity: number;
+  foil: boolean;
+  rarity: string;
+  unitPrice: number;
+  subtotal: number;
+}
+
+// Copies to take from one collection, per condition
+export interface PickListGroup {
+  collection: string;
+  conditions: { condition: string; items: PickListItem[]; quantity: number; subtotal: number }[];
+  quantity: number;
+  subtotal: number;
+}
+
+// Section headers lib/deck-import.ts reads back
+const BOARD_HEADERS: Record<DeckBoard, string> = {
+  commanders: 'Commander',
+  mainboard: 'Deck',
+  sideboard: 'Sideboard',
+  maybeboard: 'Maybeboard'
+};
+
+const CSV_HEADERS = [
+  'Board', 'Quantity', 'Card', 'Foil', 'Status', 'In Stock', 'Owned', 'Buying', 'Missing',
+  'Collections', 'Printing', 'Outpost Price', 'Total', 'Market Price', 'Markup', 'Counted'
+];
+
+// "4 Lightning Bolt (M21) 168 *F*" lines under a header per board
+export function formatDeckListText(cards: DeckCard[]): string {
+  return DECK_BOARDS
+    .map(board => {
+      const lines = cards
+        .filter(card => card.board === board)
+        .map(card => {
+          const printing = card.set ? ` (${card.set})${card.collectorNumber ? ` ${card.collectorNumber}` : ''}` : '';
+          return `${card.quantity} ${card.name}${printing}${card.foil ? ' *F*' : ''}`;
+        });
+      return lines.length > 0 ? [BOARD_HEADERS[board], ...lines].join('\n') : '';
+    })
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const euros = (value: number | undefined): string => value ? value.toFixed(2) : '';
+
+const statusOf = (card: CardAvailability): string => {
+  if (card.purchasePlan.quantity === 0 && card.purchasePlan.shortfall === 0) return 'Owned';
+  if (card.purchasePlan.shortfall === 0) return 'Available';
+  return card.purchasePlan.quantity > 0 ? 'Partial' : 'Missing';
+};
+
+// "Exact printing (C21 #263)", or nothing when the deck list names no printing
+const printingOf = (card: CardAvailability): string => card.requestedPrinting && card.printingMatch
+  ? `${PRINTING_MATCH_LABELS[card.printingMatch]} (${describePrinting(card.requestedPrinting)})`
+  : '';
+
+// One row per card; cards on boards outside `countedBoards` are marked as not counted
+export function deckAnalysisCsv(cards: ExportCard[], countedBoards: DeckBoard[]): string {
+  const rows = cards.map(card => {
+    const plan = card.purchasePlan;
+    const collections = plan.lines
+      .map(line => `${line.quantity}x ${line.card.collection} ${line.condition.condition}${line.card.foil ? ' foil' : ''}`)
+      .join('; ');
+    const markup = card.marketPrice && card.cheapestPrice > 0 ? card.cheapestPrice - card.marketPrice : undefined;
+
+    return [
+      DECK_BOARD_LABELS[card.board],
+      card.requestedQuantity,
+      card.cardName,
+      card.requestedFoil ? 'foil' : '',
+      statusOf(card),
+      card.totalAvailable,
+      card.ownedQuantity,
+      plan.quantity,
+      plan.shortfall,
+      collections,
+      printingOf(card),
+      euros(card.cheapestPrice),
+      euros(plan.totalCost),
+      euros(card.marketPrice),
+      markup === undefined ? '' : markup.toFixed(2),
+      countedBoards.indexOf(card.board) !== -1 ? 'yes' : 'no'
+    ].map(csvField).join(',');
+  });
+
+  return [CSV_HEADERS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// Every planned purchase grouped by collection (alphabetical) and condition (best first)
+export function buildPickList(cards: CardAvailability[]): PickListGroup[] {
+  const groups: PickListGroup[] = [];
+
+  cards.forEach(card => {
+    card.purchasePlan.lines.forEach(line => {
+      let group = groups.find(g => g.collection === line.card.collection);
+      if (!group) {
+        group = { collection: line.card.collection, conditions: [], quantity: 0, subtotal: 0 };
+        groups.push(group);
+      }
+      let condition = group.conditions.find(c => c.condition === line.condition.condition);
+      if (!condition) {
+        condition = { condition: line.condition.condition, items: [], quantity: 0, subtotal: 0 };
+        group.conditions.push(condition);
+      }
+
+      condition.items.push({
+        cardName: card.cardName,
+        board: card.board,
+        quantity: line.quantity,
+        foil: line.card.foil,
+        rarity: line.card.rarity,
+        unitPrice: line.unitPrice,
+        subtotal: line.subtotal
+      });
+      condition.quantity += line.quantity;
+      condition.subtotal += line.subtotal;
+      group.quantity += line.quantity;
+      group.subtotal += line.subtotal;
+    });
+  });
+
+  groups.forEach(group => group.conditions.sort((a, b) => conditionRank(a.condition) - conditionRank(b.condition)));
+  return groups.sort((a, b) => a.collection.localeCompare(b.collection));
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A standalone page with print styles, for window.print()
+export function pickListHtml(title: string, groups: PickListGroup[], formatPrice: (price: number) => string): string {
+  const quantity = groups.reduce((sum, group) => sum + group.quantity, 0);
+  const total = groups.reduce((sum, group) => sum + group.subtotal, 0);
+
+  const sections = groups.map(group => {
+    const conditions = group.conditions.map(condition => {
+      const rows = condition.items.map(item => `
+        <tr>
+          <td class="check">&#9744;</td>
+          <td class="qty">${item.quantity}</td>
+          <td>${escapeHtml(item.cardName)}${item.foil ? ' <span class="tag">Foil</span>' : ''}</td>
+          <td class="muted">${escapeHtml(item.rarity)}</td>
+          <td class="price">${formatPrice(item.unitPrice)}</td>
+          <td class="price">${formatPrice(item.subtotal)}</td>
+        </tr>`).join('');
+      return `
+      <h3>${escapeHtml(condition.condition)} <span class="muted">(${condition.quantity})</span></h3>
+      <table>${rows}</table>`;
+    }).join('');
+
+    return `
+    <section>
+      <h2>${escapeHtml(group.collection)} <span class="muted">${group.quantity} cards, ${formatPrice(group.subtotal)}</span></h2>${conditions}
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; font-size: 12px; color: #111; margin: 24px; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    h2 { font-size: 14px; border-bottom: 1px solid #999; padding-bottom: 2px; margin: 16px 0 4px; }
+    h3 { font-size: 12px; margin: 8px 0 2px; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 2px 4px; border-bottom: 1px solid #eee; }
+    .check { width: 16px; font-size: 14px; }
+    .qty { width: 24px; text-align: right; font-weight: bold; }
+    .price { width: 72px; text-align: right; }
+    .muted { color: #666; font-weight: normal; }
+    .tag { font-size: 10px; border: 1px solid #999; border-radius: 3px; padding: 0 3px; }
+    section { break-inside: avoid-page; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="muted">${quantity} cards, ${formatPrice(total)}</div>${sections || '<p>Nothing to pick: no copies are in stock.</p>'}
+</body>
+</html>`;
+}
+
+// Copies the purchase plans leave short, keeping the printing and finish the deck list asked for
+export function missingCardsList(cards: CardAvailability[], originalDeckCards: DeckCard[]): DeckCard[] {
+  return cards
+    .filter(card => card.purchasePlan.shortfall > 0)
+    .map(card => {
+      const sameName = originalDeckCards.filter(dc => cardNameKey(dc.name) === cardNameKey(card.cardName));
+      const original = sameName.find(dc => dc.board === card.board) || sameName[0];
+      return {
+        name: card.cardName,
+        quantity: card.purchasePlan.shortfall,
+        set: original?.set,
+        collectorNumber: original?.collectorNumber,
+        foil: card.requestedFoil ?? original?.foil,
+        board: card.board
+      };
+    });
+}
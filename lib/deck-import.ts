@@ -0,0 +1,411 @@
+import { DeckBoard, DeckCard, DeckImportIssue, DeckImportResult, DeckListFormat } from './types';
+
+// Deck list import for the formats players paste or upload:
+// MTG Arena / Moxfield / Archidekt text ("4 Name (SET) 123 *F*" with optional section headers),
+// plain "4x Name" lists, MTGO .dek XML, and Moxfield / Archidekt / generic CSV exports
+
+export const DECK_FORMAT_LABELS: Record<DeckListFormat, string> = {
+  'text': 'Plain list',
+  'arena': 'MTG Arena',
+  'mtgo-dek': 'MTGO .dek',
+  'moxfield-csv': 'Moxfield CSV',
+  'archidekt-csv': 'Archidekt CSV',
+  'csv': 'CSV'
+};
+
+const DEFAULT_DECK_NAME = 'Imported Deck';
+
+// Section headers in text lists; null is Arena's "About" block (deck metadata, not cards)
+const SECTION_HEADERS: Record<string, DeckBoard | null> = {
+  'deck': 'mainboard',
+  'main': 'mainboard',
+  'mainboard': 'mainboard',
+  'main deck': 'mainboard',
+  'maindeck': 'mainboard',
+  'sideboard': 'sideboard',
+  'side': 'sideboard',
+  'companion': 'sideboard', // the companion lives in the sideboard
+  'commander': 'commanders',
+  'commanders': 'commanders',
+  'maybeboard': 'maybeboard',
+  'maybe': 'maybeboard',
+  'considering': 'maybeboard',
+  'about': null
+};
+
+const ARENA_HEADERS = ['deck', 'sideboard', 'commander', 'companion', 'about'];
+
+type ParseOutcome = { cards: DeckCard[]; skipped: DeckImportIssue[]; deckName?: string };
+
+// Board named by a header, CSV column or Archidekt category ("Commander{top}", "Sideboard")
+function boardFromLabel(label: string): DeckBoard | null {
+  const lower = label.toLowerCase();
+  if (lower.includes('commander')) return 'commanders';
+  if (lower.includes('side')) return 'sideboard';
+  if (lower.includes('maybe') || lower.includes('consider')) return 'maybeboard';
+  if (lower.includes('main') || lower === 'deck') return 'mainboard';
+  return null;
+}
+
+function isFoilFinish(value: string): boolean {
+  return ['foil', 'etched', 'true', 'yes', '1'].includes(value.trim().toLowerCase());
+}
+
+// "Sideboard", "// Sideboard", "SIDEBOARD:", "Commander (1)" -> the header key, or undefined
+function sectionHeader(line: string): string | undefined {
+  const key = line
+    .replace(/^\/\/\s*/, '')
+    .replace(/\s*\(\d+\)\s*$/, '')
+    .replace(/:$/, '')
+    .trim()
+    .toLowerCase();
+  return key in SECTION_HEADERS ? key : undefined;
+}
+
+// One card line: "4 Name", "4x Name", "SB: 2 Name", "1 Name (SET) 123 *F*", "1x Name (set) 12 [Ramp]"
+function parseCardLine(line: string, board: DeckBoard): DeckCard | string {
+  const sideboardPrefix = /^SB:\s*/i.test(line);
+  const match = line.replace(/^SB:\s*/i, '').match(/^(\d+)\s*[xX]?\s+(.+)$/);
+  if (!match) return 'Missing quantity';
+
+  const quantity = parseInt(match[1], 10);
+  if (quantity < 1) return 'Quantity must be at least 1';
+
+  let rest = match[2];
+  let foil = false;
+  rest = rest.replace(/\s\*[FE]\*(?=\s|$)/gi, () => {
+    foil = true;
+    return '';
+  });
+
+  // Archidekt labels ("^Have,#37d67a^", written after the categories), categories ("[Ramp,Commander{top}]"), Moxfield tags ("#Ramp")
+  let categories = '';
+  rest = rest
+    .replace(/\s*\^[^^]*\^/g, '')
+    .replace(/\s*\[([^\]]*)\]\s*$/, (_, found: string) => {
+      categories = found;
+      return '';
+    })
+    .replace(/\s+#.*$/, '');
+
+  let set: string | undefined;
+  let collectorNumber: string | undefined;
+  rest = rest.replace(/\s+[([]([A-Za-z0-9]{2,6})[)\]](?:\s+(\S+))?\s*$/, (_, foundSet: string, foundNumber?: string) => {
+    set = foundSet.toUpperCase();
+    collectorNumber = foundNumber;
+    return '';
+  });
+
+  const name = rest.trim();
+  if (!name) return 'Missing card name';
+
+  return {
+    name,
+    quantity,
+    board: sideboardPrefix ? 'sideboard' : (categories && boardFromLabel(categories)) || board,
+    set,
+    collectorNumber,
+    foil
+  };
+}
+
+function parseTextList(text: string): ParseOutcome {
+  const cards: DeckCard[] = [];
+  const skipped: DeckImportIssue[] = [];
+  let board: DeckBoard = 'mainboard';
+  let inAbout = false;
+  let deckName: string | undefined;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const header = sectionHeader(line);
+    if (header !== undefined) {
+      const headerBoard = SECTION_HEADERS[header];
+      inAbout = headerBoard === null;
+      if (headerBoard) board = headerBoard;
+      return;
+    }
+
+    if (inAbout) {
+      const nameMatch = line.match(/^Name\s+(.+)$/i);
+      if (nameMatch) deckName = nameMatch[1].trim();
+      return;
+    }
+
+    // Comments and category headings ("Creatures (20)", "Lands:")
+    if (line.startsWith('//') || line.startsWith('#')) return;
+    if (!/^(SB:\s*)?\d/i.test(line) && (/\(\d+\)$/.test(line) || line.endsWith(':'))) return;
+
+    const parsed = parseCardLine(line, board);
+    if (typeof parsed === 'string') {
+      skipped.push({ line: index + 1, text: line, reason: parsed });
+    } else {
+      cards.push(parsed);
+    }
+  });
+
+  return { cards, skipped, deckName };
+}
+
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+// MTGO .dek: <Cards CatID="..." Quantity="4" Sideboard="false" Name="Lightning Bolt" />
+function parseMtgoDek(text: string): ParseOutcome {
+  const cards: DeckCard[] = [];
+  const skipped: DeckImportIssue[] = [];
+  const cardTag = /<Cards\b([^>]*?)\/?>/gi;
+
+  let tag = cardTag.exec(text);
+  while (tag) {
+    const attributes: Record<string, string> = {};
+    const attributePattern = /(\w+)\s*=\s*"([^"]*)"/g;
+    let attribute = attributePattern.exec(tag[1]);
+    while (attribute) {
+      attributes[attribute[1].toLowerCase()] = decodeXmlEntities(attribute[2]);
+      attribute = attributePattern.exec(tag[1]);
+    }
+
+    const quantity = parseInt(attributes.quantity, 10);
+    const name = (attributes.name || '').trim();
+    if (!name || !(quantity > 0)) {
+      skipped.push({
+        line: lineAt(text, tag.index),
+        text: tag[0],
+        reason: name ? 'Invalid quantity' : 'Missing card name'
+      });
+    } else {
+      cards.push({
+        name,
+        quantity,
+        board: attributes.sideboard === 'true' ? 'sideboard' : 'mainboard'
+      });
+    }
+
+    tag = cardTag.exec(text);
+  }
+
+  if (cards.length === 0 && skipped.length === 0) {
+    skipped.push({ line: 1, text: text.split('\n')[0].trim(), reason: 'No <Cards> entries found' });
+  }
+
+  return { cards, skipped };
+}
+
+interface CsvRow {
+  line: number;
+  cells: string[];
+  text: string;
+}
+
+function csvDelimiter(headerLine: string): string {
+  return (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+}
+
+// RFC 4180 style: quoted cells may hold delimiters, doubled quotes and line breaks
+function parseCsv(text: string): CsvRow[] {
+  const delimiter = csvDelimiter(text.split('\n')[0]);
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  let rowStart = 0;
+
+  const endRow = (end: number) => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells, text: text.slice(rowStart, end).trim() });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow(i);
+      line++;
+      rowLine = line;
+      rowStart = i + 1;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow(text.length);
+
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+}
+
+const CSV_COLUMNS = {
+  quantity: ['count', 'quantity', 'qty', 'amount'],
+  name: ['name', 'card name', 'card'],
+  set: ['edition code', 'set code', 'edition', 'set'],
+  collectorNumber: ['collector number', 'number', 'card number'],
+  foil: ['foil', 'finish', 'printing'],
+  board: ['board', 'section', 'categories', 'category']
+};
+
+type CsvColumn = keyof typeof CSV_COLUMNS;
+
+function findColumns(headers: string[]): Partial<Record<CsvColumn, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<CsvColumn, number>> = {};
+
+  (Object.keys(CSV_COLUMNS) as CsvColumn[]).forEach(column => {
+    // Earlier names win, e.g. Archidekt's "Edition Code" over "Edition Name"
+    for (let i = 0; i < CSV_COLUMNS[column].length; i++) {
+      const index = normalized.indexOf(CSV_COLUMNS[column][i]);
+      if (index >= 0) {
+        columns[column] = index;
+        return;
+      }
+    }
+  });
+
+  return columns;
+}
+
+function csvFormat(headers: string[]): DeckListFormat | null {
+  const columns = findColumns(headers);
+  if (columns.name === undefined || columns.quantity === undefined) return null;
+
+  const normalized = headers.map(normalizeHeader);
+  if (normalized.includes('tradelist count') || (normalized.includes('count') && normalized.includes('edition'))) {
+    return 'moxfield-csv';
+  }
+  if (normalized.includes('quantity') && ['edition code', 'finish', 'categories', 'scryfall id'].some(h => normalized.includes(h))) {
+    return 'archidekt-csv';
+  }
+  return 'csv';
+}
+
+function parseCsvList(text: string): ParseOutcome {
+  const [header, ...rows] = parseCsv(text);
+  const columns = findColumns(header ? header.cells : []);
+  const cards: DeckCard[] = [];
+  const skipped: DeckImportIssue[] = [];
+
+  const cellOf = (row: CsvRow, column: CsvColumn): string => {
+    const index = columns[column];
+    return index === undefined ? '' : (row.cells[index] || '').trim();
+  };
+
+  rows.forEach(row => {
+    const name = cellOf(row, 'name');
+    const quantityText = cellOf(row, 'quantity');
+    const quantity = parseInt(quantityText, 10);
+
+    if (!name) {
+      skipped.push({ line: row.line, text: row.text, reason: 'Missing card name' });
+      return;
+    }
+    if (!(quantity > 0)) {
+      skipped.push({ line: row.line, text: row.text, reason: `Invalid quantity "${quantityText}"` });
+      return;
+    }
+
+    const set = cellOf(row, 'set');
+    const collectorNumber = cellOf(row, 'collectorNumber');
+    const boardLabel = cellOf(row, 'board');
+
+    cards.push({
+      name,
+      quantity,
+      board: (boardLabel && boardFromLabel(boardLabel)) || 'mainboard',
+      set: set ? set.toUpperCase() : undefined,
+      collectorNumber: collectorNumber || undefined,
+      foil: isFoilFinish(cellOf(row, 'foil'))
+    });
+  });
+
+  return { cards, skipped };
+}
+
+function firstLine(text: string): string {
+  return text.trim().split(/\r?\n/)[0] || '';
+}
+
+// Guess the format from the content; the file name only settles .dek files without an XML prolog
+export function detectDeckListFormat(text: string, fileName?: string): DeckListFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('<?xml') || /<Deck[\s>]/i.test(trimmed) || (fileName && /\.dek$/i.test(fileName))) {
+    return 'mtgo-dek';
+  }
+
+  const header = firstLine(trimmed);
+  if (header.includes(',') || header.includes(';')) {
+    const headerRow = parseCsv(header)[0];
+    const format = headerRow && csvFormat(headerRow.cells);
+    if (format) return format;
+  }
+
+  const lines = trimmed.split(/\r?\n/).map(line => line.trim());
+  const arena = lines.some(line => ARENA_HEADERS.includes(line.toLowerCase())) ||
+    lines.some(line => /^\d+\s+.+\s\([A-Za-z0-9]{2,6}\)\s+\S+/.test(line));
+  return arena ? 'arena' : 'text';
+}
+
+// Parse a deck list in any supported format; lines that are not cards are reported, not dropped silently
+export function importDeckList(text: string, options: { deckName?: string; fileName?: string } = {}): DeckImportResult {
+  const source = detectDeckListFormat(text, options.fileName);
+
+  let outcome: ParseOutcome;
+  switch (source) {
+    case 'mtgo-dek':
+      outcome = parseMtgoDek(text);
+      break;
+    case 'moxfield-csv':
+    case 'archidekt-csv':
+    case 'csv':
+      outcome = parseCsvList(text);
+      break;
+    default:
+      outcome = parseTextList(text);
+  }
+
+  return {
+    deck: {
+      name: options.deckName || outcome.deckName || DEFAULT_DECK_NAME,
+      format: 'Unknown',
+      cards: outcome.cards,
+      totalCards: outcome.cards.reduce((sum, card) => sum + card.quantity, 0)
+    },
+    source,
+    skipped: outcome.skipped
+  };
+}
@@ -0,0 +1,130 @@
+import { DeckAnalysis, DeckChange, DeckChangeKind, DeckSnapshot, OutpostCard, PrintingOptions, PurchasePolicy, SavedDeck } from './types';
+import { DEFAULT_INCLUDED_BOARDS, cardsOnBoards, deckEntryKey, summarizeCards } from './deck-boards';
+import { DeckAnalysisOptions, analyzeDecks, deckFromCards } from './deck-analysis';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+
+// Decks the user keeps coming back to, kept in IndexedDB with their options and last analysis
+// Re-analyzing compares against that snapshot: cards that came back in stock, got cheaper or sold out.
+
+const DB_NAME = 'deck-library';
+const DB_VERSION = 1;
+const DECKS_STORE = 'decks';
+
+export const DECK_CHANGE_LABELS: Record<DeckChangeKind, string> = {
+  'available': 'Now in stock',
+  'price-drop': 'Cheaper',
+  'sold-out': 'Sold out'
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openLibraryDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase(DB_NAME, DB_VERSION, db => {
+      db.createObjectStore(DECKS_STORE, { keyPath: 'id' });
+    }).catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+// Most recently saved first
+const bySavedAt = (a: SavedDeck, b: SavedDeck) => b.savedAt.localeCompare(a.savedAt);
+
+export async function loadSavedDecks(): Promise<SavedDeck[]> {
+  if (!isIndexedDBAvailable()) return [];
+
+  try {
+    const db = await openLibraryDatabase();
+    const decks = await requestToPromise(db.transaction(DECKS_STORE, 'readonly').objectStore(DECKS_STORE).getAll());
+    return (decks as SavedDeck[]).sort(bySavedAt);
+  } catch (error) {
+    console.warn('Failed to load deck library:', error);
+    return [];
+  }
+}
+
+export async function putSavedDecks(decks: SavedDeck[]): Promise<void> {
+  const db = await openLibraryDatabase();
+  const transaction = db.transaction(DECKS_STORE, 'readwrite');
+  const store = transaction.objectStore(DECKS_STORE);
+  decks.forEach(deck => store.put(deck));
+  await transactionDone(transaction);
+}
+
+export async function removeSavedDeck(deckId: string): Promise<void> {
+  const db = await openLibraryDatabase();
+  const transaction = db.transaction(DECKS_STORE, 'readwrite');
+  transaction.objectStore(DECKS_STORE).delete(deckId);
+  await transactionDone(transaction);
+}
+
+export function createSavedDeckId(): string {
+  return `deck-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function snapshotAnalysis(analysis: DeckAnalysis, inventoryUpdated: string | null): DeckSnapshot {
+  return {
+    analyzedAt: analysis.lastAnalyzed,
+    inventoryUpdated,
+    totals: summarizeCards(cardsOnBoards(analysis.cardAvailability, DEFAULT_INCLUDED_BOARDS)),
+    cards: analysis.cardAvailability.map(card => ({
+      key: deckEntryKey(card),
+      cardName: card.cardName,
+      board: card.board,
+      requestedQuantity: card.requestedQuantity,
+      ownedQuantity: card.ownedQuantity,
+      buying: card.purchasePlan.quantity,
+      shortfall: card.purchasePlan.shortfall,
+      totalAvailable: card.totalAvailable,
+      unitPrice: card.cheapestPrice,
+      totalCost: card.purchasePlan.totalCost
+    }))
+  };
+}
+
+// Cards that can now be bought, got cheaper or can no longer be bought
+export function compareSnapshots(previous: DeckSnapshot, current: DeckSnapshot): DeckChange[] {
+  const changes: DeckChange[] = [];
+
+  current.cards.forEach(card => {
+    const before = previous.cards.find(c => c.key === card.key);
+    if (!before) return;
+
+    if (card.shortfall < before.shortfall) {
+      changes.push({ kind: 'available', cardName: card.cardName, board: card.board, before: before.buying, after: card.buying });
+    } else if (card.shortfall > before.shortfall && card.ownedQuantity === before.ownedQuantity) {
+      changes.push({ kind: 'sold-out', cardName: card.cardName, board: card.board, before: before.buying, after: card.buying });
+    }
+
+    if (before.unitPrice > 0 && card.unitPrice > 0 && card.unitPrice < before.unitPrice - 0.005) {
+      changes.push({ kind: 'price-drop', cardName: card.cardName, board: card.board, before: before.unitPrice, after: card.unitPrice });
+    }
+  });
+
+  return changes;
+}
+
+// Analyzes a saved deck on its own against the current inventory and records what changed
+export function reanalyzeSavedDeck(
+  deck: SavedDeck,
+  outpostData: OutpostCard[],
+  policy: PurchasePolicy,
+  options: Omit<DeckAnalysisOptions, keyof PrintingOptions>,
+  inventoryUpdated: string | null
+): SavedDeck {
+  const analysis = analyzeDecks([deckFromCards(deck.name, 'Unknown', deck.cards)], outpostData, policy, {
+    ...options,
+    matchCardStyle: deck.options.matchCardStyle,
+    aggressiveArtMatching: !!deck.options.aggressiveArtMatching
+  }).decks[0];
+  const snapshot = snapshotAnalysis(analysis, inventoryUpdated);
+
+  return {
+    ...deck,
+    lastAnalysis: snapshot,
+    changes: deck.lastAnalysis ? compareSnapshots(deck.lastAnalysis, snapshot) : []
+  };
+}
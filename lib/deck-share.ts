@@ -0,0 +1,122 @@
+import { DeckShareState } from './types';
+import { formatDeckListText } from './deck-export';
+import { importDeckList } from './deck-import';
+
+// Share links for a deck analysis: /deck?d=<payload> (the main page accepts ?d= too)
+// The payload is the deck as a text list plus the analysis options, as JSON,
+// deflated with the browser's CompressionStream and base64url encoded.
+// "z" payloads are compressed; "j" payloads are plain JSON, for browsers without CompressionStream.
+
+export const DECK_SHARE_PARAM = 'd';
+
+const PAYLOAD_VERSION = 1;
+
+const SORT_DIRECTIONS = { a: 'asc', d: 'desc' } as const;
+
+export class DeckShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeckShareError';
+  }
+}
+
+// Compact JSON written into the link
+interface SharePayload {
+  v: number;
+  n: string; // deck name
+  l: string; // deck list
+  o: number; // option flags, see OPTION_FLAGS
+  s: string; // sort
+  d: 'a' | 'd';
+  h: string[]; // hidden cards
+}
+
+const OPTION_FLAGS = {
+  matchCardStyle: 1,
+  excludeBasicLands: 2,
+  aggressiveArtMatching: 4
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function pipeThrough(bytes: Uint8Array, stream: GenericTransformStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+export async function encodeDeckShare(state: DeckShareState): Promise<string> {
+  const payload: SharePayload = {
+    v: PAYLOAD_VERSION,
+    n: state.deckName,
+    l: formatDeckListText(state.cards),
+    o: (state.matchCardStyle ? OPTION_FLAGS.matchCardStyle : 0) |
+      (state.excludeBasicLands ? OPTION_FLAGS.excludeBasicLands : 0) |
+      (state.aggressiveArtMatching ? OPTION_FLAGS.aggressiveArtMatching : 0),
+    s: state.view.sortBy,
+    d: state.view.sortDirection === 'asc' ? 'a' : 'd',
+    h: state.view.hiddenCards
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+
+  if (!canCompress()) return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))}`;
+}
+
+export async function decodeDeckShare(encoded: string): Promise<DeckShareState> {
+  let payload: SharePayload;
+  try {
+    const kind = encoded.charAt(0);
+    let bytes = fromBase64Url(encoded.slice(1));
+    if (kind === 'z') {
+      if (!canCompress()) throw new DeckShareError('This browser cannot open compressed share links');
+      bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    } else if (kind !== 'j') {
+      throw new DeckShareError('Unknown share link format');
+    }
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    if (error instanceof DeckShareError) throw error;
+    throw new DeckShareError('The share link is damaged or incomplete');
+  }
+
+  if (!payload || payload.v !== PAYLOAD_VERSION || typeof payload.l !== 'string') {
+    throw new DeckShareError('The share link was made by a different version of the app');
+  }
+
+  const flags = payload.o || 0;
+  return {
+    deckName: payload.n || '',
+    cards: importDeckList(payload.l, { deckName: payload.n }).deck.cards,
+    matchCardStyle: (flags & OPTION_FLAGS.matchCardStyle) !== 0,
+    excludeBasicLands: (flags & OPTION_FLAGS.excludeBasicLands) !== 0,
+    aggressiveArtMatching: (flags & OPTION_FLAGS.aggressiveArtMatching) !== 0,
+    view: {
+      sortBy: payload.s || 'none',
+      sortDirection: SORT_DIRECTIONS[payload.d] || 'desc',
+      hiddenCards: Array.isArray(payload.h) ? payload.h : []
+    }
+  };
+}
+
+// Absolute link to the dedicated /deck route
+export function buildDeckShareUrl(origin: string, encoded: string): string {
+  return `${origin}/deck?${DECK_SHARE_PARAM}=${encoded}`;
+}
@@ -0,0 +1,188 @@
+import { CardAvailability } from './types';
+import { ScryfallCard } from './scryfall';
+
+// Deck statistics from the Scryfall printing of each card: mana curve, colored pips, card types,
+// average mana value and lands against the colors they produce.
+// Every count is in copies, split into copies the deck will have (owned or bought at Outpost)
+// and copies Outpost cannot supply, to show whether what can be bought today is playable.
+
+export type ManaColor = 'W' | 'U' | 'B' | 'R' | 'G' | 'C';
+
+export type CardType = 'Creature' | 'Planeswalker' | 'Battle' | 'Instant' | 'Sorcery' | 'Artifact' | 'Enchantment' | 'Land' | 'Other';
+
+export interface StatsCard extends CardAvailability {
+  scryfallCard?: ScryfallCard;
+}
+
+export interface SplitCount {
+  available: number;
+  missing: number;
+}
+
+export interface DeckStatistics {
+  curve: SplitCount[]; // nonland copies by mana value, the last bucket is CURVE_MAX and above
+  colors: Record<ManaColor, { pips: SplitCount; sources: SplitCount }>;
+  types: Record<CardType, SplitCount>;
+  averageManaValue: { available: number; missing: number; all: number }; // nonland cards
+  lands: SplitCount;
+  unknown: SplitCount; // copies without Scryfall data (basic lands aside), left out of the statistics
+}
+
+export const MANA_COLORS: ManaColor[] = ['W', 'U', 'B', 'R', 'G', 'C'];
+
+export const MANA_COLOR_LABELS: Record<ManaColor, string> = {
+  W: 'White',
+  U: 'Blue',
+  B: 'Black',
+  R: 'Red',
+  G: 'Green',
+  C: 'Colorless'
+};
+
+// A card counts as the first of these its front face has ("Artifact Creature" is a creature)
+export const CARD_TYPES: CardType[] = ['Creature', 'Planeswalker', 'Battle', 'Instant', 'Sorcery', 'Artifact', 'Enchantment', 'Land', 'Other'];
+
+export const CURVE_MAX = 7;
+
+// Basic lands are not looked up on Scryfall
+const BASIC_LAND_COLORS: Record<string, ManaColor> = {
+  Plains: 'W',
+  Island: 'U',
+  Swamp: 'B',
+  Mountain: 'R',
+  Forest: 'G',
+  Wastes: 'C'
+};
+
+const LAND_TYPE_COLORS: Record<string, ManaColor> = {
+  Plains: 'W',
+  Island: 'U',
+  Swamp: 'B',
+  Mountain: 'R',
+  Forest: 'G'
+};
+
+const MANA_SYMBOL = /\{([^}]+)\}/g;
+
+const emptySplit = (): SplitCount => ({ available: 0, missing: 0 });
+
+function addCopies(count: SplitCount, copies: SplitCount, times = 1) {
+  count.available += copies.available * times;
+  count.missing += copies.missing * times;
+}
+
+const isManaColor = (symbol: string): symbol is ManaColor => MANA_COLORS.indexOf(symbol as ManaColor) !== -1;
+
+// The face that is cast or played first: "Sorcery // Land" is a sorcery
+const frontTypeLine = (printing: ScryfallCard) => printing.type_line.split(' // ')[0];
+
+// Colored pips per color; hybrid symbols count for both colors and Phyrexian ones for their color
+export function countPips(manaCost: string): Partial<Record<ManaColor, number>> {
+  const pips: Partial<Record<ManaColor, number>> = {};
+  (manaCost.match(MANA_SYMBOL) || []).forEach(symbol => {
+    symbol.slice(1, -1).split('/').forEach(part => {
+      if (isManaColor(part)) pips[part] = (pips[part] || 0) + 1;
+    });
+  });
+  return pips;
+}
+
+// Colors a land can add: Scryfall's produced mana, else its basic land types or its "Add {G}" text
+export function landColors(printing: ScryfallCard): ManaColor[] {
+  if (printing.produced_mana) {
+    return printing.produced_mana.filter(isManaColor);
+  }
+
+  const colors: ManaColor[] = [];
+  const add = (color: ManaColor) => {
+    if (colors.indexOf(color) === -1) colors.push(color);
+  };
+  frontTypeLine(printing).split(/\s+/).forEach(word => {
+    if (LAND_TYPE_COLORS[word]) add(LAND_TYPE_COLORS[word]);
+  });
+
+  (printing.oracle_text || '').split('\n').filter(line => /\badd\b/i.test(line)).forEach(line => {
+    if (/any color/i.test(line)) {
+      (['W', 'U', 'B', 'R', 'G'] as ManaColor[]).forEach(add);
+    }
+    (line.match(MANA_SYMBOL) || []).forEach(symbol => {
+      const color = symbol.slice(1, -1);
+      if (isManaColor(color)) add(color);
+    });
+  });
+  return colors;
+}
+
+export function cardType(printing: ScryfallCard): CardType {
+  const typeLine = frontTypeLine(printing);
+  return CARD_TYPES.find(type => type !== 'Other' && typeLine.indexOf(type) !== -1) || 'Other';
+}
+
+// Copies the deck will have and copies nothing can supply
+function copiesOf(card: CardAvailability): SplitCount {
+  const missing = Math.min(card.purchasePlan.shortfall, card.requestedQuantity);
+  return { available: card.requestedQuantity - missing, missing };
+}
+
+const average = (total: number, count: number) => count > 0 ? total / count : 0;
+
+export function deckStatistics(cards: StatsCard[]): DeckStatistics {
+  const stats: DeckStatistics = {
+    curve: Array.from({ length: CURVE_MAX + 1 }, emptySplit),
+    colors: MANA_COLORS.reduce((colors, color) => {
+      colors[color] = { pips: emptySplit(), sources: emptySplit() };
+      return colors;
+    }, {} as DeckStatistics['colors']),
+    types: CARD_TYPES.reduce((types, type) => {
+      types[type] = emptySplit();
+      return types;
+    }, {} as DeckStatistics['types']),
+    averageManaValue: { available: 0, missing: 0, all: 0 },
+    lands: emptySplit(),
+    unknown: emptySplit()
+  };
+  const manaValue = emptySplit();
+  const spells = emptySplit();
+
+  cards.forEach(card => {
+    const copies = copiesOf(card);
+    const printing = card.scryfallCard;
+
+    if (!printing) {
+      const basicColor = BASIC_LAND_COLORS[card.cardName];
+      if (basicColor) {
+        addCopies(stats.lands, copies);
+        addCopies(stats.types.Land, copies);
+        addCopies(stats.colors[basicColor].sources, copies);
+      } else {
+        addCopies(stats.unknown, copies);
+      }
+      return;
+    }
+
+    const type = cardType(printing);
+    addCopies(stats.types[type], copies);
+
+    if (frontTypeLine(printing).indexOf('Land') !== -1) {
+      addCopies(stats.lands, copies);
+      landColors(printing).forEach(color => addCopies(stats.colors[color].sources, copies));
+      return;
+    }
+
+    addCopies(stats.curve[Math.min(CURVE_MAX, Math.floor(printing.cmc || 0))], copies);
+    addCopies(manaValue, copies, printing.cmc || 0);
+    addCopies(spells, copies);
+
+    const pips = countPips(printing.mana_cost ?? printing.card_faces?.[0]?.mana_cost ?? '');
+    MANA_COLORS.forEach(color => {
+      if (pips[color]) addCopies(stats.colors[color].pips, copies, pips[color]);
+    });
+  });
+
+  stats.averageManaValue = {
+    available: average(manaValue.available, spells.available),
+    missing: average(manaValue.missing, spells.missing),
+    all: average(manaValue.available + manaValue.missing, spells.available + spells.missing)
+  };
+  return stats;
+}
@@ -0,0 +1,104 @@
+import { OutpostCard, OutpostDataResponse, InventoryChange, InventoryChangeType, InventoryDiff, InventoryListingState } from './types';
+import { listingKey } from './card-variants';
+
+export const CHANGE_TYPES: InventoryChangeType[] = ['added', 'removed', 'restocked', 'sold-out', 'price-changed'];
+
+interface Listing {
+  card: OutpostCard;
+  condition: string;
+  state: InventoryListingState;
+}
+
+// Flatten a snapshot into one entry per variant condition
+// Snapshots from before variant IDs get them from the schema migration when loaded (lib/inventory-schema.ts)
+function indexListings(cards: OutpostCard[]): Map<string, Listing> {
+  const listings = new Map<string, Listing>();
+
+  cards.forEach(card => {
+    (card.conditions || []).forEach(condition => {
+      const key = listingKey(card, condition.condition);
+      const existing = listings.get(key);
+
+      // The same listing can appear twice when a collection page repeats a card; merge stock
+      if (existing) {
+        existing.state.stock += condition.stock;
+        return;
+      }
+
+      listings.set(key, {
+        card,
+        condition: condition.condition,
+        state: { price: condition.price, stock: condition.stock, priceFormatted: condition.priceFormatted }
+      });
+    });
+  });
+
+  return listings;
+}
+
+function createChange(type: InventoryChangeType, key: string, listing: Listing, before?: InventoryListingState, after?: InventoryListingState): InventoryChange {
+  return {
+    type,
+    key,
+    name: listing.card.name,
+    collection: listing.card.collection,
+    foil: listing.card.foil,
+    condition: listing.condition,
+    before,
+    after
+  };
+}
+
+// Compare two snapshots listing by listing
+// A listing can both restock/sell out and change price, which yields two changes
+export function diffInventories(from: OutpostDataResponse, to: OutpostDataResponse): InventoryDiff {
+  const before = indexListings(from.cards);
+  const after = indexListings(to.cards);
+  const changes: InventoryChange[] = [];
+
+  after.forEach((listing, key) => {
+    const previous = before.get(key);
+
+    if (!previous) {
+      changes.push(createChange('added', key, listing, undefined, listing.state));
+      return;
+    }
+
+    if (previous.state.stock === 0 && listing.state.stock > 0) {
+      changes.push(createChange('restocked', key, listing, previous.state, listing.state));
+    } else if (previous.state.stock > 0 && listing.state.stock === 0) {
+      changes.push(createChange('sold-out', key, listing, previous.state, listing.state));
+    }
+
+    if (previous.state.price !== listing.state.price) {
+      changes.push(createChange('price-changed', key, listing, previous.state, listing.state));
+    }
+  });
+
+  before.forEach((listing, key) => {
+    if (!after.has(key)) {
+      changes.push(createChange('removed', key, listing, listing.state, undefined));
+    }
+  });
+
+  changes.sort((a, b) => a.name.localeCompare(b.name) || a.key.localeCompare(b.key));
+
+  const counts = CHANGE_TYPES.reduce((acc, type) => {
+    acc[type] = 0;
+    return acc;
+  }, {} as Record<InventoryChangeType, number>);
+  changes.forEach(change => counts[change.type]++);
+
+  return {
+    fromDate: from.lastUpdated,
+    toDate: to.lastUpdated,
+    changes,
+    counts
+  };
+}
+
+// Price difference in cents for a price change (positive = more expensive)
+export function priceDelta(change: InventoryChange): number {
+  if (!change.before || !change.after) return 0;
+  return change.after.price - change.before.price;
+}
@@ -0,0 +1,230 @@
+import { OutpostCard, InventoryFilters, InventoryQuery, InventoryPage, InventorySortField } from './types';
+import { cardNameKey, compareVariants } from './card-variants';
+import { IndexedCard, SearchIndex, getSearchIndex, searchIndex } from './search-index';
+
+export const DEFAULT_INVENTORY_FILTERS: InventoryFilters = {
+  availableOnly: false,
+  foilOnly: false,
+  rarities: [],
+  priceRange: [0, 1000],
+  collections: [],
+  conditions: []
+};
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+const SORT_FIELDS: InventorySortField[] = ['name', 'price', 'stock', 'collection'];
+
+// Rarity filters may use full names ("Mythic") while cards store letters ("M")
+function rarityMatches(cardRarity: string, rarities: string[]): boolean {
+  const cardLetter = cardRarity.charAt(0).toUpperCase();
+  return rarities.some(rarity => rarity.charAt(0).toUpperCase() === cardLetter);
+}
+
+// Apply the text search and all filters, using the prebuilt index's precomputed price and stock
+function filterIndexed(index: SearchIndex, query: string, filters: InventoryFilters): IndexedCard[] {
+  let result = searchIndex(index, query);
+
+  // Filter out underscore-only cards unless specifically searching
+  if (!query.includes('_')) {
+    result = result.filter(entry => !entry.placeholder);
+  }
+
+  if (filters.availableOnly) {
+    result = result.filter(entry => entry.available);
+  }
+
+  if (filters.foilOnly) {
+    result = result.filter(entry => entry.card.foil);
+  }
+
+  if (filters.rarities.length > 0) {
+    result = result.filter(entry => rarityMatches(entry.card.rarity, filters.rarities));
+  }
+
+  if (filters.conditions.length > 0) {
+    result = result.filter(entry =>
+      entry.hasConditions &&
+      entry.card.conditions.some(condition => filters.conditions.includes(condition.condition))
+    );
+  }
+
+  if (filters.collections.length > 0) {
+    result = result.filter(entry => filters.collections.includes(entry.card.collection));
+  }
+
+  // Price range filter (convert euros to cents)
+  const [minPrice, maxPrice] = filters.priceRange;
+  result = result.filter(entry =>
+    entry.hasConditions && entry.minPrice >= minPrice * 100 && entry.minPrice <= maxPrice * 100
+  );
+
+  return result;
+}
+
+export function filterInventory(cards: OutpostCard[], query: string, filters: InventoryFilters): OutpostCard[] {
+  return filterIndexed(getSearchIndex(cards), query, filters).map(entry => entry.card);
+}
+
+function compareSortValues(a: string | number, b: string | number, sortDirection: 'asc' | 'desc'): number {
+  return sortDirection === 'asc'
+    ? (a < b ? -1 : a > b ? 1 : 0)
+    : (a > b ? -1 : a < b ? 1 : 0);
+}
+
+function cardSortValue(entry: IndexedCard, sortBy: InventorySortField): string | number {
+  switch (sortBy) {
+    case 'price':
+      return entry.minPrice;
+    case 'stock':
+      return entry.totalStock;
+    case 'collection':
+      return entry.card.collection.toLowerCase();
+    case 'name':
+    default:
+      return entry.nameKey;
+  }
+}
+
+interface IndexedGroup {
+  key: string;
+  variants: IndexedCard[]; // best first
+}
+
+// Name groups sort by their cheapest variant, total stock and best variant's collection
+function groupSortValue(group: IndexedGroup, sortBy: InventorySortField): string | number {
+  switch (sortBy) {
+    case 'price':
+      return group.variants.reduce((min, entry) => Math.min(min, entry.minPrice), Number.MAX_SAFE_INTEGER);
+    case 'stock':
+      return group.variants.reduce((sum, entry) => sum + entry.totalStock, 0);
+    case 'collection':
+      return group.variants[0].card.collection.toLowerCase();
+    case 'name':
+    default:
+      return group.key;
+  }
+}
+
+function sortIndexed(entries: IndexedCard[], sortBy: InventorySortField, sortDirection: 'asc' | 'desc'): IndexedCard[] {
+  return [...entries].sort((a, b) =>
+    compareSortValues(cardSortValue(a, sortBy), cardSortValue(b, sortBy), sortDirection)
+  );
+}
+
+// Group by name (in order of first appearance) and sort the groups by the given field
+function sortIndexedGroups(entries: IndexedCard[], sortBy: InventorySortField, sortDirection: 'asc' | 'desc'): IndexedGroup[] {
+  const groups = new Map<string, IndexedCard[]>();
+  entries.forEach(entry => {
+    const key = cardNameKey(entry.card.name);
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, variants]) => ({ key, variants: variants.sort((a, b) => compareVariants(a.card, b.card)) }))
+    .sort((a, b) => compareSortValues(groupSortValue(a, sortBy), groupSortValue(b, sortBy), sortDirection));
+}
+
+// Sort a copy of the cards by the given field
+export function sortInventory(cards: OutpostCard[], sortBy: InventorySortField, sortDirection: 'asc' | 'desc'): OutpostCard[] {
+  return sortIndexed(getSearchIndex(cards).cards, sortBy, sortDirection).map(entry => entry.card);
+}
+
+// Filter, sort and paginate the inventory
+// With groupBy 'name' a page holds pageSize name groups and all of their matching variants
+export function queryInventory(cards: OutpostCard[], query: InventoryQuery): InventoryPage {
+  const filtered = filterIndexed(getSearchIndex(cards), query.query, query.filters);
+  const rows: IndexedCard[][] = query.groupBy === 'name'
+    ? sortIndexedGroups(filtered, query.sortBy, query.sortDirection).map(group => group.variants)
+    : sortIndexed(filtered, query.sortBy, query.sortDirection).map(entry => [entry]);
+
+  const pageSize = Math.min(Math.max(1, query.pageSize), MAX_PAGE_SIZE);
+  const totalPages = Math.max(1, Math.ceil(rows.length / pageSize));
+  const page = Math.min(Math.max(1, query.page), totalPages);
+  const start = (page - 1) * pageSize;
+
+  return {
+    cards: rows.slice(start, start + pageSize).flatMap(row => row.map(entry => entry.card)),
+    total: rows.length,
+    totalVariants: filtered.length,
+    datasetTotal: cards.length,
+    page,
+    pageSize,
+    totalPages
+  };
+}
+
+// Collection names for the collection filter, alphabetically
+export function listCollections(cards: OutpostCard[]): string[] {
+  return Array.from(new Set(cards.map(card => card.collection))).sort();
+}
+
+// Serialize a query into URL parameters for /api/inventory
+export function inventoryQueryToParams(query: InventoryQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters } = query;
+
+  if (query.query) params.set('q', query.query);
+  if (query.groupBy === 'name') params.set('group', 'name');
+  if (filters.availableOnly) params.set('available', '1');
+  if (filters.foilOnly) params.set('foil', '1');
+  filters.rarities.forEach(rarity => params.append('rarity', rarity));
+  filters.conditions.forEach(condition => params.append('condition', condition));
+  filters.collections.forEach(collection => params.append('collection', collection));
+  params.set('minPrice', String(filters.priceRange[0]));
+  params.set('maxPrice', String(filters.priceRange[1]));
+  params.set('sort', query.sortBy);
+  params.set('dir', query.sortDirection);
+  params.set('page', String(query.page));
+  params.set('pageSize', String(query.pageSize));
+
+  return params;
+}
+
+type QueryParams = Record<string, string | string[] | undefined>;
+
+function paramList(params: QueryParams, key: string): string[] {
+  const value = params[key];
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).filter(v => v !== '');
+}
+
+function paramValue(params: QueryParams, key: string): string | undefined {
+  return paramList(params, key)[0];
+}
+
+function paramNumber(params: QueryParams, key: string, fallback: number): number {
+  const value = Number(paramValue(params, key));
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Parse /api/inventory query parameters back into a query, with defaults
+export function parseInventoryQueryParams(params: QueryParams): InventoryQuery {
+  const sort = paramValue(params, 'sort') as InventorySortField | undefined;
+
+  return {
+    query: paramValue(params, 'q') || '',
+    filters: {
+      availableOnly: paramValue(params, 'available') === '1',
+      foilOnly: paramValue(params, 'foil') === '1',
+      rarities: paramList(params, 'rarity'),
+      conditions: paramList(params, 'condition'),
+      collections: paramList(params, 'collection'),
+      priceRange: [
+        paramNumber(params, 'minPrice', DEFAULT_INVENTORY_FILTERS.priceRange[0]),
+        paramNumber(params, 'maxPrice', DEFAULT_INVENTORY_FILTERS.priceRange[1])
+      ]
+    },
+    groupBy: paramValue(params, 'group') === 'name' ? 'name' : 'variant',
+    sortBy: sort && SORT_FIELDS.includes(sort) ? sort : 'name',
+    sortDirection: paramValue(params, 'dir') === 'desc' ? 'desc' : 'asc',
+    page: Math.floor(paramNumber(params, 'page', 1)),
+    pageSize: Math.floor(paramNumber(params, 'pageSize', DEFAULT_PAGE_SIZE))
+  };
+}
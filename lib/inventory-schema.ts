@@ -0,0 +1,351 @@
+import { OutpostCard, CardCondition, OutpostDataResponse, InventoryRecordIssue, InventoryValidationReport } from './types';
+import { formatPrice } from './utils';
+import { assignVariantIds, buildVariantId, listingProductId, uniqueVariantId } from './card-variants';
+
+// Schema history for outpost-stock.json
+// v1: flat records with a single price/stock per card, no schemaVersion field
+// v2: per-condition pricing in a conditions[] array, explicit schemaVersion
+// v3: every variant kept (no longer one card per name), each with a stable variantId
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export class InventorySchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InventorySchemaError';
+  }
+}
+
+interface RawInventory {
+  schemaVersion: number;
+  lastUpdated?: string;
+  collectionsProcessed?: number;
+  cards: any[];
+  [key: string]: any;
+}
+
+interface Migration {
+  from: number;
+  description: string;
+  migrate: (data: RawInventory) => RawInventory;
+}
+
+// Build a condition entry from the legacy flat price/stock fields
+function conditionFromFlatRecord(card: any): CardCondition {
+  const price = Number(card.price) || 0;
+  return {
+    condition: 'NM/M', // Old scrapes did not record condition, assume near mint
+    price,
+    stock: Number(card.stock) || 0,
+    priceFormatted: card.priceFormatted || formatPrice(price / 100)
+  };
+}
+
+// Ordered chain of migrations, each upgrading the data by one version
+const MIGRATIONS: Migration[] = [
+  {
+    from: 1,
+    description: 'v1 → v2: converted flat price/stock records to conditions[]',
+    migrate: (data) => ({
+      ...data,
+      schemaVersion: 2,
+      cards: data.cards.map(card => {
+        if (!card || typeof card !== 'object' || Array.isArray(card.conditions)) {
+          return card;
+        }
+        if (card.price === undefined && card.stock === undefined) {
+          return card;
+        }
+        return { ...card, conditions: [conditionFromFlatRecord(card)] };
+      })
+    })
+  },
+  {
+    from: 2,
+    description: 'v2 → v3: added variantId to every card',
+    migrate: (data) => {
+      const named = data.cards.filter(card => card && typeof card === 'object' && typeof card.name === 'string');
+      const withIds = assignVariantIds(named.map(card => ({
+        card,
+        name: card.name.trim(),
+        collectionId: card.collectionId !== undefined ? String(card.collectionId) : '',
+        foil: card.foil === true || card.foil === 1 || card.foil === '1',
+        detailUrl: typeof card.detailUrl === 'string' ? card.detailUrl : undefined,
+        conditions: Array.isArray(card.conditions)
+          ? card.conditions.map((condition: any) => ({ outpostId: condition && condition.outpostId ? String(condition.outpostId) : undefined }))
+          : []
+      })));
+      const variantIds = new Map(withIds.map(({ card, variantId }) => [card, variantId] as [any, string]));
+      return {
+        ...data,
+        schemaVersion: 3,
+        cards: data.cards.map(card => variantIds.has(card) ? { ...card, variantId: variantIds.get(card) } : card)
+      };
+    }
+  },
+];
+
+// Work out which schema version an unversioned file was written with
+function detectSchemaVersion(data: any): number {
+  if (typeof data.schemaVersion === 'number') {
+    return data.schemaVersion;
+  }
+  const cards: any[] = Array.isArray(data.cards) ? data.cards : [];
+  if (cards.some(card => card && typeof card.variantId === 'string')) return 3;
+  return cards.some(card => card && Array.isArray(card.conditions)) ? 2 : 1;
+}
+
+// Bring raw JSON up to the current schema version
+export function migrateInventory(raw: unknown): { data: RawInventory; sourceVersion: number; migrationsApplied: string[] } {
+  if (!raw || typeof raw !== 'object') {
+    throw new InventorySchemaError('Inventory file is not a JSON object');
+  }
+
+  // Very early exports were a bare array of cards
+  const wrapped: any = Array.isArray(raw) ? { cards: raw } : raw;
+  if (!Array.isArray(wrapped.cards)) {
+    throw new InventorySchemaError('Inventory file has no cards array');
+  }
+
+  const sourceVersion = detectSchemaVersion(wrapped);
+  if (!Number.isInteger(sourceVersion) || sourceVersion < 1) {
+    throw new InventorySchemaError(`Invalid schema version: ${wrapped.schemaVersion}`);
+  }
+  if (sourceVersion > CURRENT_SCHEMA_VERSION) {
+    throw new InventorySchemaError(
+      `Inventory schema v${sourceVersion} is newer than this app supports (v${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let data: RawInventory = { ...wrapped, schemaVersion: sourceVersion };
+  const migrationsApplied: string[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.from === data.schemaVersion) {
+      data = migration.migrate(data);
+      migrationsApplied.push(migration.description);
+    }
+  }
+
+  return { data, sourceVersion, migrationsApplied };
+}
+
+// Compute the summary price/stock fields from a card's conditions
+// Price = cheapest in-stock condition, falling back to the cheapest listed price
+export function summarizeConditions(conditions: CardCondition[]): Pick<OutpostCard, 'price' | 'stock' | 'priceFormatted'> {
+  const pricedConditions = conditions.filter(c => c.price > 0);
+  const availableConditions = pricedConditions.filter(c => c.stock > 0);
+  const candidates = availableConditions.length > 0 ? availableConditions : pricedConditions;
+
+  const cheapest = candidates.reduce<CardCondition | null>((best, current) =>
+    !best || current.price < best.price ? current : best, null);
+
+  return {
+    price: cheapest ? cheapest.price : 0,
+    stock: conditions.reduce((sum, c) => sum + c.stock, 0),
+    priceFormatted: cheapest ? cheapest.priceFormatted : formatPrice(0)
+  };
+}
+
+// Read a numeric field that may have been serialized as a string; null/missing become NaN
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+// Validate a single condition entry, repairing what can be repaired
+function validateCondition(raw: any, position: number, repairs: string[]): CardCondition | null {
+  if (!raw || typeof raw !== 'object') {
+    repairs.push(`condition #${position + 1}: dropped (not an object)`);
+    return null;
+  }
+
+  const label = typeof raw.condition === 'string' ? raw.condition.trim() : '';
+  if (!label) {
+    repairs.push(`condition #${position + 1}: dropped (missing condition label)`);
+    return null;
+  }
+
+  const price = toNumber(raw.price);
+  if (!Number.isFinite(price)) {
+    repairs.push(`${label}: dropped (price is not a number)`);
+    return null;
+  }
+  if (price < 0) {
+    repairs.push(`${label}: dropped (negative price)`);
+    return null;
+  }
+
+  let stock = toNumber(raw.stock);
+  if (!Number.isFinite(stock)) {
+    repairs.push(`${label}: stock was not a number, set to 0`);
+    stock = 0;
+  } else if (stock < 0) {
+    repairs.push(`${label}: negative stock (${stock}) set to 0`);
+    stock = 0;
+  } else if (!Number.isInteger(stock)) {
+    stock = Math.floor(stock);
+  }
+
+  const condition: CardCondition = {
+    condition: label,
+    price: Math.round(price),
+    stock,
+    priceFormatted: typeof raw.priceFormatted === 'string' && raw.priceFormatted
+      ? raw.priceFormatted
+      : formatPrice(price / 100)
+  };
+  if (raw.outpostId) {
+    condition.outpostId = String(raw.outpostId);
+  }
+  return condition;
+}
+
+// Validate a single card record; returns null with reasons when it must be dropped
+function validateCard(raw: any, repairs: string[], reasons: string[]): OutpostCard | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    reasons.push('record is not an object');
+    return null;
+  }
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name) {
+    reasons.push('missing card name');
+    return null;
+  }
+
+  let rawConditions = raw.conditions;
+  if (!Array.isArray(rawConditions)) {
+    const flatPrice = toNumber(raw.price);
+    if (Number.isFinite(flatPrice) && flatPrice > 0) {
+      repairs.push('missing conditions, rebuilt from flat price/stock');
+      rawConditions = [conditionFromFlatRecord(raw)];
+    } else {
+      reasons.push('missing conditions');
+      return null;
+    }
+  }
+
+  const conditions = (rawConditions as any[])
+    .map((condition, position) => validateCondition(condition, position, repairs))
+    .filter((condition): condition is CardCondition => condition !== null);
+
+  if (conditions.length === 0) {
+    reasons.push(rawConditions.length === 0 ? 'empty conditions list' : 'no valid conditions left after validation');
+    return null;
+  }
+
+  const colors = raw.colors && typeof raw.colors === 'object' ? raw.colors : null;
+  if (!colors) {
+    repairs.push('missing colors, defaulted to colorless');
+  }
+
+  const collection = typeof raw.collection === 'string' ? raw.collection : '';
+  if (!collection) {
+    repairs.push('missing collection');
+  }
+
+  const collectionId = raw.collectionId !== undefined ? String(raw.collectionId) : '';
+  const foil = raw.foil === true || raw.foil === 1 || raw.foil === '1';
+
+  let variantId = typeof raw.variantId === 'string' ? raw.variantId.trim() : '';
+  if (!variantId) {
+    repairs.push('missing variantId, rebuilt from collection/name/foil');
+    variantId = buildVariantId({ name, collectionId, foil });
+  }
+
+  const card: OutpostCard = {
+    ...raw,
+    variantId,
+    name,
+    alphabet: typeof raw.alphabet === 'string' ? raw.alphabet : name.charAt(0).toUpperCase(),
+    rarity: typeof raw.rarity === 'string' ? raw.rarity : '',
+    foil,
+    colors: {
+      white: !!colors?.white,
+      blue: !!colors?.blue,
+      black: !!colors?.black,
+      red: !!colors?.red,
+      green: !!colors?.green,
+      colorless: colors ? !!colors.colorless : true
+    },
+    collection,
+    collectionId,
+    conditions,
+    ...summarizeConditions(conditions)
+  };
+
+  return card;
+}
+
+// Migrate and validate raw inventory JSON, producing clean data plus a report
+export function parseInventoryData(raw: unknown): { data: OutpostDataResponse; report: InventoryValidationReport } {
+  const { data, sourceVersion, migrationsApplied } = migrateInventory(raw);
+
+  const cards: OutpostCard[] = [];
+  const droppedRecords: InventoryRecordIssue[] = [];
+  const repairedRecords: InventoryRecordIssue[] = [];
+  const variantIds = new Set<string>();
+
+  data.cards.forEach((rawCard, index) => {
+    const repairs: string[] = [];
+    const reasons: string[] = [];
+    const card = validateCard(rawCard, repairs, reasons);
+
+    const name = rawCard && typeof rawCard.name === 'string' && rawCard.name.trim()
+      ? rawCard.name.trim()
+      : '(unnamed)';
+    const collection = rawCard && typeof rawCard.collection === 'string' ? rawCard.collection : undefined;
+
+    if (!card) {
+      droppedRecords.push({ index, name, collection, reasons: [...reasons, ...repairs] });
+      return;
+    }
+
+    // Variant IDs are used as keys throughout the app and must be unique
+    if (variantIds.has(card.variantId)) {
+      const productId = listingProductId(card);
+      const renamed = uniqueVariantId(productId ? `${card.variantId}#${productId}` : card.variantId, variantIds);
+      repairs.push(`duplicate variantId ${card.variantId}, renamed to ${renamed}`);
+      card.variantId = renamed;
+    } else {
+      variantIds.add(card.variantId);
+    }
+
+    if (repairs.length > 0) {
+      repairedRecords.push({ index, name, collection, reasons: repairs });
+    }
+    cards.push(card);
+  });
+
+  const { cards: _rawCards, ...metadata } = data;
+
+  return {
+    data: {
+      ...metadata,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      lastUpdated: typeof data.lastUpdated === 'string' ? data.lastUpdated : new Date().toISOString(),
+      totalCards: cards.length,
+      collectionsProcessed: typeof data.collectionsProcessed === 'number'
+        ? data.collectionsProcessed
+        : new Set(cards.map(card => card.collectionId)).size,
+      cards
+    },
+    report: {
+      sourceVersion,
+      targetVersion: CURRENT_SCHEMA_VERSION,
+      migrationsApplied,
+      totalRecords: data.cards.length,
+      acceptedRecords: cards.length,
+      droppedRecords,
+      repairedRecords,
+      validatedAt: new Date().toISOString()
+    }
+  };
+}
+
+// True when the report has anything worth showing to the user
+export function reportHasIssues(report: InventoryValidationReport | null): boolean {
+  if (!report) return false;
+  return !!report.fatalError || report.droppedRecords.length > 0 || report.repairedRecords.length > 0;
+}
@@ -0,0 +1,150 @@
+import { OutpostCard, InventoryQuery, InventoryPage, SearchSuggestion } from './types';
+import { queryInventory } from './inventory-query';
+import { getSearchIndex, suggestInventory } from './search-index';
+
+// Client-side inventory search in a Web Worker (lib/inventory-search.worker.ts)
+// Only the newest query per kind runs: one typed while another is running replaces any queued one,
+// and superseded queries resolve with null. Without worker support the same code runs on the main thread.
+
+export type SearchWorkerRequest =
+  | { type: 'load'; cards: OutpostCard[] }
+  | { type: 'query'; id: number; query: InventoryQuery }
+  | { type: 'suggest'; id: number; term: string };
+
+export type SearchWorkerResponse =
+  | { type: 'query'; id: number; page: InventoryPage }
+  | { type: 'suggest'; id: number; suggestions: SearchSuggestion[] };
+
+type SearchKind = 'query' | 'suggest';
+type SearchRequest = Extract<SearchWorkerRequest, { type: SearchKind }>;
+type SearchResult = InventoryPage | SearchSuggestion[];
+
+interface PendingSearch {
+  request: SearchRequest;
+  resolve: (result: SearchResult | null) => void;
+}
+
+interface SearchChannel {
+  running: PendingSearch | null;
+  queued: PendingSearch | null;
+}
+
+export interface InventorySearch {
+  setInventory: (cards: OutpostCard[]) => void;
+  query: (query: InventoryQuery) => Promise<InventoryPage | null>;
+  suggest: (term: string) => Promise<SearchSuggestion[] | null>;
+  dispose: () => void;
+}
+
+// Answer a request on the main thread when there is no worker
+function runSearchRequest(cards: OutpostCard[], request: SearchRequest): SearchWorkerResponse {
+  return request.type === 'query'
+    ? { type: 'query', id: request.id, page: queryInventory(cards, request.query) }
+    : { type: 'suggest', id: request.id, suggestions: suggestInventory(cards, request.term) };
+}
+
+function startWorker(): Worker | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+
+  try {
+    return new Worker(new URL('./inventory-search.worker.ts', import.meta.url));
+  } catch (error) {
+    console.warn('Search worker unavailable, searching on the main thread:', error);
+    return null;
+  }
+}
+
+export function createInventorySearch(): InventorySearch {
+  let worker = startWorker();
+  let cards: OutpostCard[] = [];
+  let nextId = 1;
+
+  const channels: Record<SearchKind, SearchChannel> = {
+    query: { running: null, queued: null },
+    suggest: { running: null, queued: null }
+  };
+
+  const send = (channel: SearchChannel, search: PendingSearch) => {
+    channel.running = search;
+    if (worker) {
+      worker.postMessage(search.request);
+      return;
+    }
+
+    // Main-thread fallback, still asynchronous so callers behave the same
+    setTimeout(() => finish(runSearchRequest(cards, search.request)), 0);
+  };
+
+  const finish = (response: SearchWorkerResponse) => {
+    const channel = channels[response.type];
+    const running = channel.running;
+    if (!running || running.request.id !== response.id) return;
+
+    channel.running = null;
+    const queued = channel.queued;
+    channel.queued = null;
+
+    // A newer query is waiting, so this result is already stale
+    if (queued) {
+      running.resolve(null);
+      send(channel, queued);
+    } else {
+      running.resolve(response.type === 'query' ? response.page : response.suggestions);
+    }
+  };
+
+  // The worker failed to load or crashed: finish everything on the main thread
+  const fallBack = (error: unknown) => {
+    console.warn('Search worker failed, searching on the main thread:', error);
+    worker?.terminate();
+    worker = null;
+
+    (Object.keys(channels) as SearchKind[]).forEach(kind => {
+      const channel = channels[kind];
+      if (channel.running) send(channel, channel.running);
+    });
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => finish(event.data);
+    worker.onerror = event => {
+      event.preventDefault();
+      fallBack(event.message);
+    };
+  }
+
+  const search = (request: SearchRequest): Promise<SearchResult | null> =>
+    new Promise(resolve => {
+      const channel = channels[request.type];
+      const pending = { request, resolve };
+
+      if (channel.queued) channel.queued.resolve(null);
+      if (channel.running) {
+        channel.queued = pending;
+      } else {
+        send(channel, pending);
+      }
+    });
+
+  return {
+    setInventory: (inventory: OutpostCard[]) => {
+      cards = inventory;
+      if (worker) {
+        worker.postMessage({ type: 'load', cards: inventory } as SearchWorkerRequest);
+      } else {
+        getSearchIndex(inventory);
+      }
+    },
+    query: query => search({ type: 'query', id: nextId++, query }) as Promise<InventoryPage | null>,
+    suggest: term => search({ type: 'suggest', id: nextId++, term }) as Promise<SearchSuggestion[] | null>,
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      (Object.keys(channels) as SearchKind[]).forEach(kind => {
+        channels[kind].running?.resolve(null);
+        channels[kind].queued?.resolve(null);
+        channels[kind] = { running: null, queued: null };
+      });
+    }
+  };
+}
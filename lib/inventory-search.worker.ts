@@ -0,0 +1,27 @@
+import { OutpostCard } from './types';
+import type { SearchWorkerRequest, SearchWorkerResponse } from './inventory-search';
+import { queryInventory } from './inventory-query';
+import { getSearchIndex, suggestInventory } from './search-index';
+
+// Web Worker side of lib/inventory-search.ts: keeps the inventory and its index off the main thread
+
+let cards: OutpostCard[] = [];
+
+const respond = (response: SearchWorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'load':
+      cards = request.cards;
+      getSearchIndex(cards); // build the index now rather than on the first keystroke
+      break;
+    case 'query':
+      respond({ type: 'query', id: request.id, page: queryInventory(cards, request.query) });
+      break;
+    case 'suggest':
+      respond({ type: 'suggest', id: request.id, suggestions: suggestInventory(cards, request.term) });
+      break;
+  }
+};
@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+import { OutpostDataResponse } from './types';
+import { parseInventoryData } from './inventory-schema';
+
+// Server-side access to the inventory file (API routes only - uses fs)
+const INVENTORY_PATH = path.join(process.cwd(), 'public', 'outpost-stock.json');
+
+let cached: { mtimeMs: number; data: OutpostDataResponse } | null = null;
+
+// Load and validate outpost-stock.json, re-reading only when the file changes
+export function loadServerInventory(): OutpostDataResponse {
+  const stat = fs.statSync(INVENTORY_PATH);
+
+  if (!cached || cached.mtimeMs !== stat.mtimeMs) {
+    const raw = JSON.parse(fs.readFileSync(INVENTORY_PATH, 'utf8'));
+    const { data, report } = parseInventoryData(raw);
+
+    if (report.droppedRecords.length > 0) {
+      console.warn(`Inventory API: dropped ${report.droppedRecords.length} invalid records`);
+    }
+    cached = { mtimeMs: stat.mtimeMs, data };
+  }
+
+  return cached.data;
+}
@@ -0,0 +1,76 @@
+import fs from 'fs';
+import path from 'path';
+import { OutpostDataResponse, InventorySnapshotEntry, InventorySnapshotManifest } from './types';
+
+// Dated copies of outpost-stock.json (scripts and API routes only - uses fs)
+// Kept out of public/ and served by /api/snapshots so the "What Changed" view can diff them in the browser
+export const SNAPSHOT_DIR = path.join(process.cwd(), 'snapshots');
+export const SNAPSHOT_MANIFEST = 'index.json';
+
+// Older snapshots are pruned so the directory does not grow without bound
+export const MAX_SNAPSHOTS = 30;
+
+export function loadSnapshotManifest(dir: string = SNAPSHOT_DIR): InventorySnapshotManifest {
+  const manifestPath = path.join(dir, SNAPSHOT_MANIFEST);
+  if (!fs.existsSync(manifestPath)) {
+    return { snapshots: [] };
+  }
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    return { snapshots: Array.isArray(manifest.snapshots) ? manifest.snapshots : [] };
+  } catch (error) {
+    console.warn('Could not read snapshot manifest, starting a new one');
+    return { snapshots: [] };
+  }
+}
+
+// Write the scrape output as a dated snapshot and record it in the manifest
+export function saveInventorySnapshot(
+  output: OutpostDataResponse,
+  options: { dir?: string; maxSnapshots?: number } = {}
+): InventorySnapshotEntry {
+  const dir = options.dir || SNAPSHOT_DIR;
+  const maxSnapshots = options.maxSnapshots ?? MAX_SNAPSHOTS;
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  // 2024-05-01T12:34:56.789Z -> 2024-05-01T12-34-56Z (safe in file names and URLs)
+  const id = output.lastUpdated.replace(/\.\d+Z$/, 'Z').replace(/:/g, '-');
+  const entry: InventorySnapshotEntry = {
+    id,
+    file: `outpost-stock-${id}.json`,
+    lastUpdated: output.lastUpdated,
+    totalCards: output.totalCards
+  };
+
+  fs.writeFileSync(path.join(dir, entry.file), JSON.stringify(output));
+
+  const manifest = loadSnapshotManifest(dir);
+  const snapshots = manifest.snapshots
+    .filter(snapshot => snapshot.id !== entry.id)
+    .concat(entry)
+    .sort((a, b) => a.lastUpdated.localeCompare(b.lastUpdated));
+
+  const pruned = snapshots.slice(0, Math.max(0, snapshots.length - maxSnapshots));
+  pruned.forEach(snapshot => {
+    const filePath = path.join(dir, snapshot.file);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  });
+
+  const kept = snapshots.slice(pruned.length);
+  fs.writeFileSync(path.join(dir, SNAPSHOT_MANIFEST), JSON.stringify({ snapshots: kept }, null, 2));
+
+  return entry;
+}
+
+// Path of a snapshot listed in the manifest; IDs not in it (or files outside the directory) give null
+export function snapshotFilePath(manifest: InventorySnapshotManifest, id: string, dir: string = SNAPSHOT_DIR): string | null {
+  const entry = manifest.snapshots.find(snapshot => snapshot.id === id);
+  if (!entry || path.basename(entry.file) !== entry.file) {
+    return null;
+  }
+  return path.join(dir, entry.file);
+}
@@ -0,0 +1,106 @@
+// Incremental parser for a JSON array of objects, fed text in chunks of any size
+// Tracks strings, escapes and bracket depth, so an element is emitted as soon as it closes,
+// whether the file is pretty-printed, one element per line or minified onto a single line
+
+export class JsonArrayStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonArrayStreamError';
+  }
+}
+
+export interface JsonArrayStream {
+  write(text: string): void;
+  end(): void; // throws when the array was never closed
+}
+
+type ParserState = 'start' | 'value' | 'separator' | 'element' | 'done';
+
+const isWhitespace = (char: string) => char === ' ' || char === '\n' || char === '\r' || char === '\t';
+
+export function createJsonArrayStream(onElement: (element: any) => void): JsonArrayStream {
+  let state: ParserState = 'start';
+  let allowClose = false; // "]" is only valid right after "[" or after an element
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let partial = ''; // text of the current element from earlier chunks
+
+  const emit = (text: string) => {
+    let element: any;
+    try {
+      element = JSON.parse(text);
+    } catch (error) {
+      throw new JsonArrayStreamError('invalid JSON inside the array');
+    }
+    onElement(element);
+  };
+
+  const write = (text: string) => {
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charAt(i);
+
+      if (state === 'element') {
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+        } else if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          depth++;
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (depth === 0) {
+            const elementText = partial + text.slice(start, i + 1);
+            partial = '';
+            state = 'separator';
+            emit(elementText);
+          }
+        }
+        continue;
+      }
+
+      if (isWhitespace(char) || (state === 'start' && char === '\uFEFF')) continue;
+
+      if (state === 'start') {
+        if (char !== '[') throw new JsonArrayStreamError('expected a JSON array');
+        state = 'value';
+        allowClose = true;
+      } else if (state === 'done') {
+        throw new JsonArrayStreamError('unexpected data after the end of the array');
+      } else if (char === ']' && allowClose) {
+        state = 'done';
+      } else if (state === 'separator') {
+        if (char !== ',') throw new JsonArrayStreamError(`expected "," or "]" but found "${char}"`);
+        state = 'value';
+        allowClose = false;
+      } else if (char === '{' || char === '[') {
+        state = 'element';
+        depth = 1;
+        start = i;
+        allowClose = true;
+      } else {
+        throw new JsonArrayStreamError(`expected an object but found "${char}"`);
+      }
+    }
+
+    if (state === 'element') {
+      partial += text.slice(start);
+    }
+  };
+
+  const end = () => {
+    if (state !== 'done') {
+      throw new JsonArrayStreamError('the file ends before the array does');
+    }
+  };
+
+  return { write, end };
+}
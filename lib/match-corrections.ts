@@ -0,0 +1,75 @@
+import { DeckCardMatch, MatchCorrections } from './types';
+import { cardNameKey } from './card-variants';
+
+// Deck card names the user matched to an Outpost name by hand, or marked as not stocked
+// Kept in localStorage; deck analysis applies them before any name matching (lib/deck-analysis.ts).
+
+const STORAGE_KEY = 'outpost_match_corrections';
+
+// Fuzzy matches at or above this similarity are not flagged
+export const CONFIDENT_SIMILARITY = 0.9;
+
+export const NAME_MATCH_LABELS: Record<DeckCardMatch['type'], string> = {
+  'exact': 'Exact name',
+  'normalized': 'Same name',
+  'face': 'Front face',
+  'fuzzy': 'Similar name',
+  'manual': 'Matched by hand',
+  'not-stocked': 'Not stocked',
+  'none': 'No match'
+};
+
+// Matches that may have picked the wrong card: loose names, or several different cards at once
+export function isLowConfidenceMatch(match: DeckCardMatch): boolean {
+  if (match.type === 'fuzzy') return match.score < CONFIDENT_SIMILARITY;
+  return match.type === 'face' && match.matchedNames.length > 1;
+}
+
+export function loadMatchCorrections(): MatchCorrections {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return {};
+  }
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === 'object') return parsed;
+    }
+  } catch (error) {
+    console.warn('Failed to load match corrections:', error);
+  }
+  return {};
+}
+
+export function saveMatchCorrections(corrections: MatchCorrections) {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(corrections));
+  } catch (error) {
+    console.warn('Failed to save match corrections:', error);
+  }
+}
+
+export function matchCorrectionFor(corrections: MatchCorrections | undefined, deckCardName: string) {
+  return corrections ? corrections[cardNameKey(deckCardName)] : undefined;
+}
+
+// Corrections with this deck card matched to `outpostName` (null: not stocked), or its correction removed (undefined)
+export function withMatchCorrection(
+  corrections: MatchCorrections,
+  deckCardName: string,
+  outpostName: string | null | undefined
+): MatchCorrections {
+  const key = cardNameKey(deckCardName);
+  const updated = { ...corrections };
+  if (outpostName === undefined) {
+    delete updated[key];
+  } else {
+    updated[key] = { deckCardName, outpostName, correctedAt: new Date().toISOString() };
+  }
+  return updated;
+}
@@ -0,0 +1,101 @@
+import axios from 'axios';
+import { DeckBoard, DeckCard, MoxfieldCard, MoxfieldDeck } from './types';
+import { DECK_BOARDS } from './deck-boards';
+
+// Moxfield's deck API (v3), mapped onto MoxfieldDeck
+// Browsers are blocked by CORS, so the app fetches through /api/moxfield/[deckId]
+
+export const DEFAULT_MOXFIELD_API_URL = 'https://api2.moxfield.com';
+
+// Moxfield boards and where they go; companions sit in the sideboard like in deck imports
+const BOARD_MAP: Record<string, DeckBoard> = {
+  mainboard: 'mainboard',
+  sideboard: 'sideboard',
+  maybeboard: 'maybeboard',
+  commanders: 'commanders',
+  companions: 'sideboard',
+  signatureSpells: 'commanders'
+};
+
+export function isMoxfieldDeckId(value: string): boolean {
+  return /^[A-Za-z0-9_-]{4,64}$/.test(value);
+}
+
+function toMoxfieldCard(key: string, entry: any): MoxfieldCard | null {
+  const card = entry?.card;
+  if (!card?.name) return null;
+
+  const finish = entry.finish || (entry.isFoil ? 'foil' : 'nonFoil');
+  return {
+    id: card.id || key,
+    name: card.name,
+    set: (card.set || '').toUpperCase(),
+    quantity: entry.quantity || 1,
+    foil: finish === 'foil' || finish === 'etched' || !!entry.isFoil,
+    collectorNumber: card.cn || undefined,
+    scryfallId: card.scryfall_id || undefined
+  };
+}
+
+// v3 responses keep cards in boards.<board>.cards; older ones had the board records at the top level
+export function mapMoxfieldDeck(raw: any): MoxfieldDeck {
+  const deck: MoxfieldDeck = {
+    id: raw.publicId || raw.id,
+    name: raw.name || 'Moxfield Deck',
+    format: raw.format || 'Unknown',
+    mainboard: {},
+    sideboard: {},
+    maybeboard: {},
+    commanders: {}
+  };
+
+  Object.keys(BOARD_MAP).forEach(boardName => {
+    const entries = (raw.boards ? raw.boards[boardName]?.cards : raw[boardName]) || {};
+    Object.keys(entries).forEach(key => {
+      const card = toMoxfieldCard(key, entries[key]);
+      if (card) deck[BOARD_MAP[boardName]][key] = card;
+    });
+  });
+
+  return deck;
+}
+
+// The deck's cards with their printing and finish, for art matching
+export function deckCardsFromMoxfield(deck: MoxfieldDeck): DeckCard[] {
+  return DECK_BOARDS.flatMap(board =>
+    Object.values(deck[board]).map(card => ({
+      name: card.name,
+      quantity: card.quantity,
+      board,
+      set: card.set || undefined,
+      collectorNumber: card.collectorNumber,
+      foil: card.foil
+    }))
+  );
+}
+
+export class MoxfieldDeckNotFoundError extends Error {
+  constructor(deckId: string) {
+    super(`Moxfield deck ${deckId} not found (it may be private)`);
+    this.name = 'MoxfieldDeckNotFoundError';
+  }
+}
+
+// Server side: fetch a deck from Moxfield (or the stub at baseUrl)
+export async function fetchMoxfieldDeckUpstream(deckId: string, baseUrl: string = DEFAULT_MOXFIELD_API_URL): Promise<MoxfieldDeck> {
+  try {
+    const response = await axios.get(`${baseUrl.replace(/\/+$/, '')}/v3/decks/all/${encodeURIComponent(deckId)}`, {
+      timeout: 15000,
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Mozilla/5.0 (compatible; OutpostInventoryChecker/1.0)'
+      }
+    });
+    return mapMoxfieldDeck(response.data);
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      throw new MoxfieldDeckNotFoundError(deckId);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,393 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { OutpostCard, CardCondition, OutpostDataResponse } from './types';
+import { CURRENT_SCHEMA_VERSION, summarizeConditions } from './inventory-schema';
+import { formatPrice } from './utils';
+import { assignVariantIds } from './card-variants';
+
+// Base URLs for Outpost website
+export const BASE_URL = 'https://www.outpost.be/website/';
+export const CATALOG_URL = 'https://www.outpost.be/website/index.php?option=com_outpostshop&view=catalog&catalogid=1&Itemid=4';
+
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+// Selectors for the Outpost shop markup
+const CARD_SELECTOR = '.outpost_shop_list_item_mtg';
+const CATALOG_LINK_SELECTOR = '.catalog_list_element a';
+
+// cheerio does not re-export the domhandler node types
+type CheerioSelection = Cheerio<any>;
+
+export interface OutpostCollection {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// HTTP cache validators from a previous response, for conditional requests
+export interface PageValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// Anything that can fetch a page as HTML - axios in production, saved files offline
+export interface HttpTransport {
+  get(url: string, options?: { timeoutMs?: number }): Promise<string>;
+  // Conditional GET; resolves null when the server answers 304 Not Modified
+  getIfChanged?(url: string, validators: PageValidators, options?: { timeoutMs?: number }): Promise<{ body: string; validators: PageValidators } | null>;
+}
+
+export interface ScrapeSkipReasons {
+  noName: number;
+  noPrice: number;
+  noConditions: number;
+  noSet: number;
+}
+
+export interface CollectionScrapeResult {
+  collection: OutpostCollection;
+  cards: OutpostCard[];
+  skipped: number;
+  skipReasons: ScrapeSkipReasons;
+}
+
+export const getCollectionUrl = (collectionId: string) =>
+  `${BASE_URL}index.php?option=com_outpostshop&Itemid=4&view=productlist&catalogid=1&collectionid=${collectionId}`;
+
+// Rate limiting helper
+export const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Live transport backed by axios
+export function createAxiosTransport(options: { userAgent?: string; timeoutMs?: number } = {}): HttpTransport {
+  return {
+    async get(url, requestOptions) {
+      const response = await axios.get<string>(url, {
+        timeout: requestOptions?.timeoutMs ?? options.timeoutMs ?? 30000,
+        responseType: 'text',
+        headers: {
+          'User-Agent': options.userAgent || DEFAULT_USER_AGENT
+        }
+      });
+      return response.data;
+    },
+
+    async getIfChanged(url, validators, requestOptions) {
+      const headers: Record<string, string> = {
+        'User-Agent': options.userAgent || DEFAULT_USER_AGENT
+      };
+      if (validators.etag) headers['If-None-Match'] = validators.etag;
+      if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+      const response = await axios.get<string>(url, {
+        timeout: requestOptions?.timeoutMs ?? options.timeoutMs ?? 30000,
+        responseType: 'text',
+        headers,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304
+      });
+
+      if (response.status === 304) {
+        return null;
+      }
+      return {
+        body: response.data,
+        validators: {
+          etag: response.headers['etag'] || undefined,
+          lastModified: response.headers['last-modified'] || undefined
+        }
+      };
+    }
+  };
+}
+
+// Offline transport serving saved pages keyed by URL (e.g. the checked-in outpost.html)
+export function createStaticTransport(pages: Record<string, string>): HttpTransport {
+  return {
+    async get(url) {
+      if (!(url in pages)) {
+        throw new Error(`No saved page for ${url}`);
+      }
+      return pages[url];
+    }
+  };
+}
+
+function absoluteUrl(url: string): string {
+  return url && !url.startsWith('http') ? BASE_URL + url : url;
+}
+
+// Extract the collection list from a catalog page
+export function parseCatalogCollections(html: string): OutpostCollection[] {
+  const $ = cheerio.load(html);
+  const collections: OutpostCollection[] = [];
+  const seen = new Set<string>();
+
+  // Older catalog layouts did not wrap links in .catalog_list_element
+  let links = $(CATALOG_LINK_SELECTOR);
+  if (links.length === 0) {
+    links = $('a[href*="collectionid="]');
+  }
+
+  links.each((_, element) => {
+    const href = $(element).attr('href');
+    const name = $(element).text().trim();
+    const match = href ? href.match(/collectionid=(\d+)/) : null;
+
+    // Skip if collection name is empty or too short
+    if (!match || name.length <= 2) return;
+
+    const id = match[1];
+    const key = `${id}-${name}`;
+    if (seen.has(key)) return;
+
+    seen.add(key);
+    collections.push({ id, name, url: getCollectionUrl(id) });
+  });
+
+  return collections;
+}
+
+// Parse the per-condition sale rows of a card element
+function parseConditions($: CheerioAPI, cardElement: CheerioSelection): CardCondition[] {
+  const conditions: CardCondition[] = [];
+
+  cardElement.find('.outpost_sli_sale').each((_, saleElement) => {
+    const saleEl = $(saleElement);
+    const conditionText = saleEl.find('.outpost_sli_quality').text().trim();
+
+    // Stock lives in an element with an id like "ostk12345", which also carries the Outpost ID
+    const stockElement = saleEl.find('[id^="ostk"]');
+    const stock = parseInt(stockElement.text().trim() || '0', 10) || 0;
+    const outpostId = (stockElement.attr('id') || '').replace('ostk', '');
+
+    // Convert from "0.26 €" format to cents
+    const priceText = saleEl.find('.outpost_sli_price').text().trim();
+    const priceMatch = priceText.match(/(\d+\.?\d*)/);
+    const price = Math.round((priceMatch ? parseFloat(priceMatch[1]) : 0) * 100);
+
+    // Conditions with both 0 price AND 0 stock are placeholders
+    if (conditionText && (price > 0 || stock > 0)) {
+      conditions.push({
+        condition: conditionText,
+        price,
+        stock,
+        priceFormatted: priceText,
+        outpostId
+      });
+    }
+  });
+
+  return conditions;
+}
+
+// Fields parseCardElement leaves for the caller, which knows the collection
+type CollectionFields = 'collection' | 'collectionId' | 'variantId';
+
+// Parse a single card element; collection fields and the variant ID are left for the caller to fill in
+export function parseCardElement($: CheerioAPI, cardElement: CheerioSelection): Omit<OutpostCard, CollectionFields> {
+  const conditions = parseConditions($, cardElement);
+  const summary = summarizeConditions(conditions);
+
+  // No priced condition - fall back to the list price attribute
+  if (summary.price === 0) {
+    const fallbackPrice = parseInt(cardElement.attr('price') || '0', 10);
+    if (fallbackPrice > 0) {
+      summary.price = fallbackPrice;
+      summary.priceFormatted = formatPrice(fallbackPrice / 100);
+    }
+  }
+
+  const card: Omit<OutpostCard, CollectionFields> = {
+    name: (cardElement.attr('elnm') || '').trim(),
+    alphabet: cardElement.attr('alphabet') || '',
+    rarity: cardElement.attr('magicrarity') || '',
+    foil: cardElement.attr('foil') === '1',
+    colors: {
+      white: cardElement.attr('cw') === '1',
+      blue: cardElement.attr('cu') === '1',
+      black: cardElement.attr('cb') === '1',
+      red: cardElement.attr('cr') === '1',
+      green: cardElement.attr('cg') === '1',
+      colorless: cardElement.attr('cnocol') === '1'
+    },
+    conditions,
+    ...summary
+  };
+
+  const setElement = cardElement.find('.outpost_sli_set_mtg');
+  if (setElement.length > 0) {
+    card.set = setElement.text().trim();
+  }
+
+  const imageElement = cardElement.find('img');
+  if (imageElement.length > 0) {
+    card.imageUrl = absoluteUrl(imageElement.attr('src') || '');
+  }
+
+  const linkElement = cardElement.find('a[href*="view=detail"]');
+  if (linkElement.length > 0) {
+    card.detailUrl = absoluteUrl(linkElement.attr('href') || '');
+  }
+
+  return card;
+}
+
+// Number of card elements on a collection page
+export function countCollectionCards(html: string): number {
+  return cheerio.load(html)(CARD_SELECTOR).length;
+}
+
+// Parse every valid card on a collection page, counting why the rest were skipped
+export function parseCollectionPage(
+  html: string,
+  collection: OutpostCollection,
+  options: { maxCards?: number | null } = {}
+): CollectionScrapeResult {
+  const $ = cheerio.load(html);
+  const cards: Omit<OutpostCard, 'variantId'>[] = [];
+  const skipReasons: ScrapeSkipReasons = { noName: 0, noPrice: 0, noConditions: 0, noSet: 0 };
+  let skipped = 0;
+
+  $(CARD_SELECTOR).each((_, element) => {
+    if (options.maxCards && cards.length >= options.maxCards) return false;
+
+    const card = parseCardElement($, $(element));
+
+    const hasValidName = card.name !== '';
+    const hasValidPrice = card.price > 0;
+    const hasValidConditions = card.conditions.length > 0;
+    const hasValidSet = !!card.set;
+
+    if (hasValidName && hasValidPrice && hasValidConditions && hasValidSet) {
+      cards.push({ ...card, collection: collection.name, collectionId: collection.id });
+    } else {
+      skipped++;
+      if (!hasValidName) skipReasons.noName++;
+      if (!hasValidPrice) skipReasons.noPrice++;
+      if (!hasValidConditions) skipReasons.noConditions++;
+      if (!hasValidSet) skipReasons.noSet++;
+    }
+  });
+
+  return { collection, cards: assignVariantIds(cards), skipped, skipReasons };
+}
+
+// Fetch and parse the catalog page
+export async function fetchCatalogCollections(transport: HttpTransport, url: string = CATALOG_URL): Promise<OutpostCollection[]> {
+  return parseCatalogCollections(await transport.get(url));
+}
+
+interface RetryOptions {
+  maxRetries?: number;
+  retryDelayMs?: number;
+}
+
+// Run a request, retrying failures with a growing delay
+async function withRetries<T>(request: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxRetries = Math.max(1, options.maxRetries ?? 1);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= maxRetries) throw error;
+      await delay((options.retryDelayMs ?? 1000) * attempt);
+    }
+  }
+}
+
+// Fetch and parse one collection
+export async function scrapeCollection(
+  transport: HttpTransport,
+  collection: OutpostCollection,
+  options: RetryOptions & { maxCards?: number | null; timeoutMs?: number } = {}
+): Promise<CollectionScrapeResult> {
+  const html = await withRetries(() => transport.get(collection.url, { timeoutMs: options.timeoutMs }), options);
+  return parseCollectionPage(html, collection, { maxCards: options.maxCards });
+}
+
+// 53-bit string hash (cyrb53), enough to tell collection contents apart
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+// Fingerprint of the parsed cards rather than the raw markup,
+// so session tokens and other page noise do not count as a change
+export function fingerprintCards(cards: OutpostCard[]): string {
+  return hashString(JSON.stringify(cards));
+}
+
+export type CollectionCheckResult =
+  | { status: 'not-modified' }
+  | { status: 'unchanged' | 'changed'; result: CollectionScrapeResult; fingerprint: string; validators: PageValidators };
+
+// Fetch a collection and compare it with what was scraped before
+// Uses a conditional request when the transport supports it and validators are known
+export async function checkCollection(
+  transport: HttpTransport,
+  collection: OutpostCollection,
+  previous: { fingerprint: string; validators: PageValidators } | undefined,
+  options: RetryOptions & { maxCards?: number | null; timeoutMs?: number } = {}
+): Promise<CollectionCheckResult> {
+  const knownValidators = previous && (previous.validators.etag || previous.validators.lastModified)
+    ? previous.validators
+    : {};
+  let html: string;
+  let validators: PageValidators = {};
+
+  if (transport.getIfChanged) {
+    const getIfChanged = transport.getIfChanged;
+    const response = await withRetries(
+      () => getIfChanged(collection.url, knownValidators, { timeoutMs: options.timeoutMs }),
+      options
+    );
+    if (!response) {
+      return { status: 'not-modified' };
+    }
+    html = response.body;
+    validators = response.validators;
+  } else {
+    html = await withRetries(() => transport.get(collection.url, { timeoutMs: options.timeoutMs }), options);
+  }
+
+  const result = parseCollectionPage(html, collection, { maxCards: options.maxCards });
+  const fingerprint = fingerprintCards(result.cards);
+
+  return {
+    status: previous && previous.fingerprint === fingerprint ? 'unchanged' : 'changed',
+    result,
+    fingerprint,
+    validators
+  };
+}
+
+// Human-readable summary of a collection scrape for script logs
+export function describeScrapeResult(result: CollectionScrapeResult): string {
+  const { cards, skipped, skipReasons, collection } = result;
+  return `Found ${cards.length} valid cards in ${collection.name} (skipped ${skipped} cards: ${skipReasons.noPrice} zero price, ${skipReasons.noSet} missing set, ${skipReasons.noName} missing name, ${skipReasons.noConditions} no conditions)`;
+}
+
+// Wrap scraped cards in the current stock file format
+export function buildInventoryOutput<T extends object>(
+  cards: OutpostCard[],
+  collectionsProcessed: number,
+  extra?: T
+): OutpostDataResponse & T {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    lastUpdated: new Date().toISOString(),
+    totalCards: cards.length,
+    collectionsProcessed,
+    ...(extra as T),
+    cards
+  };
+}
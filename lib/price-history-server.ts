@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { OutpostDataResponse, PriceHistory } from './types';
+import { createPriceHistory, recordInventoryPrices } from './price-history';
+
+// Price history built up by the scrapers (scripts and API routes only - uses fs)
+// Kept out of public/: clients read it per card through /api/price-history
+export const PRICE_HISTORY_PATH = path.join(process.cwd(), 'price-history.json');
+
+let cached: { mtimeMs: number; history: PriceHistory } | null = null;
+
+export function readPriceHistoryFile(file: string = PRICE_HISTORY_PATH): PriceHistory {
+  if (!fs.existsSync(file)) {
+    return createPriceHistory();
+  }
+
+  try {
+    return { ...createPriceHistory(), ...JSON.parse(fs.readFileSync(file, 'utf8')) };
+  } catch (error) {
+    console.warn('Could not read price history, starting a new one');
+    return createPriceHistory();
+  }
+}
+
+// Append the prices of a fresh scrape to the history file
+export function updatePriceHistoryFile(output: OutpostDataResponse, file: string = PRICE_HISTORY_PATH): PriceHistory {
+  const history = recordInventoryPrices(readPriceHistoryFile(file), output);
+  fs.writeFileSync(file, JSON.stringify(history));
+  return history;
+}
+
+// Load the history for API routes, re-reading only when the file changes
+export function loadServerPriceHistory(): PriceHistory {
+  if (!fs.existsSync(PRICE_HISTORY_PATH)) {
+    return createPriceHistory();
+  }
+
+  const stat = fs.statSync(PRICE_HISTORY_PATH);
+  if (!cached || cached.mtimeMs !== stat.mtimeMs) {
+    cached = { mtimeMs: stat.mtimeMs, history: readPriceHistoryFile() };
+  }
+  return cached.history;
+}
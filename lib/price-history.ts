@@ -0,0 +1,236 @@
+import { OutpostCard, OutpostDataResponse, PriceHistory, PriceHistorySeries, PricePoint } from './types';
+import { listingKey } from './card-variants';
+import type { ScryfallCard } from './scryfall';
+
+// Price timelines per Outpost listing (variant and condition) and per Scryfall printing
+// Scrapes keep the full history in price-history.json (see lib/price-history-server.ts),
+// the browser keeps what it observed itself in localStorage
+
+const LOCAL_STORAGE_KEY = 'outpost_price_history';
+
+// Only changes are stored, so this covers a long time span
+export const MAX_POINTS_PER_SERIES = 200;
+
+// Keep the browser copy well under the localStorage quota
+const MAX_LOCAL_SERIES = 2000;
+
+export function createPriceHistory(): PriceHistory {
+  return { listings: {}, scryfall: {}, updatedAt: new Date(0).toISOString() };
+}
+
+// Listings used to be keyed by name|collection|foil|condition, a key same-name variants of a collection shared:
+// only the first variant's prices were kept, so those series move to the variant without a "#<product ID>" suffix
+type LegacyListingCard = Pick<OutpostCard, 'variantId' | 'name' | 'collection' | 'foil'>;
+
+function legacyListingPrefix(card: LegacyListingCard): string | null {
+  if (/#\d+$/.test(card.variantId)) return null;
+  return [card.name.toLowerCase().trim(), card.collection, card.foil ? 'foil' : 'nonfoil', ''].join('|');
+}
+
+const isLegacyListingKey = (key: string) => key.split('|').length === 4;
+
+// Re-key the legacy series of the given cards; series of cards not given stay until their card is seen
+export function migratePriceHistory(history: PriceHistory, cards: LegacyListingCard[]): PriceHistory {
+  const legacyKeys = Object.keys(history.listings).filter(isLegacyListingKey);
+  if (legacyKeys.length === 0) return history;
+
+  const byPrefix = new Map<string, LegacyListingCard>();
+  cards.forEach(card => {
+    const prefix = legacyListingPrefix(card);
+    if (prefix !== null && !byPrefix.has(prefix)) byPrefix.set(prefix, card);
+  });
+
+  const listings = { ...history.listings };
+  legacyKeys.forEach(key => {
+    const condition = key.slice(key.lastIndexOf('|') + 1);
+    const card = byPrefix.get(key.slice(0, key.length - condition.length));
+    if (!card) return;
+
+    const newKey = listingKey(card, condition);
+    listings[newKey] = mergeSeries(listings[newKey], listings[key])!;
+    delete listings[key];
+  });
+  return { ...history, listings };
+}
+
+export function scryfallSeriesKey(scryfallId: string, foil: boolean): string {
+  return `${scryfallId}|${foil ? 'foil' : 'nonfoil'}`;
+}
+
+// Add an observation; an unchanged price/stock only moves lastSeen forward
+export function appendPricePoint(series: PriceHistorySeries | undefined, point: PricePoint): PriceHistorySeries {
+  if (!series || series.points.length === 0) {
+    return { points: [point], lastSeen: point.date };
+  }
+
+  // Observations older than what we already have are ignored (e.g. re-loading an old file)
+  if (point.date <= series.lastSeen) {
+    return series;
+  }
+
+  const last = series.points[series.points.length - 1];
+  if (last.price === point.price && last.stock === point.stock) {
+    return { ...series, lastSeen: point.date };
+  }
+
+  return {
+    points: [...series.points, point].slice(-MAX_POINTS_PER_SERIES),
+    lastSeen: point.date
+  };
+}
+
+function addCardListings(listings: Record<string, PriceHistorySeries>, card: OutpostCard, date: string) {
+  (card.conditions || []).forEach(condition => {
+    const key = listingKey(card, condition.condition);
+    listings[key] = appendPricePoint(listings[key], { date, price: condition.price, stock: condition.stock });
+  });
+}
+
+function latestDate(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+// Record every condition of a card as seen at the given date
+export function recordCardPrices(history: PriceHistory, card: OutpostCard, date: string): PriceHistory {
+  history = migratePriceHistory(history, [card]);
+  const listings = { ...history.listings };
+  addCardListings(listings, card, date);
+  return { ...history, listings, updatedAt: latestDate(date, history.updatedAt) };
+}
+
+// Record a whole inventory file (used by the scrapers)
+export function recordInventoryPrices(history: PriceHistory, data: OutpostDataResponse): PriceHistory {
+  history = migratePriceHistory(history, data.cards);
+  const listings = { ...history.listings };
+  data.cards.forEach(card => addCardListings(listings, card, data.lastUpdated));
+  return { ...history, listings, updatedAt: latestDate(data.lastUpdated, history.updatedAt) };
+}
+
+function eurToCents(value?: string): number | null {
+  const euros = value ? parseFloat(value) : NaN;
+  return Number.isFinite(euros) ? Math.round(euros * 100) : null;
+}
+
+// Record Scryfall's Cardmarket-based EUR prices for a printing
+export function recordScryfallPrices(history: PriceHistory, card: ScryfallCard, date: string): PriceHistory {
+  const scryfall = { ...history.scryfall };
+
+  const eur = eurToCents(card.prices?.eur);
+  if (eur !== null) {
+    const key = scryfallSeriesKey(card.id, false);
+    scryfall[key] = appendPricePoint(scryfall[key], { date, price: eur });
+  }
+
+  const eurFoil = eurToCents(card.prices?.eur_foil);
+  if (eurFoil !== null) {
+    const key = scryfallSeriesKey(card.id, true);
+    scryfall[key] = appendPricePoint(scryfall[key], { date, price: eurFoil });
+  }
+
+  return { ...history, scryfall, updatedAt: latestDate(date, history.updatedAt) };
+}
+
+// Combine two series, e.g. the scraped history with what this browser observed
+export function mergeSeries(a: PriceHistorySeries | undefined, b: PriceHistorySeries | undefined): PriceHistorySeries | undefined {
+  if (!a) return b;
+  if (!b) return a;
+
+  const byDate = new Map<string, PricePoint>();
+  a.points.concat(b.points).forEach(point => byDate.set(point.date, point));
+
+  const sorted = Array.from(byDate.values()).sort((x, y) => x.date.localeCompare(y.date));
+  const points = sorted.filter((point, index) =>
+    index === 0 || point.price !== sorted[index - 1].price || point.stock !== sorted[index - 1].stock
+  );
+
+  return {
+    points: points.slice(-MAX_POINTS_PER_SERIES),
+    lastSeen: a.lastSeen > b.lastSeen ? a.lastSeen : b.lastSeen
+  };
+}
+
+// All condition series of one variant, keyed by condition, including series not yet migrated
+export function listingSeriesForCard(history: PriceHistory, card: LegacyListingCard): Record<string, PriceHistorySeries> {
+  const prefix = listingKey(card, '');
+  const legacyPrefix = legacyListingPrefix(card);
+  const result: Record<string, PriceHistorySeries> = {};
+
+  Object.keys(history.listings).forEach(key => {
+    if (key.startsWith(prefix)) {
+      const condition = key.slice(prefix.length);
+      result[condition] = mergeSeries(result[condition], history.listings[key])!;
+    } else if (legacyPrefix !== null && key.startsWith(legacyPrefix) && isLegacyListingKey(key)) {
+      const condition = key.slice(legacyPrefix.length);
+      result[condition] = mergeSeries(result[condition], history.listings[key])!;
+    }
+  });
+
+  return result;
+}
+
+// Price levels of a series, to tell a spike from the usual price
+export function summarizeSeries(series: PriceHistorySeries | undefined): { min: number; max: number; median: number } | null {
+  if (!series || series.points.length === 0) return null;
+
+  const prices = series.points.map(point => point.price).sort((a, b) => a - b);
+  const middle = Math.floor(prices.length / 2);
+
+  return {
+    min: prices[0],
+    max: prices[prices.length - 1],
+    median: prices.length % 2 === 0 ? Math.round((prices[middle - 1] + prices[middle]) / 2) : prices[middle]
+  };
+}
+
+// Drop the least recently seen series so the history fits in localStorage
+function pruneSeries(series: Record<string, PriceHistorySeries>, limit: number): Record<string, PriceHistorySeries> {
+  const entries = Object.entries(series);
+  if (entries.length <= limit) return series;
+
+  return Object.fromEntries(
+    entries.sort(([, a], [, b]) => b.lastSeen.localeCompare(a.lastSeen)).slice(0, limit)
+  );
+}
+
+export function loadLocalPriceHistory(): PriceHistory {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return createPriceHistory();
+  }
+
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return { ...createPriceHistory(), ...parsed };
+    }
+  } catch (error) {
+    console.warn('Failed to load price history:', error);
+  }
+  return createPriceHistory();
+}
+
+export function saveLocalPriceHistory(history: PriceHistory) {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({
+      ...history,
+      listings: pruneSeries(history.listings, MAX_LOCAL_SERIES),
+      scryfall: pruneSeries(history.scryfall, MAX_LOCAL_SERIES)
+    }));
+  } catch (error) {
+    console.warn('Failed to save price history:', error);
+  }
+}
+
+// Record what the user is looking at: the card's listings as of the loaded inventory and the Scryfall prices
+export function recordObservedPrices(card: OutpostCard, printing: ScryfallCard | null, inventoryDate: string | null) {
+  const now = new Date().toISOString();
+  let history = recordCardPrices(loadLocalPriceHistory(), card, inventoryDate || now);
+  if (printing) {
+    history = recordScryfallPrices(history, printing, now);
+  }
+  saveLocalPriceHistory(history);
+}
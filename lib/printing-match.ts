@@ -0,0 +1,48 @@
+import { DeckPrinting, OutpostCard, PrintingMatch } from './types';
+import { extractSetCode } from './scryfall';
+import { getCardIdentity } from './card-identity';
+
+// Which Outpost listings are the printing a deck list asks for ("Sol Ring (C21) 263")
+// A listing's set code and collector number come from its Scryfall link (lib/card-identity.ts) when it has one,
+// otherwise the set code comes from the collection name (extractSetCode), e.g. "MODERN HORIZONS 3" → MH3.
+
+export const PRINTING_MATCH_LABELS: Record<PrintingMatch, string> = {
+  exact: 'Exact printing',
+  set: 'Same set',
+  any: 'Other printing'
+};
+
+// Best first
+export const PRINTING_MATCH_RANK: Record<PrintingMatch, number> = { exact: 0, set: 1, any: 2 };
+
+// "C21 #263", or "C21" without a collector number
+export function describePrinting(printing?: DeckPrinting): string {
+  if (!printing) return 'any printing';
+  const set = printing.set.toUpperCase();
+  return printing.collectorNumber ? `${set} #${printing.collectorNumber}` : set;
+}
+
+// Outpost's set field sometimes holds the code itself
+const SET_CODE = /^[A-Z0-9]{2,5}$/i;
+
+function listingPrinting(card: OutpostCard): { setCode?: string; collectorNumber?: string } {
+  const identity = getCardIdentity(card.variantId);
+  if (identity) {
+    return { setCode: identity.setCode, collectorNumber: identity.collectorNumber };
+  }
+
+  const setCode = extractSetCode(card.collection) || (card.set && SET_CODE.test(card.set.trim()) ? card.set.trim() : undefined);
+  return { setCode: setCode?.toLowerCase() };
+}
+
+export function matchListingPrinting(card: OutpostCard, requested: DeckPrinting): PrintingMatch {
+  const printing = listingPrinting(card);
+  if (!printing.setCode || printing.setCode !== requested.set.toLowerCase()) return 'any';
+  return requested.collectorNumber && printing.collectorNumber === requested.collectorNumber ? 'exact' : 'set';
+}
+
+// The least matching printing among listings, or null when there are none
+export function worstPrintingMatch(matches: PrintingMatch[]): PrintingMatch | null {
+  return matches.reduce<PrintingMatch | null>((worst, match) =>
+    !worst || PRINTING_MATCH_RANK[match] > PRINTING_MATCH_RANK[worst] ? match : worst, null);
+}
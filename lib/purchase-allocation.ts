@@ -0,0 +1,72 @@
+import { OutpostCard, PurchaseLine, PurchasePlan, PurchasePolicy } from './types';
+import { DEFAULT_PURCHASE_POLICY, compareListings, isListingAcceptable } from './purchase-policy';
+import { listingKey } from './card-variants';
+
+// Fills a requested quantity from several listings (variant × condition) while respecting their stock
+// e.g. 4 copies wanted, 2 in NM and 3 in EX: buy 2× NM and 2× EX, instead of 4× the NM price
+// The purchase policy decides which listings qualify and which are bought first
+
+// Copies already planned per listing, so two deck entries for one card don't buy the same copies twice
+export type StockLedger = Map<string, number>;
+
+export interface AllocationOptions {
+  ledger?: StockLedger;
+  policy?: PurchasePolicy; // which listings may be bought and in which order
+  wantedFoil?: boolean; // the deck list's finish, for the 'match' foil preference
+  variantRank?: (card: OutpostCard) => number; // lower is bought first, ahead of the policy's order
+}
+
+// A new ledger, starting from copies already planned elsewhere when given
+export function createStockLedger(reserved?: StockLedger): StockLedger {
+  return new Map(reserved ? Array.from(reserved.entries()) : []);
+}
+
+// Record copies planned outside the ledger, e.g. by another deck
+export function reservePurchase(ledger: StockLedger, lines: PurchaseLine[]) {
+  lines.forEach(line => {
+    const key = listingKey(line.card, line.condition.condition);
+    ledger.set(key, (ledger.get(key) || 0) + line.quantity);
+  });
+}
+
+// Plan the purchase of `quantity` copies from the given variants (best variant first)
+// Copies no acceptable listing can cover are reported as the shortfall
+export function allocatePurchase(variants: OutpostCard[], quantity: number, options: AllocationOptions = {}): PurchasePlan {
+  const { ledger, policy = DEFAULT_PURCHASE_POLICY, wantedFoil, variantRank } = options;
+  const listings = variants
+    .flatMap((card, variantIndex) => (card.conditions || [])
+      .filter(condition => condition.stock > 0 && isListingAcceptable(policy, card, condition, wantedFoil))
+      .map(condition => ({ card, condition, variantIndex })))
+    .sort((a, b) =>
+      (variantRank ? variantRank(a.card) - variantRank(b.card) : 0) ||
+      compareListings(policy, a, b) ||
+      a.variantIndex - b.variantIndex);
+
+  const lines: PurchaseLine[] = [];
+  let remaining = quantity;
+
+  for (let i = 0; i < listings.length && remaining > 0; i++) {
+    const { card, condition } = listings[i];
+    const key = listingKey(card, condition.condition);
+    const taken = ledger?.get(key) || 0;
+    const take = Math.min(remaining, condition.stock - taken);
+    if (take <= 0) continue;
+
+    ledger?.set(key, taken + take);
+    remaining -= take;
+    lines.push({
+      card,
+      condition,
+      quantity: take,
+      unitPrice: condition.price / 100,
+      subtotal: (condition.price * take) / 100
+    });
+  }
+
+  return {
+    lines,
+    quantity: quantity - remaining,
+    shortfall: remaining,
+    totalCost: lines.reduce((sum, line) => sum + line.subtotal, 0)
+  };
+}
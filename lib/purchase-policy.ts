@@ -0,0 +1,126 @@
+import { CardCondition, FoilPreference, InventoryFilters, OutpostCard, PurchasePolicy } from './types';
+
+// Which listings the user is willing to buy, and how to rank them
+// Used by deck analysis (lib/purchase-allocation.ts), cart adds and the search filter defaults.
+// Outpost listings have no language, so there is nothing to choose there.
+
+const LOCAL_STORAGE_KEY = 'outpost_purchase_policy';
+
+// Best first
+export const CONDITION_ORDER = ['NM/M', 'EX/GD', 'SP/P', 'HP', 'PR'];
+
+export const DEFAULT_PURCHASE_POLICY: PurchasePolicy = {
+  minCondition: 'PR',
+  foil: 'any',
+  tradeoff: 'quality'
+};
+
+export const FOIL_PREFERENCE_LABELS: Record<FoilPreference, string> = {
+  any: 'No preference',
+  never: 'Never foil',
+  prefer: 'Prefer foil',
+  require: 'Foil only',
+  match: 'Match the list (*F*)'
+};
+
+// 'balanced' treats a worse condition as worth this much less per step, e.g. EX at €2.50 beats NM at €3.00
+const BALANCED_DISCOUNT_PER_STEP = 0.15;
+
+export function conditionRank(condition: string): number {
+  const rank = CONDITION_ORDER.indexOf(condition);
+  return rank === -1 ? CONDITION_ORDER.length : rank;
+}
+
+export function isConditionAcceptable(policy: PurchasePolicy, condition: string): boolean {
+  return conditionRank(condition) <= conditionRank(policy.minCondition);
+}
+
+// Conditions at or above the minimum, best first
+export function acceptableConditions(policy: PurchasePolicy): string[] {
+  return CONDITION_ORDER.filter(condition => isConditionAcceptable(policy, condition));
+}
+
+// `wantedFoil` is the deck list's finish (*F* marker), when it has one
+export function isFoilAcceptable(policy: PurchasePolicy, foil: boolean, wantedFoil?: boolean): boolean {
+  switch (policy.foil) {
+    case 'never': return !foil;
+    case 'require': return foil;
+    case 'match': return wantedFoil === undefined || foil === wantedFoil;
+    default: return true;
+  }
+}
+
+export function isListingAcceptable(policy: PurchasePolicy, card: OutpostCard, condition: CardCondition, wantedFoil?: boolean): boolean {
+  return condition.price > 0 &&
+    isConditionAcceptable(policy, condition.condition) &&
+    isFoilAcceptable(policy, card.foil, wantedFoil);
+}
+
+// Order in which listings are bought: preferred finish, then the price/quality tradeoff
+export function compareListings(
+  policy: PurchasePolicy,
+  a: { card: OutpostCard; condition: CardCondition },
+  b: { card: OutpostCard; condition: CardCondition }
+): number {
+  if (policy.foil === 'prefer' && a.card.foil !== b.card.foil) {
+    return a.card.foil ? -1 : 1;
+  }
+
+  const byQuality = conditionRank(a.condition.condition) - conditionRank(b.condition.condition);
+  const byPrice = a.condition.price - b.condition.price;
+  switch (policy.tradeoff) {
+    case 'price':
+      return byPrice || byQuality;
+    case 'balanced': {
+      const worth = (listing: { condition: CardCondition }) =>
+        listing.condition.price / Math.max(0.1, 1 - BALANCED_DISCOUNT_PER_STEP * conditionRank(listing.condition.condition));
+      return worth(a) - worth(b) || byQuality;
+    }
+    default:
+      return byQuality || byPrice;
+  }
+}
+
+// The condition a cart add should use for this variant, if any meets the policy
+export function pickCondition(card: OutpostCard, policy: PurchasePolicy): CardCondition | undefined {
+  return (card.conditions || [])
+    .filter(condition => condition.stock > 0 && isListingAcceptable(policy, card, condition))
+    .sort((a, b) => compareListings(policy, { card, condition: a }, { card, condition: b }))[0];
+}
+
+// Search filters that follow the policy; everything else keeps its default
+export function policyFilters(policy: PurchasePolicy): Pick<InventoryFilters, 'conditions' | 'foilOnly'> {
+  const conditions = acceptableConditions(policy);
+  return {
+    conditions: conditions.length === CONDITION_ORDER.length ? [] : conditions,
+    foilOnly: policy.foil === 'require'
+  };
+}
+
+export function loadPurchasePolicy(): PurchasePolicy {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return DEFAULT_PURCHASE_POLICY;
+  }
+
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_PURCHASE_POLICY, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Failed to load purchase policy:', error);
+  }
+  return DEFAULT_PURCHASE_POLICY;
+}
+
+export function savePurchasePolicy(policy: PurchasePolicy) {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(policy));
+  } catch (error) {
+    console.warn('Failed to save purchase policy:', error);
+  }
+}
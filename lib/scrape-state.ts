@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import { OutpostCard, CollectionScrapeStatus } from './types';
+import { PageValidators } from './outpost-scraper';
+import { assignVariantIds } from './card-variants';
+
+// Bookkeeping for incremental scraping (scripts only - uses fs)
+// Holds every collection's cards so a collection whose page has not changed can be carried over
+export const SCRAPE_STATE_PATH = path.join(process.cwd(), 'scrape-state.json');
+
+export interface CollectionState extends CollectionScrapeStatus {
+  fingerprint: string;
+  validators: PageValidators;
+  cards: OutpostCard[];
+}
+
+export interface ScrapeState {
+  collections: Record<string, CollectionState>;
+}
+
+export function loadScrapeState(file: string = SCRAPE_STATE_PATH): ScrapeState {
+  if (!fs.existsSync(file)) {
+    return { collections: {} };
+  }
+
+  try {
+    const state = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const collections: Record<string, CollectionState> = state && typeof state.collections === 'object' ? state.collections : {};
+
+    // State written before variant IDs existed: give the carried-over cards theirs
+    Object.keys(collections).forEach(id => {
+      const collection = collections[id];
+      if (collection.cards.some(card => !card.variantId)) {
+        collection.cards = assignVariantIds(collection.cards);
+      }
+    });
+    return { collections };
+  } catch (error) {
+    console.warn('Could not read scrape state, starting a full scrape');
+    return { collections: {} };
+  }
+}
+
+export function saveScrapeState(state: ScrapeState, file: string = SCRAPE_STATE_PATH) {
+  fs.writeFileSync(file, JSON.stringify(state));
+}
+
+// Public per-collection summary for the stock file
+export function toCollectionStatus({ id, name, lastScraped, lastChanged, cardCount }: CollectionState): CollectionScrapeStatus {
+  return { id, name, lastScraped, lastChanged, cardCount };
+}
@@ -0,0 +1,291 @@
+import type { ScryfallCard } from './scryfall';
+import { ScryfallBulkKind, ScryfallBulkStatus, ScryfallBulkProgress } from './types';
+import { cardNameKey } from './card-variants';
+import { isIndexedDBAvailable, openDatabase, requestToPromise, transactionDone } from './idb';
+import { JsonArrayStreamError, createJsonArrayStream } from './json-array-stream';
+
+// Offline copy of a Scryfall bulk data file (https://scryfall.com/docs/api/bulk-data) in IndexedDB
+// Indexed by name (and face names), oracle ID and set/collector number; lib/scryfall.ts asks it before the API
+
+const DB_NAME = 'scryfall-bulk';
+const DB_VERSION = 2; // 2: name keys normalized by lib/card-names.ts
+const CARDS_STORE = 'cards';
+const META_STORE = 'meta';
+const STATUS_KEY = 'status';
+
+// Cards written per transaction while importing
+const WRITE_BATCH_SIZE = 1000;
+
+interface StoredCard extends ScryfallCard {
+  nameKeys: string[]; // full name and each face name
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+let statusPromise: Promise<ScryfallBulkStatus | null> | null = null;
+
+function openBulkDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion, transaction) => {
+      if (oldVersion < 1) {
+        const cards = db.createObjectStore(CARDS_STORE, { keyPath: 'id' });
+        cards.createIndex('nameKeys', 'nameKeys', { multiEntry: true });
+        cards.createIndex('oracle_id', 'oracle_id');
+        cards.createIndex('set_number', ['set', 'collector_number']);
+        db.createObjectStore(META_STORE);
+      } else if (oldVersion < 2) {
+        rekeyStoredCards(transaction.objectStore(CARDS_STORE));
+      }
+    }).catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+// What was imported, or null when there is no local data (lookups then go to the API)
+export function getBulkStatus(): Promise<ScryfallBulkStatus | null> {
+  if (!isIndexedDBAvailable()) return Promise.resolve(null);
+
+  if (!statusPromise) {
+    statusPromise = openBulkDatabase()
+      .then(db => requestToPromise(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(STATUS_KEY)))
+      .then(status => (status as ScryfallBulkStatus | undefined) || null)
+      .catch(error => {
+        console.warn('Failed to read Scryfall bulk data status:', error);
+        return null;
+      });
+  }
+  return statusPromise;
+}
+
+// Paper, English, real cards - the file may also hold art series, digital-only and foreign printings
+function isPaperCard(raw: any): boolean {
+  return raw && raw.object === 'card' &&
+    raw.layout !== 'art_series' &&
+    !raw.digital &&
+    (!raw.lang || raw.lang === 'en');
+}
+
+function nameKeysOf(name: string, faces: { name: string }[] | undefined): string[] {
+  const keys = [name, ...(faces || []).map(face => face.name)]
+    .filter(Boolean)
+    .map(cardNameKey);
+  return Array.from(new Set(keys));
+}
+
+// Cards imported under an older key format get their name keys again, without a new import
+function rekeyStoredCards(store: IDBObjectStore) {
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const card = cursor.value as StoredCard;
+    cursor.update({ ...card, nameKeys: nameKeysOf(card.name, card.card_faces) });
+    cursor.continue();
+  };
+}
+
+// Keep only the fields the app reads; bulk entries are several times larger
+function toStoredCard(raw: any): StoredCard {
+  const faces: any[] | undefined = raw.card_faces;
+
+  return {
+    id: raw.id,
+    oracle_id: raw.oracle_id || faces?.[0]?.oracle_id,
+    name: raw.name,
+    mana_cost: raw.mana_cost,
+    cmc: raw.cmc || 0,
+    type_line: raw.type_line || faces?.[0]?.type_line || '',
+    oracle_text: raw.oracle_text,
+    power: raw.power,
+    toughness: raw.toughness,
+    colors: raw.colors || faces?.[0]?.colors || [],
+    color_identity: raw.color_identity || [],
+    produced_mana: raw.produced_mana,
+    rarity: raw.rarity,
+    set: raw.set,
+    set_name: raw.set_name,
+    collector_number: raw.collector_number,
+    released_at: raw.released_at,
+    finishes: raw.finishes,
+    image_uris: raw.image_uris,
+    card_faces: faces?.map(face => ({
+      name: face.name,
+      mana_cost: face.mana_cost,
+      type_line: face.type_line,
+      oracle_text: face.oracle_text,
+      image_uris: face.image_uris
+    })),
+    prices: {
+      usd: raw.prices?.usd || undefined,
+      usd_foil: raw.prices?.usd_foil || undefined,
+      eur: raw.prices?.eur || undefined,
+      eur_foil: raw.prices?.eur_foil || undefined
+    },
+    legalities: raw.legalities || {},
+    edhrec_rank: raw.edhrec_rank,
+    related_uris: raw.related_uris || {},
+    nameKeys: nameKeysOf(raw.name, faces)
+  };
+}
+
+function toScryfallCard(stored: StoredCard): ScryfallCard {
+  const card: Partial<StoredCard> = { ...stored };
+  delete card.nameKeys;
+  return card as ScryfallCard;
+}
+
+// Same order as the API searches: newest printing first
+function newestFirst(cards: StoredCard[]): ScryfallCard[] {
+  return cards
+    .sort((a, b) => (b.released_at || '').localeCompare(a.released_at || ''))
+    .map(toScryfallCard);
+}
+
+// Stream the file through a JSON tokenizer that emits each card once its object closes, so neither the whole
+// file nor a line of it has to be one string (bulk files may be pretty-printed or minified onto a single line)
+async function readBulkFile(file: Blob, onBatch: (rawCards: any[], bytesRead: number) => Promise<void>) {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+  const batch: any[] = [];
+  const parser = createJsonArrayStream(card => batch.push(card));
+
+  const parse = (text: string, last: boolean) => {
+    try {
+      parser.write(text);
+      if (last) parser.end();
+    } catch (error) {
+      if (error instanceof JsonArrayStreamError) {
+        throw new Error(`Not a Scryfall bulk data file (${error.message})`);
+      }
+      throw error;
+    }
+  };
+
+  const flush = async (all: boolean) => {
+    while (batch.length >= WRITE_BATCH_SIZE || (all && batch.length > 0)) {
+      await onBatch(batch.splice(0, WRITE_BATCH_SIZE), bytesRead);
+    }
+  };
+
+  let chunk = await reader.read();
+  while (!chunk.done) {
+    bytesRead += chunk.value.length;
+    parse(decoder.decode(chunk.value, { stream: true }), false);
+    await flush(false);
+
+    chunk = await reader.read();
+  }
+
+  parse(decoder.decode(), true);
+  await flush(true);
+}
+
+async function clearBulkStores(db: IDBDatabase) {
+  const transaction = db.transaction([CARDS_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(CARDS_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  await transactionDone(transaction);
+}
+
+// Replace the local card data with a default-cards or oracle-cards bulk file
+export async function importScryfallBulkFile(
+  file: File,
+  onProgress?: (progress: ScryfallBulkProgress) => void
+): Promise<ScryfallBulkStatus> {
+  const db = await openBulkDatabase();
+  await clearBulkStores(db);
+  statusPromise = Promise.resolve(null);
+
+  // default_cards repeats oracle IDs across printings, oracle_cards never does
+  const oracleIds = new Set<string>();
+  let kind: ScryfallBulkKind = 'oracle_cards';
+  let cardCount = 0;
+
+  await readBulkFile(file, async (rawCards, bytesRead) => {
+    const transaction = db.transaction(CARDS_STORE, 'readwrite');
+    const store = transaction.objectStore(CARDS_STORE);
+
+    rawCards.filter(isPaperCard).forEach(raw => {
+      const card = toStoredCard(raw);
+      if (card.oracle_id) {
+        if (oracleIds.has(card.oracle_id)) kind = 'default_cards';
+        oracleIds.add(card.oracle_id);
+      }
+      store.put(card);
+      cardCount++;
+    });
+
+    await transactionDone(transaction);
+    onProgress?.({ bytesRead, totalBytes: file.size, cardsImported: cardCount });
+  });
+
+  if (cardCount === 0) {
+    throw new Error('No cards found in the file');
+  }
+
+  const status: ScryfallBulkStatus = {
+    kind,
+    fileName: file.name,
+    cardCount,
+    importedAt: new Date().toISOString()
+  };
+
+  // The status is written last, so an interrupted import leaves lookups on the API
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put(status, STATUS_KEY);
+  await transactionDone(transaction);
+
+  statusPromise = Promise.resolve(status);
+  return status;
+}
+
+export async function clearScryfallBulkData() {
+  if (!isIndexedDBAvailable()) return;
+
+  await clearBulkStores(await openBulkDatabase());
+  statusPromise = Promise.resolve(null);
+}
+
+// Run a read against the cards store; null when nothing is imported or IndexedDB fails
+async function readCards<T>(read: (store: IDBObjectStore) => Promise<T>): Promise<T | null> {
+  const status = await getBulkStatus();
+  if (!status) return null;
+
+  try {
+    const db = await openBulkDatabase();
+    return await read(db.transaction(CARDS_STORE, 'readonly').objectStore(CARDS_STORE));
+  } catch (error) {
+    console.warn('Scryfall bulk data lookup failed:', error);
+    return null;
+  }
+}
+
+// Every printing with this name (or face name), newest first
+export async function findBulkPrintingsByName(cardName: string): Promise<ScryfallCard[]> {
+  const cards = await readCards(store =>
+    requestToPromise<StoredCard[]>(store.index('nameKeys').getAll(cardNameKey(cardName)))
+  );
+  return cards ? newestFirst(cards) : [];
+}
+
+export async function findBulkPrintingsByOracleId(oracleId: string): Promise<ScryfallCard[]> {
+  const cards = await readCards(store =>
+    requestToPromise<StoredCard[]>(store.index('oracle_id').getAll(oracleId))
+  );
+  return cards ? newestFirst(cards) : [];
+}
+
+export async function findBulkCardById(scryfallId: string): Promise<ScryfallCard | null> {
+  const card = await readCards(store => requestToPromise<StoredCard | undefined>(store.get(scryfallId)));
+  return card ? toScryfallCard(card) : null;
+}
+
+export async function findBulkCardBySetAndNumber(setCode: string, collectorNumber: string): Promise<ScryfallCard | null> {
+  const card = await readCards(store =>
+    requestToPromise<StoredCard | undefined>(store.index('set_number').get([setCode.toLowerCase(), collectorNumber]))
+  );
+  return card ? toScryfallCard(card) : null;
+}
@@ -1,6 +1,9 @@
 import axios from 'axios';
+import { findBulkCardById, findBulkCardBySetAndNumber, findBulkPrintingsByName } from './scryfall-bulk';
+import { cleanCardName, normalizeCardName } from './card-names';
 
 // Scryfall API base URL
+// Lookups answer from an imported bulk data file first (lib/scryfall-bulk.ts) and fall back to the API
 const SCRYFALL_API = 'https://api.scryfall.com';
 
 // In-memory cache for API responses
@@ -138,6 +141,7 @@ async function rateLimitedRequest<T>(request: () => Promise<T>): Promise<T> {
 
 export interface ScryfallCard {
   id: string;
+  oracle_id?: string; // Shared by every printing of a card (missing on reversible cards)
   name: string;
   mana_cost?: string;
   cmc: number;
@@ -147,11 +151,13 @@ export interface ScryfallCard {
   toughness?: string;
   colors: string[];
   color_identity: string[];
+  produced_mana?: string[]; // Mana symbols the card can add, e.g. ['G', 'W'] for a dual land
   rarity: string;
   set: string;
   set_name: string;
   collector_number: string;
   released_at: string;
+  finishes?: string[]; // nonfoil, foil, etched
   image_uris?: {
     small: string;
     normal: string;
@@ -293,7 +299,7 @@ const COLLECTION_TO_SET_MAP: Record<string, string> = {
 };
 
 // Enhanced function to extract set codes from collection names
-function extractSetCode(collection?: string): string | undefined {
+export function extractSetCode(collection?: string): string | undefined {
   if (!collection) return undefined;
   
   const collectionUpper = collection.toUpperCase().trim();
@@ -331,14 +337,18 @@ function extractSetCode(collection?: string): string | undefined {
 
 // Search for cards by name (fuzzy matching)
 export async function searchCardsByName(cardName: string): Promise<ScryfallCard[]> {
-  const cacheKey = `search:${cardName.toLowerCase()}`;
+  const local = await findBulkPrintingsByName(cardName);
+  if (local.length > 0) return local;
+
+  const cacheKey = `search:${normalizeCardName(cardName)}`;
+  const queryName = cleanCardName(cardName);
   
   return getCached(cacheKey, async () => {
     try {
       const response = await rateLimitedRequest(() =>
         axios.get<ScryfallSearchResult>(`${SCRYFALL_API}/cards/search`, {
           params: {
-            q: `!"${cardName}"`,
+            q: `!"${queryName}"`,
             order: 'released',
             dir: 'desc',
             unique: 'prints'
@@ -354,7 +364,7 @@ export async function searchCardsByName(cardName: string): Promise<ScryfallCard[
           const fuzzyResponse = await rateLimitedRequest(() =>
             axios.get<ScryfallSearchResult>(`${SCRYFALL_API}/cards/search`, {
               params: {
-                q: cardName,
+                q: queryName,
                 order: 'released',
                 dir: 'desc',
                 unique: 'prints'
@@ -375,11 +385,15 @@ export async function searchCardsByName(cardName: string): Promise<ScryfallCard[
 
 // Get card by exact name and set (for better matching) - This is what the modal uses!
 export async function getCardByNameAndSet(cardName: string, setCode?: string): Promise<ScryfallCard | null> {
-  const cacheKey = `card:${cardName.toLowerCase()}:${setCode || 'default'}`;
+  const local = (await findBulkPrintingsByName(cardName))
+    .find(card => !setCode || card.set.toLowerCase() === setCode.toLowerCase());
+  if (local) return local;
+
+  const cacheKey = `card:${normalizeCardName(cardName)}:${setCode || 'default'}`;
   
   return getCached(cacheKey, async () => {
     try {
-      let query = `!"${cardName}"`;
+      let query = `!"${cleanCardName(cardName)}"`;
       if (setCode) {
         query += ` set:${setCode}`;
       }
@@ -405,16 +419,68 @@ export async function getCardByNameAndSet(cardName: string, setCode?: string): P
   });
 }
 
+// Get a specific printing by its Scryfall ID
+export async function getCardById(scryfallId: string): Promise<ScryfallCard | null> {
+  const local = await findBulkCardById(scryfallId);
+  if (local) return local;
+
+  const cacheKey = `card:id:${scryfallId}`;
+  
+  return getCached(cacheKey, async () => {
+    try {
+      const response = await rateLimitedRequest(() =>
+        axios.get<ScryfallCard>(`${SCRYFALL_API}/cards/${encodeURIComponent(scryfallId)}`)
+      );
+      
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error(`Error fetching card ${scryfallId}:`, error);
+      return null;
+    }
+  });
+}
+
+// Get a printing by set code and collector number (as in deck lists: "Sol Ring (C21) 263")
+export async function getCardBySetAndNumber(setCode: string, collectorNumber: string): Promise<ScryfallCard | null> {
+  const local = await findBulkCardBySetAndNumber(setCode, collectorNumber);
+  if (local) return local;
+
+  const cacheKey = `card:set:${setCode.toLowerCase()}:${collectorNumber}`;
+  
+  return getCached(cacheKey, async () => {
+    try {
+      const response = await rateLimitedRequest(() =>
+        axios.get<ScryfallCard>(`${SCRYFALL_API}/cards/${encodeURIComponent(setCode.toLowerCase())}/${encodeURIComponent(collectorNumber)}`)
+      );
+      
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error(`Error fetching card ${setCode} ${collectorNumber}:`, error);
+      return null;
+    }
+  });
+}
+
 // Get all printings of a card
+// With an imported bulk file this answers locally (an oracle-cards file only has one printing per card)
 export async function getAllPrintings(cardName: string): Promise<ScryfallCard[]> {
-  const cacheKey = `printings:${cardName.toLowerCase()}`;
+  const local = await findBulkPrintingsByName(cardName);
+  if (local.length > 0) return local;
+
+  const cacheKey = `printings:${normalizeCardName(cardName)}`;
   
   return getCached(cacheKey, async () => {
     try {
       const response = await rateLimitedRequest(() =>
         axios.get<ScryfallSearchResult>(`${SCRYFALL_API}/cards/search`, {
           params: {
-            q: `!"${cardName}"`,
+            q: `!"${cleanCardName(cardName)}"`,
             order: 'released',
             dir: 'desc',
             unique: 'prints'
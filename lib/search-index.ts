@@ -0,0 +1,262 @@
+import { OutpostCard, SearchSuggestion } from './types';
+import { cardNameKey } from './card-variants';
+
+// Prebuilt search index over the inventory
+// Normalized names (lib/card-names.ts), lowercased collections, a trigram index over distinct names and per-card price/stock,
+// so a keystroke does not lowercase and scan every condition of every card again
+
+export interface IndexedCard {
+  card: OutpostCard;
+  position: number; // index in the inventory, to keep its order
+  nameKey: string; // cardNameKey
+  minPrice: number; // cheapest condition in cents, MAX_SAFE_INTEGER without conditions
+  totalStock: number;
+  available: boolean;
+  hasConditions: boolean;
+  placeholder: boolean; // underscore-only names
+}
+
+// Cards sharing one lowercased collection and set
+interface CollectionEntry {
+  collectionKey: string;
+  setKey: string;
+  positions: number[];
+}
+
+export interface SearchIndex {
+  cards: IndexedCard[];
+  names: string[]; // distinct name keys
+  nameLabels: string[];
+  namePositions: number[][];
+  nameTrigrams: Map<string, number[]>; // trigram -> indexes into names
+  collections: CollectionEntry[];
+  collectionLabels: string[]; // distinct collection names, sorted
+  collectionCounts: Map<string, number>; // by collection name
+}
+
+// Queries shorter than this scan the names instead of using trigrams
+const TRIGRAM_LENGTH = 3;
+
+const SUGGESTION_LIMITS = { sets: 5, cards: 6, collections: 3 };
+
+function trigramsOf(text: string): string[] {
+  const trigrams = new Set<string>();
+  for (let i = 0; i + TRIGRAM_LENGTH <= text.length; i++) {
+    trigrams.add(text.slice(i, i + TRIGRAM_LENGTH));
+  }
+  return Array.from(trigrams);
+}
+
+function indexCard(card: OutpostCard, position: number): IndexedCard {
+  const conditions = card.conditions || [];
+  let minPrice = Number.MAX_SAFE_INTEGER;
+  let totalStock = 0;
+  conditions.forEach(condition => {
+    minPrice = Math.min(minPrice, condition.price);
+    totalStock += condition.stock;
+  });
+
+  return {
+    card,
+    position,
+    nameKey: cardNameKey(card.name || ''),
+    minPrice,
+    totalStock,
+    available: conditions.some(condition => condition.stock > 0),
+    hasConditions: conditions.length > 0,
+    placeholder: /^_+$/.test(card.name || '')
+  };
+}
+
+export function buildSearchIndex(cards: OutpostCard[]): SearchIndex {
+  const indexed = cards.map(indexCard);
+
+  const nameIds = new Map<string, number>();
+  const names: string[] = [];
+  const nameLabels: string[] = [];
+  const namePositions: number[][] = [];
+  const collectionIds = new Map<string, number>();
+  const collections: CollectionEntry[] = [];
+  const collectionCounts = new Map<string, number>();
+
+  indexed.forEach(entry => {
+    let nameId = nameIds.get(entry.nameKey);
+    if (nameId === undefined) {
+      nameId = names.length;
+      nameIds.set(entry.nameKey, nameId);
+      names.push(entry.nameKey);
+      nameLabels.push(entry.card.name);
+      namePositions.push([]);
+    }
+    namePositions[nameId].push(entry.position);
+
+    const collectionKey = (entry.card.collection || '').toLowerCase();
+    const setKey = (entry.card.set || '').toLowerCase();
+    const collectionId = `${collectionKey}\u0000${setKey}`;
+    let collection = collectionIds.get(collectionId);
+    if (collection === undefined) {
+      collection = collections.length;
+      collectionIds.set(collectionId, collection);
+      collections.push({ collectionKey, setKey, positions: [] });
+    }
+    collections[collection].positions.push(entry.position);
+
+    collectionCounts.set(entry.card.collection, (collectionCounts.get(entry.card.collection) || 0) + 1);
+  });
+
+  const nameTrigrams = new Map<string, number[]>();
+  names.forEach((name, nameId) => {
+    trigramsOf(name).forEach(trigram => {
+      const postings = nameTrigrams.get(trigram);
+      if (postings) {
+        postings.push(nameId);
+      } else {
+        nameTrigrams.set(trigram, [nameId]);
+      }
+    });
+  });
+
+  return {
+    cards: indexed,
+    names,
+    nameLabels,
+    namePositions,
+    nameTrigrams,
+    collections,
+    collectionLabels: Array.from(collectionCounts.keys()).sort(),
+    collectionCounts
+  };
+}
+
+// The inventory is loaded once and queried many times, so its index is kept per cards array
+const indexCache = new WeakMap<OutpostCard[], SearchIndex>();
+
+export function getSearchIndex(cards: OutpostCard[]): SearchIndex {
+  let index = indexCache.get(cards);
+  if (!index) {
+    index = buildSearchIndex(cards);
+    indexCache.set(cards, index);
+  }
+  return index;
+}
+
+// Distinct names containing the (normalized) query
+function matchingNameIds(index: SearchIndex, query: string): number[] {
+  if (query.length < TRIGRAM_LENGTH) {
+    return index.names.reduce<number[]>((ids, name, nameId) => {
+      if (name.includes(query)) ids.push(nameId);
+      return ids;
+    }, []);
+  }
+
+  // Candidates from the rarest trigram of the query, then confirmed with a substring check
+  let candidates: number[] | null = null;
+  const trigrams = trigramsOf(query);
+  for (let i = 0; i < trigrams.length; i++) {
+    const postings = index.nameTrigrams.get(trigrams[i]);
+    if (!postings) return [];
+    if (!candidates || postings.length < candidates.length) {
+      candidates = postings;
+    }
+  }
+
+  return (candidates || []).filter(nameId => index.names[nameId].includes(query));
+}
+
+// Text search: "@term" matches collection or set, anything else also matches the name
+// Results keep the inventory order
+export function searchIndex(index: SearchIndex, searchTerm: string): IndexedCard[] {
+  if (!searchTerm) return index.cards;
+
+  const isSetSearch = searchTerm.startsWith('@');
+  const query = (isSetSearch ? searchTerm.slice(1) : searchTerm).toLowerCase();
+  const nameQuery = cardNameKey(searchTerm);
+  const matched = new Uint8Array(index.cards.length);
+
+  index.collections.forEach(collection => {
+    if (collection.collectionKey.includes(query) || collection.setKey.includes(query)) {
+      collection.positions.forEach(position => { matched[position] = 1; });
+    }
+  });
+
+  if (!isSetSearch) {
+    matchingNameIds(index, nameQuery).forEach(nameId => {
+      index.namePositions[nameId].forEach(position => { matched[position] = 1; });
+    });
+  }
+
+  return index.cards.filter(entry => matched[entry.position] === 1);
+}
+
+// Autocomplete: collections for "@term", otherwise card names and then collections
+export function suggestFromIndex(index: SearchIndex, searchTerm: string): SearchSuggestion[] {
+  if (!searchTerm || searchTerm.length < 2) return [];
+
+  const searchLower = searchTerm.toLowerCase();
+
+  if (searchLower.startsWith('@')) {
+    const setQuery = searchLower.slice(1);
+    const setMap = new Map<string, { full: string; count: number }>();
+
+    index.collections.forEach(collection => {
+      if (!collection.collectionKey.includes(setQuery)) return;
+      const existing = setMap.get(collection.collectionKey);
+      if (existing) {
+        existing.count += collection.positions.length;
+      } else {
+        setMap.set(collection.collectionKey, {
+          full: index.cards[collection.positions[0]].card.collection,
+          count: collection.positions.length
+        });
+      }
+    });
+
+    return Array.from(setMap.entries())
+      .sort(([, a], [, b]) => b.count - a.count)
+      .slice(0, SUGGESTION_LIMITS.sets)
+      .map<SearchSuggestion>(([key, data]) => ({ type: 'set', value: `@${key}`, label: data.full, count: data.count }));
+  }
+
+  // Prioritize names starting with the term, then names in stock, then names with many versions
+  const nameQuery = cardNameKey(searchTerm);
+  const cardSuggestions = matchingNameIds(index, nameQuery)
+    .map(nameId => {
+      const positions = index.namePositions[nameId];
+      return {
+        name: index.nameLabels[nameId],
+        prefix: index.names[nameId].startsWith(nameQuery),
+        available: positions.some(position => index.cards[position].available),
+        count: positions.length
+      };
+    })
+    .sort((a, b) => {
+      if (a.prefix !== b.prefix) return a.prefix ? -1 : 1;
+      if (a.available !== b.available) return a.available ? -1 : 1;
+      return b.count - a.count;
+    })
+    .slice(0, SUGGESTION_LIMITS.cards)
+    .map<SearchSuggestion>(match => ({
+      type: 'card',
+      value: match.name,
+      label: match.name,
+      extra: match.available ? 'In Stock' : 'Out of Stock',
+      count: match.count
+    }));
+
+  const collectionSuggestions = index.collectionLabels
+    .filter(collection => collection.toLowerCase().includes(searchLower))
+    .slice(0, SUGGESTION_LIMITS.collections)
+    .map<SearchSuggestion>(collection => ({
+      type: 'collection',
+      value: collection,
+      label: collection,
+      count: index.collectionCounts.get(collection) || 0
+    }));
+
+  return cardSuggestions.concat(collectionSuggestions);
+}
+
+// Suggestions for a search box over the given inventory
+export function suggestInventory(cards: OutpostCard[], searchTerm: string): SearchSuggestion[] {
+  return suggestFromIndex(getSearchIndex(cards), searchTerm);
+}
@@ -1,14 +1,96 @@
 import { create } from 'zustand';
-import { AppState, OutpostCard, MoxfieldDeck, DeckAnalysis, CardAvailability, OutpostDataResponse, BasketItem, BasketSummary, ToastNotification, CardCondition } from './types';
+import { AppState, OutpostCard, MoxfieldDeck, BasketItem, BasketSummary, ToastNotification, CardCondition, PurchasePolicy, CollectionMatching, DeckCard, SavedDeck, MatchCorrections, PrintingOptions, InventoryPage } from './types';
 import { formatPrice } from './utils';
+import { parseInventoryData, InventorySchemaError, CURRENT_SCHEMA_VERSION } from './inventory-schema';
+import { DEFAULT_PURCHASE_POLICY, savePurchasePolicy } from './purchase-policy';
+import { analyzeDecks } from './deck-analysis';
+import { saveMatchCorrections } from './match-corrections';
+import { loadSavedDecks, putSavedDecks, reanalyzeSavedDeck, removeSavedDeck } from './deck-library';
+import {
+  DEFAULT_COLLECTION_MATCHING, loadCollectionMatching, loadOwnedCards, mergeOwnedCards, saveCollectionMatching, saveOwnedCards
+} from './collection';
+
+const DEFAULT_PRINTING_OPTIONS: PrintingOptions = { matchCardStyle: false, aggressiveArtMatching: false };
+
+// Analyzes the decks together against the same stock and selects one of them
+function deckAnalysisState(state: AppState, decks: MoxfieldDeck[], selectedId: string | undefined, printing: PrintingOptions) {
+  const analysis = analyzeDecks(decks, state.outpostData, state.purchasePolicy, {
+    ...printing,
+    collection: state.collection,
+    collectionMatching: state.collectionMatching,
+    matchCorrections: state.matchCorrections
+  });
+  const index = Math.max(0, decks.findIndex(deck => deck.id === selectedId));
+
+  return {
+    decks,
+    currentDeck: decks[index],
+    deckAnalysis: analysis.decks[index],
+    multiDeckAnalysis: decks.length > 1 ? analysis : null
+  };
+}
+
+// Download, migrate and validate outpost-stock.json
+async function downloadOutpostData(set: any) {
+  set({ isLoading: true });
+  try {
+    const response = await fetch('/outpost-stock.json');
+    const raw: unknown = await response.json();
+    
+    // Migrate older formats and drop or repair malformed records
+    const { data, report } = parseInventoryData(raw);
+    
+    if (report.droppedRecords.length > 0) {
+      console.warn(`Dropped ${report.droppedRecords.length} invalid inventory records`, report.droppedRecords);
+    }
+    
+    set({ 
+      outpostData: data.cards, 
+      isLoading: false, 
+      lastDataRefresh: data.lastUpdated,
+      inventoryReport: report
+    });
+  } catch (error) {
+    console.error('Failed to load Outpost data:', error);
+    set({
+      isLoading: false,
+      inventoryReport: {
+        sourceVersion: 0,
+        targetVersion: CURRENT_SCHEMA_VERSION,
+        migrationsApplied: [],
+        totalRecords: 0,
+        acceptedRecords: 0,
+        droppedRecords: [],
+        repairedRecords: [],
+        fatalError: error instanceof InventorySchemaError
+          ? error.message
+          : 'Could not read outpost-stock.json',
+        validatedAt: new Date().toISOString()
+      }
+    });
+  }
+}
+
+// Concurrent loads share one download
+let inventoryRequest: Promise<void> | null = null;
 
 const useStore = create<AppState>((set: any, get: any) => ({
   outpostData: [],
   isLoading: false,
   lastDataRefresh: null,
+  inventoryReport: null,
+  inventoryApiAvailable: null,
+  inventoryOverview: null,
   currentDeck: null,
   deckAnalysis: null,
+  decks: [],
+  multiDeckAnalysis: null,
   searchTerm: '',
+  purchasePolicy: DEFAULT_PURCHASE_POLICY,
+  collection: [],
+  collectionMatching: DEFAULT_COLLECTION_MATCHING,
+  matchCorrections: {},
+  savedDecks: [],
   
   // Basket state
   basket: [],
@@ -17,200 +99,147 @@ const useStore = create<AppState>((set: any, get: any) => ({
   // Toast state
   toasts: [],
 
-  loadOutpostData: async () => {
-    set({ isLoading: true });
-    try {
-      const response = await fetch('/outpost-stock.json');
-      const data: any = await response.json(); // Use any since the JSON structure might be old format
-      
-      // Extract cards array from the response structure
-      const rawCards = data.cards || [];
-      
-      // Convert old format to new format if needed
-      const cards: OutpostCard[] = rawCards.map((card: any) => {
-        // If card already has conditions array, use it as-is
-        if (card.conditions && Array.isArray(card.conditions)) {
-          return card as OutpostCard;
-        }
-        
-        // Convert old format (direct price/stock) to new format (conditions array)
-        const condition: CardCondition = {
-          condition: 'NM/M', // Default condition for old format
-          price: card.price || 0,
-          stock: card.stock || 0,
-          priceFormatted: card.priceFormatted || formatPrice((card.price || 0) / 100)
-        };
-        
-        return {
-          ...card,
-          conditions: [condition],
-          // Keep backwards compatibility fields
-          price: card.price || 0,
-          stock: card.stock || 0,
-          priceFormatted: card.priceFormatted || formatPrice((card.price || 0) / 100)
-        } as OutpostCard;
+  loadOutpostData: () => {
+    if (!inventoryRequest) {
+      inventoryRequest = downloadOutpostData(set).then(() => {
+        inventoryRequest = null;
       });
-      
-      set({ 
-        outpostData: cards, 
-        isLoading: false, 
-        lastDataRefresh: data.lastUpdated || new Date().toISOString()
+    }
+    return inventoryRequest;
+  },
+
+  // The full inventory is only downloaded for what needs every card: deck analysis,
+  // collection statistics, and searching when the inventory API is not available
+  ensureOutpostData: async () => {
+    if (get().outpostData.length > 0) return;
+    await get().loadOutpostData();
+  },
+
+  // Whether /api/inventory answers (static exports have no API routes), with the inventory's size and collections
+  probeInventoryApi: async () => {
+    try {
+      const response = await fetch('/api/inventory?pageSize=1&facets=1');
+      if (!response.ok) {
+        throw new Error(`Inventory API returned ${response.status}`);
+      }
+      const page: InventoryPage = await response.json();
+      set({
+        inventoryApiAvailable: true,
+        inventoryOverview: { total: page.datasetTotal, collections: page.collections || [] },
+        lastDataRefresh: get().lastDataRefresh || page.lastUpdated || null
       });
+      return true;
     } catch (error) {
-      console.error('Failed to load Outpost data:', error);
-      set({ isLoading: false });
+      set({ inventoryApiAvailable: false });
+      return false;
     }
   },
 
+  setInventoryApiAvailable: (available: boolean) => {
+    set({ inventoryApiAvailable: available });
+  },
+
   setSearchTerm: (term: string) => {
     set({ searchTerm: term });
   },
 
-  analyzeDeck: (deck: MoxfieldDeck, matchCardStyle: boolean = false) => {
-    const { outpostData } = get();
-    
-    const allCards = [
-      ...Object.values(deck.mainboard),
-      ...Object.values(deck.sideboard),
-      ...Object.values(deck.maybeboard),
-      ...Object.values(deck.commanders),
-    ];
-
-    const cardAvailability: CardAvailability[] = allCards.map(card => {
-      // Step 1: Try exact name match first (most accurate)
-      let availableCards = outpostData.filter((outpostCard: OutpostCard) => 
-        outpostCard.name.toLowerCase() === card.name.toLowerCase()
-      );
-      
-      // Step 2: If no exact match, try exact substring match (card name contains search term)
-      if (availableCards.length === 0) {
-        availableCards = outpostData.filter((outpostCard: OutpostCard) => 
-          outpostCard.name.toLowerCase().includes(card.name.toLowerCase())
-        );
-      }
-      
-      // Step 3: Only as last resort, try bidirectional fuzzy matching
-      if (availableCards.length === 0) {
-        availableCards = outpostData.filter((outpostCard: OutpostCard) => 
-          card.name.toLowerCase().includes(outpostCard.name.toLowerCase())
-        );
-      }
-      
-      // Auto-exclude cards with zero prices
-      availableCards = availableCards.filter((outpostCard: OutpostCard) => {
-        const hasValidPrice = outpostCard.conditions?.some(condition => condition.price > 0) || false;
-        return hasValidPrice;
-      });
+  analyzeDeck: (deck: MoxfieldDeck, printing: PrintingOptions = DEFAULT_PRINTING_OPTIONS, mode: 'replace' | 'add' = 'replace') => {
+    const { decks } = get();
 
-      // If matchCardStyle is enabled, prioritize cards that match set and foil preferences
-      if (matchCardStyle) {
-        const matchingCards = availableCards.filter((outpostCard: OutpostCard) => {
-          const setMatches = !card.set || !outpostCard.set || 
-            outpostCard.set.toLowerCase().includes(card.set.toLowerCase()) ||
-            card.set.toLowerCase().includes(outpostCard.set.toLowerCase());
-          // Note: MoxfieldCard doesn't have foil property, so we skip foil matching for now
-          const foilMatches = true; // Skip foil matching until we have proper type support
-          return setMatches && foilMatches;
-        });
-        
-        // Use matching cards if found, otherwise fall back to all available cards
-        if (matchingCards.length > 0) {
-          availableCards = matchingCards;
-        }
-      }
+    // Added decks need their own ID; imported lists all start out as 'imported-deck'
+    let id = deck.id;
+    for (let n = 2; mode === 'add' && decks.some((d: MoxfieldDeck) => d.id === id); n++) {
+      id = `${deck.id}-${n}`;
+    }
+    const added = id === deck.id ? deck : { ...deck, id };
 
-      // Calculate total available stock from all conditions (only non-zero price conditions)
-      const totalAvailable = availableCards.reduce((sum: number, card: OutpostCard) => {
-        return sum + (card.conditions?.reduce((condSum, condition) => 
-          condition.price > 0 ? condSum + condition.stock : condSum, 0) || 0);
-      }, 0);
-      
-      // Get the best quality card at the cheapest price
-      // Quality hierarchy: NM/M > EX/GD > SP/P > HP > PR
-      const qualityOrder = ['NM/M', 'EX/GD', 'SP/P', 'HP', 'PR'];
-      
-      let bestPrice = 0;
-      let bestCard = null;
-      let bestCondition = null;
-      
-      for (const quality of qualityOrder) {
-        const candidateCards = availableCards.flatMap((card: OutpostCard) => 
-          card.conditions?.filter(condition => 
-            condition.condition === quality && 
-            condition.price > 0 && 
-            condition.stock > 0
-          ).map(condition => ({ card, condition })) || []
-        );
-        
-        if (candidateCards.length > 0) {
-          // Find cheapest price within this quality tier
-          const cheapestInTier = candidateCards.reduce((best: any, current: any) => 
-            current.condition.price < best.condition.price ? current : best
-          );
-          
-          bestPrice = cheapestInTier.condition.price / 100;
-          bestCard = cheapestInTier.card;
-          bestCondition = cheapestInTier.condition;
-          break;
-        }
-      }
-      
-      // If no stock available, find cheapest price regardless of stock
-      if (bestPrice === 0) {
-        for (const quality of qualityOrder) {
-          const candidateCards = availableCards.flatMap((card: OutpostCard) => 
-            card.conditions?.filter(condition => 
-              condition.condition === quality && 
-              condition.price > 0
-            ).map(condition => ({ card, condition })) || []
-          );
-          
-          if (candidateCards.length > 0) {
-            const cheapestInTier = candidateCards.reduce((best: any, current: any) => 
-              current.condition.price < best.condition.price ? current : best
-            );
-            
-            bestPrice = cheapestInTier.condition.price / 100;
-            bestCard = cheapestInTier.card;
-            bestCondition = cheapestInTier.condition;
-            break;
-          }
-        }
-      }
+    set(deckAnalysisState(get(), mode === 'add' ? [...decks, added] : [added], added.id, printing));
+  },
 
-      // Calculate average price for reference (only from non-zero prices)
-      const validPrices = availableCards.flatMap((card: OutpostCard) => 
-        card.conditions?.filter(condition => condition.price > 0).map(condition => condition.price / 100) || []
-      );
-      const averagePrice = validPrices.length > 0 ? validPrices.reduce((sum: number, price: number) => sum + price, 0) / validPrices.length : 0;
-
-      return {
-        cardName: card.name,
-        requestedQuantity: card.quantity,
-        availableCards,
-        totalAvailable,
-        cheapestPrice: bestPrice,
-        averagePrice,
-        isFullyAvailable: totalAvailable >= card.quantity,
-      };
-    });
+  reanalyzeDecks: (printing: PrintingOptions = DEFAULT_PRINTING_OPTIONS) => {
+    const { decks, currentDeck } = get();
+    if (decks.length === 0) return;
+    set(deckAnalysisState(get(), decks, currentDeck?.id, printing));
+  },
 
-    const analysis: DeckAnalysis = {
-      deckId: deck.id,
-      deckName: deck.name,
-      totalCards: allCards.length,
-      availableCards: cardAvailability.filter(card => card.isFullyAvailable).length,
-      missingCards: cardAvailability.filter(card => !card.isFullyAvailable).length,
-      totalCost: cardAvailability.reduce((sum, card) => sum + (card.cheapestPrice * card.requestedQuantity), 0),
-      cardAvailability,
-      lastAnalyzed: new Date().toISOString(),
-    };
+  selectDeck: (deckId: string) => {
+    const { decks, multiDeckAnalysis } = get();
+    const index = decks.findIndex((deck: MoxfieldDeck) => deck.id === deckId);
+    if (index === -1 || !multiDeckAnalysis) return;
+    set({ currentDeck: decks[index], deckAnalysis: multiDeckAnalysis.decks[index] });
+  },
 
-    set({ currentDeck: deck, deckAnalysis: analysis });
+  removeDeck: (deckId: string, printing: PrintingOptions = DEFAULT_PRINTING_OPTIONS) => {
+    const { decks, currentDeck } = get();
+    const remaining = decks.filter((deck: MoxfieldDeck) => deck.id !== deckId);
+    if (remaining.length === 0) {
+      set({ decks: [], currentDeck: null, deckAnalysis: null, multiDeckAnalysis: null });
+      return;
+    }
+
+    // Copies the removed deck reserved go back to the others
+    const selectedId = currentDeck?.id === deckId ? remaining[0].id : currentDeck?.id;
+    set(deckAnalysisState(get(), remaining, selectedId, printing));
   },
 
   clearDeck: () => {
-    set({ currentDeck: null, deckAnalysis: null });
+    set({ decks: [], currentDeck: null, deckAnalysis: null, multiDeckAnalysis: null });
+  },
+
+  setPurchasePolicy: (policy: PurchasePolicy) => {
+    savePurchasePolicy(policy);
+    set({ purchasePolicy: policy });
+  },
+
+  loadCollection: async () => {
+    set({ collection: await loadOwnedCards(), collectionMatching: loadCollectionMatching() });
+  },
+
+  importCollection: async (cards: DeckCard[], mode: 'replace' | 'add') => {
+    const collection = mergeOwnedCards(mode === 'add' ? get().collection : [], cards);
+    await saveOwnedCards(collection);
+    set({ collection });
+  },
+
+  clearCollection: async () => {
+    await saveOwnedCards([]);
+    set({ collection: [] });
+  },
+
+  setCollectionMatching: (matching: CollectionMatching) => {
+    saveCollectionMatching(matching);
+    set({ collectionMatching: matching });
+  },
+
+  setMatchCorrections: (corrections: MatchCorrections) => {
+    saveMatchCorrections(corrections);
+    set({ matchCorrections: corrections });
+  },
+
+  loadDeckLibrary: async () => {
+    set({ savedDecks: await loadSavedDecks() });
+  },
+
+  saveDeckToLibrary: async (deck: SavedDeck) => {
+    await putSavedDecks([deck]);
+    const { savedDecks } = get();
+    set({ savedDecks: [deck, ...savedDecks.filter((saved: SavedDeck) => saved.id !== deck.id)] });
+  },
+
+  deleteSavedDeck: async (deckId: string) => {
+    await removeSavedDeck(deckId);
+    const { savedDecks } = get();
+    set({ savedDecks: savedDecks.filter((saved: SavedDeck) => saved.id !== deckId) });
+  },
+
+  // Each saved deck on its own, against the inventory loaded now
+  reanalyzeDeckLibrary: async () => {
+    const { savedDecks, outpostData, purchasePolicy, collection, collectionMatching, matchCorrections, lastDataRefresh } = get();
+    const updated = savedDecks.map((deck: SavedDeck) =>
+      reanalyzeSavedDeck(deck, outpostData, purchasePolicy, { collection, collectionMatching, matchCorrections }, lastDataRefresh)
+    );
+    await putSavedDecks(updated);
+    set({ savedDecks: updated });
   },
 
   refreshData: async () => {
@@ -221,7 +250,7 @@ const useStore = create<AppState>((set: any, get: any) => ({
   // Basket actions
   addToBasket: (card: OutpostCard, condition: CardCondition, quantity = 1) => {
     const { basket, addToast } = get();
-    const itemId = `${card.name}-${card.collection}-${card.foil}-${condition.condition}`;
+    const itemId = `${card.variantId}-${condition.condition}`;
     
     // Check if item already exists in basket
     const existingItemIndex = basket.findIndex((item: BasketItem) => item.id === itemId);
@@ -8,7 +8,9 @@ export interface CardCondition {
 }
 
 // Card data from Outpost (updated to match actual scraped data with conditions)
+// One record per variant: the same name appears once per collection and foil combination
 export interface OutpostCard {
+  variantId: string; // Stable ID: collectionId:name-slug:foil|nonfoil (see lib/card-variants.ts)
   name: string;
   alphabet: string;
   rarity: string; // M, R, U, C
@@ -36,20 +38,265 @@ export interface OutpostCard {
   priceFormatted: string; // Formatted price of cheapest available condition
 }
 
-// Scraped data response structure
+// Scraped data response structure (see lib/inventory-schema.ts for versions)
 export interface OutpostDataResponse {
+  schemaVersion: number;
   lastUpdated: string;
   totalCards: number;
   collectionsProcessed: number;
+  collections?: CollectionScrapeStatus[]; // Written by the incremental scraper
   cards: OutpostCard[];
 }
 
+// All stocked variants of one card name, best variant first
+export interface CardVariantGroup {
+  key: string; // Normalized card name
+  name: string;
+  variants: OutpostCard[];
+  price: number; // Cheapest in-stock price across variants (in cents), falling back to the cheapest listed
+  stock: number; // Total stock across variants
+}
+
+// When a collection was last checked and when its cards last changed
+export interface CollectionScrapeStatus {
+  id: string;
+  name: string;
+  lastScraped: string;
+  lastChanged: string;
+  cardCount: number;
+}
+
+// Inventory search filters (shared by CardSearch and /api/inventory)
+export interface InventoryFilters {
+  availableOnly: boolean;
+  foilOnly: boolean;
+  rarities: string[];
+  priceRange: [number, number]; // in euros
+  collections: string[];
+  conditions: string[];
+}
+
+export type InventorySortField = 'name' | 'price' | 'stock' | 'collection';
+
+// 'name' paginates whole name groups so every variant of a card lands on the same page
+export type InventoryGrouping = 'variant' | 'name';
+
+export interface InventoryQuery {
+  query: string;
+  filters: InventoryFilters;
+  groupBy: InventoryGrouping;
+  sortBy: InventorySortField;
+  sortDirection: 'asc' | 'desc';
+  page: number; // 1-based
+  pageSize: number;
+}
+
+// One page of inventory search results
+export interface InventoryPage {
+  cards: OutpostCard[]; // With groupBy 'name', all variants of the page's groups in group order
+  total: number; // Matching rows (variants or name groups) across all pages
+  totalVariants: number; // Matching variants across all pages
+  datasetTotal: number; // Variants in the whole inventory
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  lastUpdated?: string;
+  collections?: string[]; // Every collection in the inventory, only when asked for with facets=1
+}
+
+// What the inventory API reports about the whole inventory, for pages that do not download it
+export interface InventoryOverview {
+  total: number;
+  collections: string[];
+}
+
+// A single inventory record that was dropped or repaired during validation
+export interface InventoryRecordIssue {
+  index: number; // Position of the record in the source file
+  name: string;
+  collection?: string;
+  reasons: string[];
+}
+
+// Result of validating and migrating outpost-stock.json
+export interface InventoryValidationReport {
+  sourceVersion: number;
+  targetVersion: number;
+  migrationsApplied: string[];
+  totalRecords: number;
+  acceptedRecords: number;
+  droppedRecords: InventoryRecordIssue[];
+  repairedRecords: InventoryRecordIssue[];
+  fatalError?: string; // Set when the file could not be used at all
+  validatedAt: string;
+}
+
+// Dated copy of a scrape, listed in snapshots/index.json
+export interface InventorySnapshotEntry {
+  id: string;
+  file: string; // relative to snapshots/
+  lastUpdated: string;
+  totalCards: number;
+}
+
+export interface InventorySnapshotManifest {
+  snapshots: InventorySnapshotEntry[]; // oldest first
+}
+
+export type InventoryChangeType = 'added' | 'removed' | 'restocked' | 'sold-out' | 'price-changed';
+
+// One condition listing as it appeared in a snapshot
+export interface InventoryListingState {
+  price: number; // in euro cents
+  stock: number;
+  priceFormatted: string;
+}
+
+// A single change between two snapshots, keyed by variantId|condition
+export interface InventoryChange {
+  type: InventoryChangeType;
+  key: string;
+  name: string;
+  collection: string;
+  foil: boolean;
+  condition: string;
+  before?: InventoryListingState;
+  after?: InventoryListingState;
+}
+
+export interface InventoryDiff {
+  fromDate: string;
+  toDate: string;
+  changes: InventoryChange[];
+  counts: Record<InventoryChangeType, number>;
+}
+
+// Price history (see lib/price-history.ts)
+export interface PricePoint {
+  date: string; // when the price was observed (inventory lastUpdated or lookup time)
+  price: number; // in euro cents
+  stock?: number;
+}
+
+export interface PriceHistorySeries {
+  points: PricePoint[]; // oldest first, one point per price/stock change
+  lastSeen: string; // last time the unchanged price was observed
+}
+
+export interface PriceHistory {
+  listings: Record<string, PriceHistorySeries>; // keyed by variantId|condition (older files: name|collection|foil|condition)
+  scryfall: Record<string, PriceHistorySeries>; // keyed by scryfallId|foil
+  updatedAt: string;
+}
+
+// Link from an Outpost variant to a Scryfall card and printing (see lib/card-identity.ts)
+export type CardIdentitySource = 'auto' | 'manual';
+
+export interface CardIdentity {
+  variantId: string;
+  oracleId: string | null; // Scryfall oracle_id, the same for every printing
+  printingId: string; // Scryfall id of the best-guess printing
+  setCode: string; // Scryfall set code of that printing (lowercase)
+  collectorNumber?: string; // of that printing; links made before it was stored have none
+  confidence: number; // 0-1; manual links are always 1
+  source: CardIdentitySource;
+  resolvedAt: string;
+}
+
+export interface CardIdentityMap {
+  identities: Record<string, CardIdentity>; // keyed by variantId
+  updatedAt: string;
+}
+
+// Search box autocomplete entry
+export interface SearchSuggestion {
+  type: 'card' | 'collection' | 'set';
+  value: string;
+  label: string;
+  count?: number;
+  extra?: string;
+}
+
+// Locally imported Scryfall bulk data file (see lib/scryfall-bulk.ts)
+// default_cards has every printing, oracle_cards one printing per card
+export type ScryfallBulkKind = 'default_cards' | 'oracle_cards';
+
+export interface ScryfallBulkStatus {
+  kind: ScryfallBulkKind;
+  fileName: string;
+  cardCount: number;
+  importedAt: string;
+}
+
+export interface ScryfallBulkProgress {
+  bytesRead: number;
+  totalBytes: number;
+  cardsImported: number;
+}
+
+// Deck lists imported from pasted text or files (see lib/deck-import.ts)
+export type DeckBoard = 'mainboard' | 'sideboard' | 'commanders' | 'maybeboard';
+
+export type DeckListFormat = 'text' | 'arena' | 'mtgo-dek' | 'moxfield-csv' | 'archidekt-csv' | 'csv';
+
+export interface DeckCard {
+  name: string;
+  quantity: number;
+  board: DeckBoard;
+  set?: string;
+  foil?: boolean;
+  collectorNumber?: string;
+}
+
+export interface ParsedDeck {
+  name: string;
+  format: string;
+  cards: DeckCard[];
+  totalCards: number;
+}
+
+// A line (or CSV row) that could not be read as a card
+export interface DeckImportIssue {
+  line: number; // 1-based
+  text: string;
+  reason: string;
+}
+
+export interface DeckImportResult {
+  deck: ParsedDeck;
+  source: DeckListFormat;
+  skipped: DeckImportIssue[];
+}
+
+// Deck analysis state carried by share links (see lib/deck-share.ts)
+export interface DeckShareView {
+  sortBy: string;
+  sortDirection: 'asc' | 'desc';
+  hiddenCards: string[]; // deckEntryKey of each hidden card
+}
+
+// How closely bought copies follow the printing a deck list names (see lib/printing-match.ts)
+export interface PrintingOptions {
+  matchCardStyle: boolean; // buy the deck list's printing first, then its set, then any printing
+  aggressiveArtMatching: boolean; // only buy the deck list's printing or its set
+}
+
+export interface DeckShareState extends PrintingOptions {
+  deckName: string;
+  cards: DeckCard[];
+  excludeBasicLands: boolean;
+  view: DeckShareView;
+}
+
 // Moxfield deck structure
 export interface MoxfieldCard {
   id: string;
   name: string;
   set: string;
   quantity: number;
+  foil?: boolean; // foil or etched finish
+  collectorNumber?: string;
+  scryfallId?: string;
   commanderQuantity?: number;
   sideboardQuantity?: number;
   maybeboardQuantity?: number;
@@ -66,6 +313,33 @@ export interface MoxfieldDeck {
 }
 
 // Card availability checking
+export type NameMatchType = 'exact' | 'normalized' | 'face' | 'fuzzy';
+
+// An Outpost listing against the deck list's printing: set code and collector number, the set only, or neither
+export type PrintingMatch = 'exact' | 'set' | 'any';
+
+export interface DeckPrinting {
+  set: string; // set code as written in the deck list
+  collectorNumber?: string;
+}
+
+// How a deck card found its Outpost listings, see lib/card-names.ts and lib/match-corrections.ts
+export interface DeckCardMatch {
+  type: NameMatchType | 'manual' | 'not-stocked' | 'none';
+  score: number; // name similarity from 0 to 1, below 1 only for fuzzy matches
+  matchedNames: string[]; // Outpost names of availableCards
+  candidates: string[]; // other Outpost names it might be, closest first
+}
+
+// A deck card name matched to an Outpost name by hand, or marked as not stocked (outpostName null)
+export interface MatchCorrection {
+  deckCardName: string;
+  outpostName: string | null;
+  correctedAt: string;
+}
+
+export type MatchCorrections = Record<string, MatchCorrection>; // by cardNameKey of the deck card name
+
 export interface CardAvailability {
   cardName: string;
   requestedQuantity: number;
@@ -74,9 +348,92 @@ export interface CardAvailability {
   cheapestPrice: number;
   averagePrice: number;
   isFullyAvailable: boolean;
+  board: DeckBoard;
+  requestedFoil?: boolean; // the deck list's finish, when it has one
+  ownedQuantity: number; // copies covered by the user's collection, not bought
+  purchasePlan: PurchasePlan; // for requestedQuantity - ownedQuantity copies
+  nameMatch: DeckCardMatch;
+  requestedPrinting?: DeckPrinting; // when the deck list names one
+  printingMatch: PrintingMatch | null; // least matching printing bought; null without a requested printing or purchase
+}
+
+// Copies bought from one listing (a variant in one condition), see lib/purchase-allocation.ts
+export interface PurchaseLine {
+  card: OutpostCard;
+  condition: CardCondition;
+  quantity: number;
+  unitPrice: number; // euros
+  subtotal: number; // euros
+}
+
+export interface PurchasePlan {
+  lines: PurchaseLine[];
+  quantity: number; // copies the plan covers
+  shortfall: number; // requested copies not in stock
+  totalCost: number; // euros
+}
+
+// What the user is willing to buy (see lib/purchase-policy.ts)
+// 'match' follows the deck list's *F* marker; 'balanced' takes a worse condition when it is enough cheaper
+export type FoilPreference = 'any' | 'never' | 'prefer' | 'require' | 'match';
+
+export type PriceQualityTradeoff = 'quality' | 'balanced' | 'price';
+
+export interface PurchasePolicy {
+  minCondition: string; // worst acceptable condition, e.g. 'NM/M' or 'HP'
+  foil: FoilPreference;
+  tradeoff: PriceQualityTradeoff;
+}
+
+// The user's own cards, see lib/collection.ts
+export interface OwnedCard {
+  key: string; // name, printing and finish
+  name: string;
+  set?: string;
+  collectorNumber?: string;
+  foil: boolean;
+  quantity: number;
+}
+
+// How deck analysis uses the collection: not at all, any printing of a card, or only the printing the deck list names
+export type CollectionMatching = 'off' | 'name' | 'printing';
+
+// Budget mode of the deck analysis (see lib/budget-optimizer.ts)
+// 'coverage' buys as many copies as possible, 'priority' weighs each copy by its card's priority
+export type BudgetGoal = 'coverage' | 'priority';
+
+export interface BudgetPick {
+  card: CardAvailability;
+  plan: PurchasePlan;
+}
+
+export interface BudgetLeftOut {
+  card: CardAvailability;
+  quantity: number; // copies not bought
+  reason: 'budget' | 'unavailable' | 'skipped';
+}
+
+export interface BudgetPlan {
+  budget: number; // euros
+  spent: number;
+  picks: BudgetPick[];
+  leftOut: BudgetLeftOut[];
+  copiesRequested: number;
+  copiesCovered: number;
+}
+
+// Totals for one board, or for the boards being counted (see lib/deck-boards.ts)
+export interface BoardTotals {
+  totalCards: number; // copies
+  availableCards: number;
+  missingCards: number;
+  ownedCopies: number; // copies the collection covers
+  missingCopies: number; // copies no listing has in stock
+  totalCost: number; // cost of the purchase plans
 }
 
 // Deck analysis results
+// The top-level totals cover DEFAULT_INCLUDED_BOARDS, so the maybeboard does not inflate the cost
 export interface DeckAnalysis {
   deckId: string;
   deckName: string;
@@ -84,10 +441,93 @@ export interface DeckAnalysis {
   availableCards: number;
   missingCards: number;
   totalCost: number;
+  boards: Record<DeckBoard, BoardTotals>;
   cardAvailability: CardAvailability[];
   lastAnalyzed: string;
 }
 
+// Copies each deck takes from one listing in a combined analysis
+export interface DeckQuantity {
+  deckId: string;
+  deckName: string;
+  quantity: number;
+}
+
+// A listing bought for one or more decks
+export interface CombinedPurchaseLine extends PurchaseLine {
+  cardName: string;
+  decks: DeckQuantity[];
+}
+
+// A card wanted by more than one deck
+export interface DeckOverlap {
+  cardName: string;
+  decks: DeckQuantity[]; // copies requested per deck
+  requested: number;
+  owned: number;
+  bought: number;
+}
+
+// Several decks analyzed together against the same stock, see lib/deck-analysis.ts
+// Shopping list, overlap and totals cover DEFAULT_INCLUDED_BOARDS of every deck
+export interface MultiDeckAnalysis {
+  decks: DeckAnalysis[];
+  shoppingList: CombinedPurchaseLine[];
+  overlap: DeckOverlap[];
+  totalCopies: number;
+  ownedCopies: number;
+  missingCopies: number;
+  totalCost: number;
+  lastAnalyzed: string;
+}
+
+// Saved deck library, see lib/deck-library.ts
+export interface SavedDeckOptions extends PrintingOptions {
+  excludeBasicLands: boolean;
+}
+
+// What one deck entry looked like when the deck was last analyzed
+export interface DeckSnapshotCard {
+  key: string; // deckEntryKey
+  cardName: string;
+  board: DeckBoard;
+  requestedQuantity: number;
+  ownedQuantity: number;
+  buying: number;
+  shortfall: number;
+  totalAvailable: number;
+  unitPrice: number; // euros, cheapest accepted listing
+  totalCost: number;
+}
+
+// A DeckAnalysis without the Outpost listings, small enough to keep for every saved deck
+export interface DeckSnapshot {
+  analyzedAt: string;
+  inventoryUpdated: string | null; // lastDataRefresh of the inventory it was analyzed against
+  totals: BoardTotals; // counted boards
+  cards: DeckSnapshotCard[];
+}
+
+export type DeckChangeKind = 'available' | 'price-drop' | 'sold-out';
+
+export interface DeckChange {
+  kind: DeckChangeKind;
+  cardName: string;
+  board: DeckBoard;
+  before: number; // copies or euros, depending on the kind
+  after: number;
+}
+
+export interface SavedDeck {
+  id: string;
+  name: string;
+  cards: DeckCard[];
+  options: SavedDeckOptions;
+  savedAt: string;
+  lastAnalysis: DeckSnapshot | null;
+  changes: DeckChange[]; // between the previous analysis and lastAnalysis
+}
+
 // Shopping basket functionality
 export interface BasketItem {
   card: OutpostCard;
@@ -95,7 +535,7 @@ export interface BasketItem {
   quantity: number;
   addedAt: string;
   // Create a unique key for basket items since same card can exist in different collections/foil variants/conditions
-  id: string; // Format: `${card.name}-${card.collection}-${card.foil}-${condition.condition}`
+  id: string; // Format: `${card.variantId}-${condition.condition}`
 }
 
 export interface BasketSummary {
@@ -119,9 +559,19 @@ export interface AppState {
   outpostData: OutpostCard[];
   isLoading: boolean;
   lastDataRefresh: string | null;
+  inventoryReport: InventoryValidationReport | null;
+  inventoryApiAvailable: boolean | null; // null until /api/inventory has been probed
+  inventoryOverview: InventoryOverview | null; // set by the probe
   currentDeck: MoxfieldDeck | null;
   deckAnalysis: DeckAnalysis | null;
+  decks: MoxfieldDeck[]; // every deck analyzed together; currentDeck is one of them
+  multiDeckAnalysis: MultiDeckAnalysis | null; // set when more than one deck is loaded
   searchTerm: string;
+  purchasePolicy: PurchasePolicy;
+  collection: OwnedCard[];
+  collectionMatching: CollectionMatching;
+  matchCorrections: MatchCorrections;
+  savedDecks: SavedDeck[];
   
   // Basket state
   basket: BasketItem[];
@@ -132,9 +582,25 @@ export interface AppState {
   
   // Actions
   loadOutpostData: () => Promise<void>;
+  ensureOutpostData: () => Promise<void>;
+  probeInventoryApi: () => Promise<boolean>;
+  setInventoryApiAvailable: (available: boolean) => void;
   setSearchTerm: (term: string) => void;
-  analyzeDeck: (deck: MoxfieldDeck, matchCardStyle?: boolean) => void;
+  analyzeDeck: (deck: MoxfieldDeck, printing?: PrintingOptions, mode?: 'replace' | 'add') => void;
+  reanalyzeDecks: (printing?: PrintingOptions) => void;
+  selectDeck: (deckId: string) => void;
+  removeDeck: (deckId: string, printing?: PrintingOptions) => void;
   clearDeck: () => void;
+  setPurchasePolicy: (policy: PurchasePolicy) => void;
+  loadCollection: () => Promise<void>;
+  importCollection: (cards: DeckCard[], mode: 'replace' | 'add') => Promise<void>;
+  clearCollection: () => Promise<void>;
+  setCollectionMatching: (matching: CollectionMatching) => void;
+  setMatchCorrections: (corrections: MatchCorrections) => void;
+  loadDeckLibrary: () => Promise<void>;
+  saveDeckToLibrary: (deck: SavedDeck) => Promise<void>;
+  deleteSavedDeck: (deckId: string) => Promise<void>;
+  reanalyzeDeckLibrary: () => Promise<void>;
   refreshData: () => Promise<void>;
   
   // Basket actions
@@ -1,6 +1,7 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { OutpostCard, MoxfieldDeck } from './types';
+import { isMoxfieldDeckId } from './moxfield';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -33,19 +34,23 @@ export function formatDate(dateString: string): string {
   });
 }
 
-// Parse Moxfield deck URL to extract deck ID
+// Parse Moxfield deck URL to extract deck ID (a bare deck ID is accepted too)
 export function parseMoxfieldUrl(url: string): string | null {
   // Match both formats: /decks/deckId and /decks/username/deckId
   const match = url.match(/moxfield\.com\/decks\/(?:[^/]+\/)?([a-zA-Z0-9_-]+)/);
-  return match ? match[1] : null;
+  if (match) return match[1];
+
+  const trimmed = url.trim();
+  return isMoxfieldDeckId(trimmed) ? trimmed : null;
 }
 
-// Fetch deck data from Moxfield API
+// Fetch deck data through our Moxfield proxy route (Moxfield does not allow browser requests)
 export async function fetchMoxfieldDeck(deckId: string): Promise<MoxfieldDeck> {
-  const response = await fetch(`https://api2.moxfield.com/v3/decks/all/${deckId}`);
-  
+  const response = await fetch(`/api/moxfield/${encodeURIComponent(deckId)}`);
+
   if (!response.ok) {
-    throw new Error(`Failed to fetch deck: ${response.status}`);
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Failed to fetch deck: ${response.status}`);
   }
 
   return response.json();
@@ -77,3 +82,21 @@ export function searchCards(cards: OutpostCard[], searchTerm: string): OutpostCa
            set.includes(query);
   });
 }
+
+// Save generated text as a file through a temporary link
+export function downloadTextFile(fileName: string, content: string, mimeType = 'text/plain') {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// File name safe version of a deck or card name
+export function fileNameSlug(name: string, fallback = 'deck'): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || fallback;
+}
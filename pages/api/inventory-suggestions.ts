@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SearchSuggestion } from '@/lib/types';
+import { loadServerInventory } from '@/lib/inventory-server';
+import { suggestInventory } from '@/lib/search-index';
+
+// GET /api/inventory-suggestions?q=
+// Search box suggestions for clients that use /api/inventory instead of downloading the inventory
+export default function handler(req: NextApiRequest, res: NextApiResponse<{ suggestions: SearchSuggestion[] } | { error: string }>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const term = typeof req.query.q === 'string' ? req.query.q : '';
+
+  let inventory;
+  try {
+    inventory = loadServerInventory();
+  } catch (error) {
+    console.error('Inventory suggestions API: failed to load inventory:', error);
+    return res.status(503).json({ error: 'Inventory data is not available' });
+  }
+
+  res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
+  return res.status(200).json({ suggestions: term.length < 2 ? [] : suggestInventory(inventory.cards, term) });
+}
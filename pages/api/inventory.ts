@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { InventoryPage } from '@/lib/types';
+import { loadServerInventory } from '@/lib/inventory-server';
+import { listCollections, parseInventoryQueryParams, queryInventory } from '@/lib/inventory-query';
+
+// GET /api/inventory?q=&group=name&rarity=&condition=&collection=&minPrice=&maxPrice=&foil=1&available=1&sort=&dir=&page=&pageSize=&facets=1
+// facets=1 adds every collection name, for clients that do not download the inventory
+export default function handler(req: NextApiRequest, res: NextApiResponse<InventoryPage | { error: string }>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let inventory;
+  try {
+    inventory = loadServerInventory();
+  } catch (error) {
+    console.error('Inventory API: failed to load inventory:', error);
+    return res.status(503).json({ error: 'Inventory data is not available' });
+  }
+
+  const query = parseInventoryQueryParams(req.query);
+  const page = queryInventory(inventory.cards, query);
+
+  res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
+  const collections = req.query.facets === '1' ? listCollections(inventory.cards) : undefined;
+  return res.status(200).json({ ...page, lastUpdated: inventory.lastUpdated, collections });
+}
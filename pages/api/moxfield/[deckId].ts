@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { MoxfieldDeck } from '@/lib/types';
+import { DEFAULT_MOXFIELD_API_URL, MoxfieldDeckNotFoundError, fetchMoxfieldDeckUpstream, isMoxfieldDeckId } from '@/lib/moxfield';
+
+// Decks are fetched again after this long
+const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const MAX_CACHED_DECKS = 200;
+
+const cache = new Map<string, { deck: MoxfieldDeck; fetchedAt: number }>();
+
+function cacheDeck(deckId: string, deck: MoxfieldDeck) {
+  cache.delete(deckId);
+  cache.set(deckId, { deck, fetchedAt: Date.now() });
+
+  // Maps iterate in insertion order, so the first key is the oldest
+  if (cache.size > MAX_CACHED_DECKS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+// GET /api/moxfield/:deckId - a Moxfield deck fetched on the server (browsers are blocked by CORS)
+// MOXFIELD_API_URL overrides the upstream, e.g. to point at a local stub
+export default async function handler(req: NextApiRequest, res: NextApiResponse<MoxfieldDeck | { error: string }>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const deckId = typeof req.query.deckId === 'string' ? req.query.deckId : '';
+  if (!isMoxfieldDeckId(deckId)) {
+    return res.status(400).json({ error: 'Invalid Moxfield deck ID' });
+  }
+
+  const cached = cache.get(deckId);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    return res.status(200).json(cached.deck);
+  }
+
+  try {
+    const deck = await fetchMoxfieldDeckUpstream(deckId, process.env.MOXFIELD_API_URL || DEFAULT_MOXFIELD_API_URL);
+    cacheDeck(deckId, deck);
+
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    return res.status(200).json(deck);
+  } catch (error: any) {
+    if (error instanceof MoxfieldDeckNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    console.error(`Moxfield API: failed to fetch deck ${deckId}:`, error.message);
+
+    // Better an older copy than nothing when Moxfield is down
+    if (cached) {
+      return res.status(200).json(cached.deck);
+    }
+    return res.status(502).json({ error: 'Could not reach Moxfield, please try again later' });
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { PriceHistorySeries } from '@/lib/types';
+import { loadServerPriceHistory } from '@/lib/price-history-server';
+import { listingSeriesForCard } from '@/lib/price-history';
+
+type PriceHistoryResponse = { conditions: Record<string, PriceHistorySeries>; updatedAt: string };
+
+// GET /api/price-history?variantId=&name=&collection=&foil=1
+// name, collection and foil find history recorded before listings were keyed by variant
+export default function handler(req: NextApiRequest, res: NextApiResponse<PriceHistoryResponse | { error: string }>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const variantId = typeof req.query.variantId === 'string' ? req.query.variantId : '';
+  const name = typeof req.query.name === 'string' ? req.query.name : '';
+  const collection = typeof req.query.collection === 'string' ? req.query.collection : '';
+  if (!variantId) {
+    return res.status(400).json({ error: 'Missing variant ID' });
+  }
+
+  let history;
+  try {
+    history = loadServerPriceHistory();
+  } catch (error) {
+    console.error('Price history API: failed to load history:', error);
+    return res.status(503).json({ error: 'Price history is not available' });
+  }
+
+  const conditions = listingSeriesForCard(history, { variantId, name, collection, foil: req.query.foil === '1' });
+
+  res.setHeader('Cache-Control', 'public, max-age=300, stale-while-revalidate=3600');
+  return res.status(200).json({ conditions, updatedAt: history.updatedAt });
+}
@@ -0,0 +1,38 @@
+import fs from 'fs';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { InventorySnapshotManifest } from '@/lib/types';
+import { loadSnapshotManifest, snapshotFilePath } from '@/lib/inventory-snapshots';
+
+// Snapshots are full stock files, larger than Next's default response limit
+export const config = { api: { responseLimit: false } };
+
+// GET /api/snapshots lists the saved scrapes; GET /api/snapshots?id= returns one of them
+export default function handler(req: NextApiRequest, res: NextApiResponse<InventorySnapshotManifest | { error: string }>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+
+  const manifest = loadSnapshotManifest();
+  if (!id) {
+    res.setHeader('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
+    return res.status(200).json(manifest);
+  }
+
+  const file = snapshotFilePath(manifest, id);
+  if (!file || !fs.existsSync(file)) {
+    return res.status(404).json({ error: 'Unknown snapshot' });
+  }
+
+  // A snapshot never changes once written
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'public, max-age=86400, immutable');
+  fs.createReadStream(file)
+    .on('error', error => {
+      console.error(`Snapshots API: failed to read ${file}:`, error);
+      res.end();
+    })
+    .pipe(res);
+}
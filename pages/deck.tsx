@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import useStore from '@/lib/store';
+import { loadPurchasePolicy } from '@/lib/purchase-policy';
+import { loadMatchCorrections } from '@/lib/match-corrections';
+import DeckAnalysis from '@/components/DeckAnalysis';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import ShoppingCart from '@/components/ShoppingCart';
+import { Toaster } from '@/components/ui/sonner';
+import { Button } from '@/components/ui/button';
+import { ArrowLeftIcon, ShoppingCartIcon } from 'lucide-react';
+
+// Shared deck analysis links (/deck?d=...); DeckAnalysis restores the deck once the inventory has loaded
+export default function SharedDeck() {
+  const { outpostData, isLoading, ensureOutpostData, setPurchasePolicy, setMatchCorrections, loadCollection, loadDeckLibrary, isBasketOpen, toggleBasket, getBasketSummary } = useStore();
+
+  const basketSummary = getBasketSummary();
+
+  useEffect(() => {
+    setPurchasePolicy(loadPurchasePolicy());
+    setMatchCorrections(loadMatchCorrections());
+    loadCollection();
+    loadDeckLibrary();
+  }, [setPurchasePolicy, setMatchCorrections, loadCollection, loadDeckLibrary]);
+
+  useEffect(() => {
+    ensureOutpostData();
+  }, [ensureOutpostData]);
+
+  return (
+    <>
+      <Head>
+        <title>Shared Deck - Outpost MTG Inventory Checker</title>
+        <meta name="description" content="A shared deck checked against the Outpost Gaming Belgium inventory" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+
+      <div className="min-h-screen bg-background">
+        <header className="border-b bg-white/80 dark:bg-gray-900/80 backdrop-blur-lg shadow-sm">
+          <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="flex justify-between items-center h-16">
+              <Link href="/" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+                <ArrowLeftIcon className="h-4 w-4" />
+                Outpost MTG Inventory Checker
+              </Link>
+              <Button variant="outline" size="sm" onClick={toggleBasket}>
+                <ShoppingCartIcon className="h-4 w-4 mr-0 sm:mr-2" />
+                <span className="hidden sm:inline">Cart</span>
+                {basketSummary.totalItems > 0 && ` (${basketSummary.totalItems})`}
+              </Button>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {isLoading && outpostData.length === 0 ? (
+            <div className="flex items-center justify-center gap-3 py-16 text-muted-foreground">
+              <LoadingSpinner size="lg" />
+              Loading the inventory...
+            </div>
+          ) : (
+            <DeckAnalysis />
+          )}
+        </main>
+
+        <ShoppingCart isOpen={isBasketOpen} onClose={() => toggleBasket()} />
+        <Toaster />
+      </div>
+    </>
+  );
+}
@@ -1,12 +1,18 @@
 import { useState, useEffect } from 'react';
 import Head from 'next/head';
+import { useRouter } from 'next/router';
 import useStore from '@/lib/store';
-import { fetchMoxfieldDeck, parseMoxfieldUrl, formatDate } from '@/lib/utils';
+import { formatDate } from '@/lib/utils';
+import { loadPurchasePolicy } from '@/lib/purchase-policy';
+import { loadMatchCorrections } from '@/lib/match-corrections';
+import { DECK_SHARE_PARAM } from '@/lib/deck-share';
 import DeckAnalysis from '@/components/DeckAnalysis';
 import CardSearch from '@/components/CardSearch';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import CollectionStatus from '@/components/CollectionStatus';
 import ShoppingCart from '@/components/ShoppingCart';
+import InventoryReport from '@/components/InventoryReport';
+import InventoryChanges from '@/components/InventoryChanges';
 import { Toaster } from '@/components/ui/sonner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -16,52 +22,39 @@ import { ShoppingCartIcon, RefreshCwIcon } from 'lucide-react';
 import { Analytics } from "@vercel/analytics/next"
 
 export default function Home() {
-  const [deckUrl, setDeckUrl] = useState('');
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [activeTab, setActiveTab] = useState<'deck' | 'search' | 'collections'>('search');
-  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'deck' | 'search' | 'collections' | 'changes'>('search');
   const [isHydrated, setIsHydrated] = useState(false);
 
-  const { analyzeDeck, deckAnalysis, currentDeck, outpostData, isLoading, lastDataRefresh, refreshData, loadOutpostData, isBasketOpen, toggleBasket, getBasketSummary, removeToast } = useStore();
+  const { outpostData, isLoading, lastDataRefresh, inventoryReport, refreshData, inventoryApiAvailable, inventoryOverview, probeInventoryApi, ensureOutpostData, setPurchasePolicy, setMatchCorrections, loadCollection, loadDeckLibrary, isBasketOpen, toggleBasket, getBasketSummary, removeToast } = useStore();
   
   const basketSummary = getBasketSummary();
 
   // Track hydration to prevent server/client mismatch
+  // (the saved purchase policy and collection are only read once hydrated, for the same reason)
   useEffect(() => {
     setIsHydrated(true);
-  }, []);
+    setPurchasePolicy(loadPurchasePolicy());
+    setMatchCorrections(loadMatchCorrections());
+    loadCollection();
+    loadDeckLibrary();
+  }, [setPurchasePolicy, setMatchCorrections, loadCollection, loadDeckLibrary]);
 
-  // Load data on page mount
+  // Share links also work on the main page (/?d=...)
+  const router = useRouter();
+  const hasSharedDeck = Boolean(router.query[DECK_SHARE_PARAM]);
   useEffect(() => {
-    loadOutpostData();
-  }, [loadOutpostData]);
+    if (hasSharedDeck) setActiveTab('deck');
+  }, [hasSharedDeck]);
 
-  const handleAnalyzeDeck = async () => {
-    if (!deckUrl.trim()) {
-      setError('Please enter a Moxfield deck URL');
-      return;
-    }
-
-    const deckId = parseMoxfieldUrl(deckUrl);
-    if (!deckId) {
-      setError('Invalid Moxfield URL. Please enter a valid deck URL.');
-      return;
-    }
-
-    setIsAnalyzing(true);
-    setError(null);
+  // Card search goes through the inventory API when it answers; the full inventory is then only
+  // downloaded by the tabs that need it (deck analysis, collection status)
+  useEffect(() => {
+    probeInventoryApi();
+  }, [probeInventoryApi]);
 
-    try {
-      const deck = await fetchMoxfieldDeck(deckId);
-      analyzeDeck(deck);
-      setActiveTab('deck'); // Switch to deck analysis tab
-    } catch (err) {
-      setError('Failed to analyze deck. Please try again.');
-      console.error('Error analyzing deck:', err);
-    } finally {
-      setIsAnalyzing(false);
-    }
-  };
+  useEffect(() => {
+    if (inventoryApiAvailable === false) ensureOutpostData();
+  }, [inventoryApiAvailable, ensureOutpostData]);
 
   const handleRefresh = async () => {
     await refreshData();
@@ -126,8 +119,10 @@ export default function Home() {
 
         {/* Main Content */}
         <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {isHydrated && <InventoryReport report={inventoryReport} />}
+
           <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as any)}>
-            <TabsList className="grid w-full grid-cols-3 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-gray-800 dark:to-gray-900 border-gray-200/50 dark:border-gray-700/50 shadow-sm backdrop-blur-sm">
+            <TabsList className="grid w-full grid-cols-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-gray-800 dark:to-gray-900 border-gray-200/50 dark:border-gray-700/50 shadow-sm backdrop-blur-sm">
               <TabsTrigger 
                 value="deck" 
                 className="data-[state=active]:bg-white dark:data-[state=active]:bg-gray-800 data-[state=active]:shadow-md transition-all duration-300"
@@ -141,7 +136,7 @@ export default function Home() {
                 Card Search
                 {isHydrated && (
                   <Badge variant="secondary" className="ml-2 bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 shadow-sm">
-                    {outpostData.length.toLocaleString()}
+                    {(outpostData.length || inventoryOverview?.total || 0).toLocaleString()}
                   </Badge>
                 )}
               </TabsTrigger>
@@ -151,6 +146,12 @@ export default function Home() {
               >
                 Collection Status
               </TabsTrigger>
+              <TabsTrigger 
+                value="changes"
+                className="data-[state=active]:bg-white dark:data-[state=active]:bg-gray-800 data-[state=active]:shadow-md transition-all duration-300"
+              >
+                What Changed
+              </TabsTrigger>
             </TabsList>
 
             <div className="mt-6">
@@ -165,6 +166,10 @@ export default function Home() {
               <TabsContent value="collections" className="animate-in fade-in-50 duration-300">
                 <CollectionStatus />
               </TabsContent>
+
+              <TabsContent value="changes" className="animate-in fade-in-50 duration-300">
+                <InventoryChanges />
+              </TabsContent>
             </div>
           </Tabs>
         </main>
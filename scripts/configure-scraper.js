@@ -83,10 +83,10 @@ function showCurrentConfig() {
 }
 
 function updateScraperScript(updates) {
-  const scraperPath = path.join(__dirname, 'scrape-outpost.js');
+  const scraperPath = path.join(__dirname, 'scrape-outpost.ts');
   
   if (!fs.existsSync(scraperPath)) {
-    console.error('❌ scrape-outpost.js not found!');
+    console.error('❌ scrape-outpost.ts not found!');
     return false;
   }
   
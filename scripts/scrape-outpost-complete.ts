@@ -0,0 +1,210 @@
+import fs from 'fs';
+import path from 'path';
+import { OutpostCard } from '../lib/types';
+import {
+  OutpostCollection,
+  createAxiosTransport,
+  parseCatalogCollections,
+  checkCollection,
+  describeScrapeResult,
+  buildInventoryOutput,
+  delay
+} from '../lib/outpost-scraper';
+import { cardNameKey } from '../lib/card-variants';
+import { saveInventorySnapshot } from '../lib/inventory-snapshots';
+import { updatePriceHistoryFile } from '../lib/price-history-server';
+import { ScrapeState, loadScrapeState, saveScrapeState, toCollectionStatus } from '../lib/scrape-state';
+
+// Configuration
+const config = {
+  maxCardsPerCollection: null,           // No limit - get ALL cards
+  delayBetweenRequests: 1000,            // 1 second between requests
+  delayBetweenCollections: 1500,         // 1.5 seconds between collections
+  batchSize: 25,                         // Save scrape state every 25 checks
+  maxRetries: 3,                         // Retry failed requests
+  timeoutMs: 30000,                      // 30 second timeout
+};
+
+// Every run checks every collection: stock can change anywhere at any time (a sale, a restock), and an
+// unchanged page costs a 304 or a fingerprint match. --full ignores validators and fingerprints and re-scrapes everything
+const fullRun = process.argv.includes('--full');
+
+const statePath = path.join(__dirname, '..', 'scrape-state.json');
+const outputPath = path.join(__dirname, '..', 'public', 'outpost-stock.json');
+
+const transport = createAxiosTransport({ timeoutMs: config.timeoutMs });
+
+// Function to parse collections from the saved catalog page
+function parseCollectionsFromHTML(): OutpostCollection[] {
+  console.log('Parsing collections from outpost.html...');
+
+  const htmlPath = path.join(__dirname, '..', 'outpost.html');
+  if (!fs.existsSync(htmlPath)) {
+    console.error('outpost.html file not found!');
+    return [];
+  }
+
+  const collections = parseCatalogCollections(fs.readFileSync(htmlPath, 'utf8'));
+  console.log(`Found ${collections.length} unique collections`);
+  return collections;
+}
+
+type CheckOutcome = 'changed' | 'unchanged' | 'not-modified' | 'failed';
+
+// Check one collection and update its entry in the scrape state
+async function refreshCollection(state: ScrapeState, collection: OutpostCollection): Promise<CheckOutcome> {
+  const previous = state.collections[collection.id];
+
+  try {
+    const check = await checkCollection(transport, collection, fullRun ? undefined : previous, {
+      maxCards: config.maxCardsPerCollection,
+      maxRetries: config.maxRetries,
+      retryDelayMs: config.delayBetweenRequests
+    });
+    const checkedAt = new Date().toISOString();
+
+    if (previous && check.status !== 'changed') {
+      state.collections[collection.id] = {
+        ...previous,
+        name: collection.name,
+        validators: check.status === 'unchanged' ? check.validators : previous.validators,
+        lastScraped: checkedAt
+      };
+      return check.status;
+    }
+    if (check.status === 'not-modified') {
+      return 'failed'; // Only possible when validators from a previous scrape were sent
+    }
+
+    console.log(describeScrapeResult(check.result));
+    state.collections[collection.id] = {
+      id: collection.id,
+      name: collection.name,
+      fingerprint: check.fingerprint,
+      validators: check.validators,
+      cards: check.result.cards,
+      cardCount: check.result.cards.length,
+      lastScraped: checkedAt,
+      // A forced full run re-scrapes everything, but only a different fingerprint counts as a change
+      lastChanged: previous && previous.fingerprint === check.fingerprint ? previous.lastChanged : checkedAt
+    };
+    return 'changed';
+  } catch (error: any) {
+    console.log(`⚠️  Failed to scrape ${collection.name} after ${config.maxRetries} attempts: ${error.message}`);
+    return 'failed';
+  }
+}
+
+// Main scraping function
+export async function scrapeAllCollections() {
+  const startTime = Date.now();
+  console.log('🚀 Starting incremental Outpost scraping...');
+  console.log(`Configuration: No card limit, ${config.delayBetweenCollections}ms delays${fullRun ? ', full run' : ''}`);
+
+  const state = loadScrapeState(statePath);
+
+  try {
+    const allCollections = parseCollectionsFromHTML();
+
+    if (allCollections.length === 0) {
+      console.log('❌ No collections found. Exiting.');
+      return;
+    }
+
+    console.log(`📋 Total collections: ${allCollections.length}`);
+
+    const outcomes: Record<CheckOutcome, number> = { 'changed': 0, 'unchanged': 0, 'not-modified': 0, 'failed': 0 };
+
+    for (let i = 0; i < allCollections.length; i++) {
+      const collection = allCollections[i];
+      const progressPercent = ((i + 1) / allCollections.length * 100).toFixed(1);
+
+      console.log(`\n[${i + 1}/${allCollections.length}] (${progressPercent}%) Checking: ${collection.name}`);
+
+      const outcome = await refreshCollection(state, collection);
+      outcomes[outcome]++;
+      if (outcome === 'unchanged' || outcome === 'not-modified') {
+        console.log(`⏩ ${collection.name} unchanged, keeping ${state.collections[collection.id].cardCount} cards`);
+      }
+
+      // Rate limiting
+      if (i < allCollections.length - 1) {
+        await delay(config.delayBetweenCollections);
+      }
+
+      // Save state every batch so an interrupted run keeps the pages it already fetched
+      if ((i + 1) % config.batchSize === 0) {
+        saveScrapeState(state, statePath);
+        console.log(`💾 Scrape state saved after ${i + 1} checks`);
+      }
+    }
+
+    // Forget collections that are no longer in the catalog
+    const catalogIds = new Set(allCollections.map(c => c.id));
+    Object.keys(state.collections).forEach(id => {
+      if (!catalogIds.has(id)) delete state.collections[id];
+    });
+    saveScrapeState(state, statePath);
+
+    const collectionStates = allCollections
+      .map(c => state.collections[c.id])
+      .filter(collection => collection !== undefined);
+    // Every variant is kept; the app groups them by name
+    const allCards: OutpostCard[] = collectionStates.flatMap(collection => collection.cards);
+    const collectionsWithCards = collectionStates.filter(collection => collection.cardCount > 0).length;
+    const uniqueNames = new Set(allCards.map(card => cardNameKey(card.name))).size;
+
+    console.log(`\n🎯 Scraping Summary:`);
+    console.log(`├─ Collections changed: ${outcomes['changed']}`);
+    console.log(`├─ Collections unchanged: ${outcomes['unchanged'] + outcomes['not-modified']} (${outcomes['not-modified']} answered 304)`);
+    console.log(`├─ Failed checks: ${outcomes['failed']}`);
+    console.log(`├─ Total card variants: ${allCards.length}`);
+    console.log(`├─ Unique card names: ${uniqueNames}`);
+    console.log(`└─ Variants with stock: ${allCards.filter(c => c.stock > 0).length}`);
+
+    const completionPercentage = ((collectionStates.length / allCollections.length) * 100).toFixed(1);
+    const output = buildInventoryOutput(allCards, collectionsWithCards, {
+      totalCollections: allCollections.length,
+      completionPercentage,
+      collections: collectionStates.map(toCollectionStatus),
+      metadata: {
+        scrapeConfig: config,
+        lastRun: {
+          fullRun,
+          checked: allCollections.length,
+          ...outcomes
+        }
+      }
+    });
+
+    fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
+
+    // Only a run that changed something needs a new snapshot
+    if (outcomes['changed'] > 0) {
+      const snapshot = saveInventorySnapshot(output, { dir: path.join(__dirname, '..', 'snapshots') });
+      console.log(`Snapshot saved: snapshots/${snapshot.file}`);
+    }
+
+    // Extend the per-listing price timelines
+    updatePriceHistoryFile(output, path.join(__dirname, '..', 'price-history.json'));
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    console.log(`\n🎉 === Scraping Finished ===`);
+    console.log(`⏱️  Duration: ${duration} seconds`);
+    console.log(`📊 Collections with data: ${collectionStates.length}/${allCollections.length} (${completionPercentage}%)`);
+    console.log(`🃏 Total variants: ${allCards.length} (${uniqueNames} unique cards)`);
+    console.log(`💾 Output saved to: ${outputPath}`);
+
+  } catch (error) {
+    console.error('❌ Error in incremental scraping:', error);
+
+    // Keep what was checked so far; the next run only re-fetches pages that changed since
+    saveScrapeState(state, statePath);
+  }
+}
+
+// Run the scraper
+if (require.main === module) {
+  scrapeAllCollections();
+}
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { OutpostCard } from '../lib/types';
+import {
+  createAxiosTransport,
+  fetchCatalogCollections,
+  scrapeCollection,
+  describeScrapeResult,
+  buildInventoryOutput,
+  delay
+} from '../lib/outpost-scraper';
+import { cardNameKey } from '../lib/card-variants';
+import { saveInventorySnapshot } from '../lib/inventory-snapshots';
+import { updatePriceHistoryFile } from '../lib/price-history-server';
+
+// Scraper settings (see scripts/configure-scraper.js)
+const MAX_COLLECTIONS = 10; // Limit to prevent overwhelming the server
+const MAX_CARDS_PER_COLLECTION = 100;
+const DELAY_BETWEEN_REQUESTS = 1000;
+
+// Priority collections to scrape first (latest sets and popular formats)
+const PRIORITY_COLLECTIONS = [
+  'Final Fantasy',
+  'Foundations',
+  'Duskmourn',
+  'Bloomburrow',
+  'Modern Horizons 3',
+  'Outlaws of Thunder Junction',
+  'Murders at Karlov Manor',
+  'Commander',
+  'Secret Lair Drop Series'
+];
+
+const transport = createAxiosTransport({
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
+});
+
+// Main scraping function
+export async function scrapeOutpost() {
+  const startTime = Date.now();
+  console.log('Starting Outpost scraping...');
+
+  try {
+    console.log('Fetching catalog page...');
+    const collections = await fetchCatalogCollections(transport).catch(error => {
+      console.error('Error parsing collections:', error.message);
+      return [];
+    });
+    console.log(`Found ${collections.length} collections`);
+
+    if (collections.length === 0) {
+      console.log('No collections found. Exiting.');
+      return;
+    }
+
+    // Sort collections by priority
+    const sortedCollections = [...collections].sort((a, b) => {
+      const aIndex = PRIORITY_COLLECTIONS.findIndex(p => a.name.includes(p));
+      const bIndex = PRIORITY_COLLECTIONS.findIndex(p => b.name.includes(p));
+
+      if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
+      if (aIndex !== -1) return -1;
+      if (bIndex !== -1) return 1;
+      return 0;
+    });
+
+    let allCards: OutpostCard[] = [];
+    let processedCollections = 0;
+
+    // Scrape priority collections
+    for (const collection of sortedCollections.slice(0, MAX_COLLECTIONS)) {
+      console.log(`Scraping collection: ${collection.name} (ID: ${collection.id})`);
+      try {
+        const result = await scrapeCollection(transport, collection, { maxCards: MAX_CARDS_PER_COLLECTION });
+        console.log(describeScrapeResult(result));
+        allCards = allCards.concat(result.cards);
+      } catch (error: any) {
+        console.error(`Error scraping collection ${collection.name}:`, error.message);
+      }
+      processedCollections++;
+
+      // Rate limiting
+      await delay(DELAY_BETWEEN_REQUESTS);
+    }
+
+    // Every variant is kept; the app groups them by name
+    const uniqueNames = new Set(allCards.map(card => cardNameKey(card.name))).size;
+
+    console.log(`Total variants: ${allCards.length} (${uniqueNames} unique cards)`);
+    console.log(`Variants available (stock > 0): ${allCards.filter(c => c.stock > 0).length}`);
+    console.log(`Variants with valid prices: ${allCards.filter(c => c.price > 0).length}`);
+
+    // Data quality summary
+    const totalPrice = allCards.reduce((sum, card) => sum + card.price, 0);
+    const averagePrice = totalPrice / allCards.length / 100; // Convert to euros
+    const cardsWithStock = allCards.filter(card => card.stock > 0);
+    const totalStock = allCards.reduce((sum, card) => sum + card.stock, 0);
+    const prices = allCards.map(c => c.price);
+
+    console.log(`\n=== Data Quality Summary ===`);
+    console.log(`Cards with stock: ${cardsWithStock.length}`);
+    console.log(`Total stock across all cards: ${totalStock}`);
+    console.log(`Average price: €${averagePrice.toFixed(2)}`);
+    console.log(`Price range: €${Math.min(...prices) / 100} - €${Math.max(...prices) / 100}`);
+
+    const output = buildInventoryOutput(allCards, processedCollections, {
+      dataQuality: {
+        cardsWithStock: cardsWithStock.length,
+        totalStock: totalStock,
+        averagePrice: averagePrice,
+        priceRange: {
+          min: Math.min(...prices) / 100,
+          max: Math.max(...prices) / 100
+        }
+      }
+    });
+
+    // Save to public directory
+    const outputPath = path.join(__dirname, '..', 'public', 'outpost-stock.json');
+    fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
+
+    // Keep a dated copy so the "What Changed" view can compare scrapes
+    const snapshot = saveInventorySnapshot(output, { dir: path.join(__dirname, '..', 'snapshots') });
+    console.log(`Snapshot saved: snapshots/${snapshot.file}`);
+
+    // Extend the per-listing price timelines
+    updatePriceHistoryFile(output, path.join(__dirname, '..', 'price-history.json'));
+
+    const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+
+    console.log(`\n=== Scraping Complete ===`);
+    console.log(`Duration: ${duration} seconds`);
+    console.log(`Collections processed: ${processedCollections}`);
+    console.log(`Total variants: ${allCards.length}`);
+    console.log(`Output saved to: ${outputPath}`);
+
+    // Log some sample cards
+    if (allCards.length > 0) {
+      console.log('\nSample cards:');
+      allCards.slice(0, 5).forEach((card, i) => {
+        console.log(`${i + 1}. ${card.name} - ${card.set} - ${card.stock} in stock - ${card.priceFormatted}`);
+      });
+    }
+
+  } catch (error) {
+    console.error('Error in main scraping function:', error);
+  }
+}
+
+// Run the scraper
+if (require.main === module) {
+  scrapeOutpost();
+}
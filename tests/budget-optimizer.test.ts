@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BudgetPlan, CardAvailability, CardCondition, DeckCard, OutpostCard } from '../lib/types';
+import { optimizeBudget } from '../lib/budget-optimizer';
+import { DEFAULT_PURCHASE_POLICY } from '../lib/purchase-policy';
+import { analyzeDecks, deckFromCards } from '../lib/deck-analysis';
+import { deckEntryKey } from '../lib/deck-boards';
+
+// One Outpost variant per card name with the given condition listings, prices in cents
+function variant(name: string, conditions: [string, number, number][]): OutpostCard {
+  const listings: CardCondition[] = conditions.map(([condition, price, stock]) => ({ condition, price, stock, priceFormatted: '' }));
+  return {
+    variantId: `1:${name.toLowerCase().replace(/\W+/g, '-')}:nonfoil`,
+    name,
+    alphabet: name.charAt(0),
+    rarity: 'R',
+    foil: false,
+    colors: { white: false, blue: false, black: false, red: false, green: false, colorless: true },
+    collection: 'Test Set',
+    collectionId: '1',
+    conditions: listings,
+    price: Math.min(...listings.map(listing => listing.price)),
+    stock: listings.reduce((sum, listing) => sum + listing.stock, 0),
+    priceFormatted: ''
+  };
+}
+
+// The deck analysis the budget planner starts from
+function analyze(data: OutpostCard[], cards: [string, number][]): CardAvailability[] {
+  const deckCards: DeckCard[] = cards.map(([name, quantity]) => ({ name, quantity, board: 'mainboard' }));
+  return analyzeDecks([deckFromCards('Test', 'modern', deckCards)], data, DEFAULT_PURCHASE_POLICY).decks[0].cardAvailability;
+}
+
+const bought = (plan: BudgetPlan) => plan.picks.map(pick => [pick.card.cardName, pick.plan.quantity]);
+const conditionsOf = (plan: BudgetPlan, name: string) =>
+  plan.picks.find(pick => pick.card.cardName === name)?.plan.lines.map(line => `${line.condition.condition}×${line.quantity}`);
+
+describe('optimizeBudget', () => {
+  it('buys as many copies as the budget allows, cheapest conditions first', () => {
+    const cards = analyze([
+      variant('Ragavan', [['NM/M', 5000, 1]]),
+      variant('Lightning Bolt', [['NM/M', 300, 2], ['HP', 100, 2]]),
+      variant('Shock', [['NM/M', 50, 4]])
+    ], [['Ragavan', 1], ['Lightning Bolt', 4], ['Shock', 4]]);
+
+    const plan = optimizeBudget(cards, { budget: 5, goal: 'coverage' });
+
+    // The €1 left over buys neither another Bolt nor an upgrade
+    assert.deepEqual(bought(plan), [['Lightning Bolt', 2], ['Shock', 4]]);
+    assert.deepEqual(conditionsOf(plan, 'Lightning Bolt'), ['HP×2']);
+    assert.equal(plan.spent, 4);
+    assert.equal(plan.copiesRequested, 9);
+    assert.equal(plan.copiesCovered, 6);
+    assert.deepEqual(plan.leftOut.map(left => [left.card.cardName, left.quantity, left.reason]), [
+      ['Ragavan', 1, 'budget'],
+      ['Lightning Bolt', 2, 'budget']
+    ]);
+  });
+
+  it('never goes over budget, also when large budgets are solved in coarser steps', () => {
+    // Prices that do not divide evenly into the coarse steps of a €250+ budget
+    const data = Array.from({ length: 12 }, (_, index) =>
+      variant(`Card ${index}`, [['NM/M', 997 + index * 1301, 3], ['HP', 333 + index * 577, 2]])
+    );
+    const cards = analyze(data, data.map(card => [card.name, 4] as [string, number]));
+
+    [0, 0.5, 3.33, 17, 99.99, 250, 333.33, 1234.56].forEach(budget => {
+      const plan = optimizeBudget(cards, { budget, goal: 'coverage' });
+      const cost = plan.picks.reduce((sum, pick) => sum + Math.round(pick.plan.totalCost * 100), 0);
+
+      assert.ok(cost <= Math.round(budget * 100), `€${budget} budget spent €${cost / 100}`);
+      assert.equal(Math.round(plan.spent * 100), cost);
+    });
+  });
+
+  it('reports copies no budget can buy as unavailable', () => {
+    const cards = analyze([variant('Lightning Bolt', [['NM/M', 100, 1]])], [['Lightning Bolt', 3]]);
+    const plan = optimizeBudget(cards, { budget: 100, goal: 'coverage' });
+
+    assert.deepEqual(bought(plan), [['Lightning Bolt', 1]]);
+    assert.deepEqual(plan.leftOut.map(left => [left.quantity, left.reason]), [[2, 'unavailable']]);
+  });
+
+  it('spends on the cards with the highest priority first', () => {
+    const cards = analyze([
+      variant('Thoughtseize', [['NM/M', 1000, 4]]),
+      variant('Fatal Push', [['NM/M', 1000, 4]]),
+      variant('Inquisition of Kozilek', [['NM/M', 500, 4]])
+    ], [['Thoughtseize', 1], ['Fatal Push', 1], ['Inquisition of Kozilek', 2]]);
+    const [thoughtseize, push, inquisition] = cards;
+
+    // By copies, two cheap Inquisitions beat one expensive card
+    assert.deepEqual(bought(optimizeBudget(cards, { budget: 10, goal: 'coverage' })), [['Inquisition of Kozilek', 2]]);
+
+    const priorities = { [deckEntryKey(push)]: 5, [deckEntryKey(thoughtseize)]: 0.5 };
+    const plan = optimizeBudget(cards, { budget: 15, goal: 'priority', priorities });
+    assert.deepEqual(bought(plan), [['Fatal Push', 1], ['Inquisition of Kozilek', 1]]);
+
+    // Skipped cards are never bought, whatever the budget
+    const skipped = optimizeBudget(cards, { budget: 100, goal: 'priority', priorities: { [deckEntryKey(inquisition)]: 0 } });
+    assert.deepEqual(bought(skipped), [['Thoughtseize', 1], ['Fatal Push', 1]]);
+    assert.deepEqual(skipped.leftOut.map(left => [left.card.cardName, left.quantity, left.reason]), [['Inquisition of Kozilek', 2, 'skipped']]);
+  });
+
+  it('upgrades conditions only with money left over', () => {
+    const cards = analyze([
+      variant('Lightning Bolt', [['NM/M', 300, 4], ['HP', 100, 4]]),
+      variant('Counterspell', [['NM/M', 300, 4], ['HP', 100, 4]])
+    ], [['Lightning Bolt', 1], ['Counterspell', 1]]);
+
+    // Both cards come first; €2 left over pays for one upgrade but not two
+    const plan = optimizeBudget(cards, { budget: 4, goal: 'coverage' });
+    assert.deepEqual(bought(plan), [['Lightning Bolt', 1], ['Counterspell', 1]]);
+    assert.deepEqual(conditionsOf(plan, 'Lightning Bolt'), ['NM/M×1']);
+    assert.deepEqual(conditionsOf(plan, 'Counterspell'), ['HP×1']);
+    assert.equal(plan.spent, 4);
+
+    // Not enough left over: no upgrade, and no copy given up for one
+    const tight = optimizeBudget(cards, { budget: 3, goal: 'coverage' });
+    assert.deepEqual(bought(tight), [['Lightning Bolt', 1], ['Counterspell', 1]]);
+    assert.deepEqual([conditionsOf(tight, 'Lightning Bolt'), conditionsOf(tight, 'Counterspell')], [['HP×1'], ['HP×1']]);
+    assert.equal(tight.spent, 2);
+  });
+
+  it('leaves the copies the analysis gave other cards alone', () => {
+    // Two entries for one card: the cheap HP copies went to the first one
+    const data = [variant('Lightning Bolt', [['NM/M', 300, 2], ['HP', 100, 2]])];
+    const cards = analyzeDecks([deckFromCards('Test', 'modern', [
+      { name: 'Lightning Bolt', quantity: 2, board: 'mainboard' },
+      { name: 'Lightning Bolt', quantity: 2, board: 'sideboard' }
+    ])], data, { ...DEFAULT_PURCHASE_POLICY, tradeoff: 'price' }).decks[0].cardAvailability;
+
+    const plan = optimizeBudget(cards, { budget: 100, goal: 'coverage', policy: { ...DEFAULT_PURCHASE_POLICY, tradeoff: 'price' } });
+    assert.equal(plan.copiesCovered, 4);
+    assert.deepEqual(plan.picks.map(pick => pick.plan.lines.map(line => `${line.condition.condition}×${line.quantity}`)), [['HP×2'], ['NM/M×2']]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { detectDeckListFormat, importDeckList } from '../lib/deck-import';
+
+// One small deck list per supported format, as exported by the tools players use
+const importFixture = (file: string) =>
+  importDeckList(readFileSync(path.join(__dirname, 'fixtures', file), 'utf8'), { fileName: file });
+
+describe('importDeckList', () => {
+  it('parses plain lists with quantities, printings, foils and SB: lines', () => {
+    const result = importFixture('deck-text.txt');
+
+    assert.equal(result.source, 'text');
+    assert.deepEqual(result.deck.cards, [
+      { name: 'Goblin Guide', quantity: 4, board: 'mainboard', set: undefined, collectorNumber: undefined, foil: false },
+      { name: 'Monastery Swiftspear', quantity: 4, board: 'mainboard', set: undefined, collectorNumber: undefined, foil: false },
+      { name: 'Lightning Bolt', quantity: 4, board: 'mainboard', set: '2X2', collectorNumber: '117', foil: true },
+      { name: 'Smash to Smithereens', quantity: 2, board: 'sideboard', set: undefined, collectorNumber: undefined, foil: false }
+    ]);
+    assert.equal(result.deck.totalCards, 14);
+
+    // Comments and category headings are skipped quietly, broken card lines are reported
+    assert.deepEqual(result.skipped, [{ line: 8, text: 'x Shock', reason: 'Missing quantity' }]);
+  });
+
+  it('strips Moxfield tags and Archidekt categories and labels', () => {
+    const { deck } = importDeckList([
+      '1 Sol Ring #Ramp #!Staple',
+      '1x Arcane Signet (CMM) 374 [Ramp] ^Have,#37d67a^',
+      '1x Atraxa, Praetors\' Voice (C16) 28 *F* [Commander{top}]'
+    ].join('\n'));
+
+    assert.deepEqual(deck.cards.map(card => [card.name, card.set, card.board, card.foil]), [
+      ['Sol Ring', undefined, 'mainboard', false],
+      ['Arcane Signet', 'CMM', 'mainboard', false],
+      ['Atraxa, Praetors\' Voice', 'C16', 'commanders', true]
+    ]);
+  });
+
+  it('parses Arena exports with sections and the deck name', () => {
+    const result = importFixture('deck-arena.txt');
+
+    assert.equal(result.source, 'arena');
+    assert.equal(result.deck.name, 'Izzet Phoenix');
+    assert.deepEqual(result.deck.cards.map(card => [card.name, card.quantity, card.set, card.collectorNumber, card.foil, card.board]), [
+      ['Niv-Mizzet, Parun', 1, 'GRN', '192', false, 'commanders'],
+      ['Arclight Phoenix', 4, 'GRN', '91', false, 'mainboard'],
+      ['Fire // Ice', 2, 'MH2', '290', true, 'mainboard'],
+      ['Island', 1, undefined, undefined, false, 'mainboard'],
+      ['Mystical Dispute', 2, 'ELD', '58', false, 'sideboard']
+    ]);
+    assert.deepEqual(result.skipped, []);
+  });
+
+  it('parses MTGO .dek files', () => {
+    const result = importFixture('deck-mtgo.dek');
+
+    assert.equal(result.source, 'mtgo-dek');
+    assert.deepEqual(result.deck.cards, [
+      { name: 'Ragavan, Nimble Pilferer', quantity: 4, board: 'mainboard' },
+      { name: 'Jötun Grunt & Friends', quantity: 2, board: 'mainboard' },
+      { name: 'Blood Moon', quantity: 3, board: 'sideboard' }
+    ]);
+    assert.equal(result.skipped.length, 1);
+    assert.equal(result.skipped[0].line, 8);
+    assert.equal(result.skipped[0].reason, 'Invalid quantity');
+  });
+
+  it('parses Moxfield CSV exports', () => {
+    const result = importFixture('deck-moxfield.csv');
+
+    assert.equal(result.source, 'moxfield-csv');
+    assert.deepEqual(result.deck.cards, [
+      { name: 'Counterspell', quantity: 4, board: 'mainboard', set: 'MH2', collectorNumber: '267', foil: false },
+      { name: 'Kozilek, Butcher of Truth', quantity: 1, board: 'mainboard', set: 'UMA', collectorNumber: '1', foil: true }
+    ]);
+    assert.deepEqual(result.skipped.map(issue => [issue.line, issue.reason]), [[4, 'Invalid quantity ""']]);
+  });
+
+  it('parses Archidekt CSV exports with boards from categories', () => {
+    const result = importFixture('deck-archidekt.csv');
+
+    assert.equal(result.source, 'archidekt-csv');
+    assert.deepEqual(result.deck.cards.map(card => [card.name, card.quantity, card.set, card.foil, card.board]), [
+      ['Atraxa, Praetors\' Voice', 1, 'C16', true, 'commanders'],
+      ['Sol Ring', 1, 'CMM', false, 'mainboard'],
+      ['Swords to Plowshares', 1, 'STA', false, 'sideboard']
+    ]);
+  });
+});
+
+describe('detectDeckListFormat', () => {
+  it('recognizes .dek files without an XML prolog by their name', () => {
+    assert.equal(detectDeckListFormat('<Cards Quantity="1" Name="Island" />', 'deck.dek'), 'mtgo-dek');
+  });
+
+  it('treats a list without Arena markers as plain text', () => {
+    assert.equal(detectDeckListFormat('4 Lightning Bolt\n2 Shock'), 'text');
+  });
+});
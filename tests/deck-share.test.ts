@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeckShareState } from '../lib/types';
+import { DeckShareError, buildDeckShareUrl, decodeDeckShare, encodeDeckShare } from '../lib/deck-share';
+
+// Node has CompressionStream, so these links go through the same deflate-raw path as in the browser
+
+const state: DeckShareState = {
+  deckName: 'Mono-Red Burn',
+  cards: [
+    { name: 'Lightning Bolt', quantity: 4, board: 'mainboard', set: '2X2', collectorNumber: '117', foil: true },
+    { name: 'Fire // Ice', quantity: 2, board: 'mainboard', set: undefined, collectorNumber: undefined, foil: false },
+    { name: 'Smash to Smithereens', quantity: 2, board: 'sideboard', set: undefined, collectorNumber: undefined, foil: false }
+  ],
+  matchCardStyle: true,
+  excludeBasicLands: false,
+  aggressiveArtMatching: true,
+  view: { sortBy: 'name', sortDirection: 'asc', hiddenCards: ['sideboard|smash to smithereens'] }
+};
+
+const plainPayload = (payload: object) => `j${Buffer.from(JSON.stringify(payload)).toString('base64url')}`;
+
+describe('deck share links', () => {
+  it('round-trips the deck, options and view through a compressed link', async () => {
+    const encoded = await encodeDeckShare(state);
+
+    assert.equal(encoded.charAt(0), 'z');
+    assert.match(encoded, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(await decodeDeckShare(encoded), state);
+  });
+
+  it('opens uncompressed links', async () => {
+    const decoded = await decodeDeckShare(plainPayload({ v: 1, n: 'Burn', l: '4 Lightning Bolt', o: 2, s: 'none', d: 'd', h: [] }));
+
+    assert.equal(decoded.deckName, 'Burn');
+    assert.deepEqual(decoded.cards.map(card => [card.name, card.quantity]), [['Lightning Bolt', 4]]);
+    assert.equal(decoded.excludeBasicLands, true);
+    assert.equal(decoded.matchCardStyle, false);
+    assert.equal(decoded.view.sortDirection, 'desc');
+  });
+
+  it('builds links to the deck page', () => {
+    assert.equal(buildDeckShareUrl('https://example.com', 'zabc'), 'https://example.com/deck?d=zabc');
+  });
+
+  it('rejects truncated and corrupt links', async () => {
+    const encoded = await encodeDeckShare(state);
+    const damaged = /damaged or incomplete/;
+
+    await assert.rejects(decodeDeckShare(encoded.slice(0, encoded.length - 10)), damaged);
+    await assert.rejects(decodeDeckShare(encoded.slice(0, 8)), damaged);
+    await assert.rejects(decodeDeckShare('z!!!not-a-link'), damaged);
+    await assert.rejects(decodeDeckShare('jeyJ2Ijo'), damaged);
+    await assert.rejects(decodeDeckShare(`q${encoded.slice(1)}`), /Unknown share link format/);
+    await assert.rejects(decodeDeckShare(''), DeckShareError);
+  });
+
+  it('rejects links from another payload version', async () => {
+    await assert.rejects(
+      decodeDeckShare(plainPayload({ v: 2, n: 'Burn', l: '4 Lightning Bolt' })),
+      /different version of the app/
+    );
+  });
+});
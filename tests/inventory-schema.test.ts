@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { CURRENT_SCHEMA_VERSION, InventorySchemaError, migrateInventory, parseInventoryData } from '../lib/inventory-schema';
+
+// Stock files written by older scrapers, with the records the validator has to repair or drop
+const readFixture = (file: string) => JSON.parse(readFileSync(path.join(__dirname, 'fixtures', file), 'utf8'));
+
+describe('parseInventoryData', () => {
+  it('migrates a v1 file of flat price/stock records', () => {
+    const { data, report } = parseInventoryData(readFixture('inventory-v1.json'));
+
+    assert.equal(data.schemaVersion, CURRENT_SCHEMA_VERSION);
+    assert.equal(data.lastUpdated, '2024-03-01T10:00:00.000Z');
+    assert.equal(data.totalCards, 2);
+    assert.equal(data.collectionsProcessed, 2);
+
+    const [bolt, counterspell] = data.cards;
+    assert.equal(bolt.variantId, '2010:lightning-bolt:nonfoil');
+    assert.deepEqual(bolt.conditions, [{ condition: 'NM/M', price: 150, stock: 4, priceFormatted: '1.50 €' }]);
+    assert.equal(bolt.price, 150);
+    assert.equal(bolt.stock, 4);
+
+    // "90" is read as a number, the negative stock is clamped
+    assert.equal(counterspell.variantId, '1997:counterspell:nonfoil');
+    assert.equal(counterspell.conditions[0].price, 90);
+    assert.equal(counterspell.conditions[0].stock, 0);
+    assert.equal(counterspell.stock, 0);
+  });
+
+  it('reports the v1 migrations, repairs and dropped records', () => {
+    const { report } = parseInventoryData(readFixture('inventory-v1.json'));
+
+    assert.equal(report.sourceVersion, 1);
+    assert.equal(report.targetVersion, CURRENT_SCHEMA_VERSION);
+    assert.equal(report.migrationsApplied.length, 2);
+    assert.equal(report.totalRecords, 3);
+    assert.equal(report.acceptedRecords, 2);
+    assert.deepEqual(report.droppedRecords, [{ index: 2, name: '(unnamed)', collection: 'Tempest', reasons: ['missing card name'] }]);
+    assert.deepEqual(report.repairedRecords, [
+      { index: 1, name: 'Counterspell', collection: 'Tempest', reasons: ['NM/M: negative stock (-2) set to 0'] }
+    ]);
+  });
+
+  it('migrates a v2 file and repairs its conditions', () => {
+    const { data } = parseInventoryData(readFixture('inventory-v2.json'));
+
+    assert.equal(data.totalCards, 2);
+    assert.equal(data.collectionsProcessed, 2);
+
+    // The unpriced EX/GD row is dropped; outpostId is kept as a string
+    const [flare, flareAlt] = data.cards;
+    assert.equal(flare.variantId, '113510133:flare-of-denial:nonfoil');
+    assert.deepEqual(flare.conditions, [
+      { condition: 'NM/M', price: 1450, stock: 2, priceFormatted: '14.50 €', outpostId: '700101' }
+    ]);
+
+    // A second listing of the name in the collection gets its own ID from its product ID; missing colors mean colorless
+    assert.equal(flareAlt.variantId, '113510133:flare-of-denial:nonfoil#7003');
+    assert.equal(flareAlt.stock, 0);
+    assert.equal(flareAlt.colors.colorless, true);
+    assert.equal(flareAlt.colors.blue, false);
+  });
+
+  it('reports the v2 repairs and dropped records', () => {
+    const { report } = parseInventoryData(readFixture('inventory-v2.json'));
+
+    assert.equal(report.sourceVersion, 2);
+    assert.deepEqual(report.migrationsApplied, ['v2 → v3: added variantId to every card']);
+    assert.equal(report.totalRecords, 3);
+    assert.equal(report.acceptedRecords, 2);
+
+    assert.equal(report.droppedRecords.length, 1);
+    assert.equal(report.droppedRecords[0].name, 'Nadu, Winged Wisdom');
+    assert.deepEqual(report.droppedRecords[0].reasons, [
+      'no valid conditions left after validation',
+      'NM/M: dropped (price is not a number)',
+      'condition #2: dropped (missing condition label)'
+    ]);
+
+    assert.deepEqual(report.repairedRecords.map(record => [record.index, record.reasons]), [
+      [0, ['EX/GD: dropped (price is not a number)']],
+      [1, ['NM/M: negative stock (-1) set to 0', 'missing colors, defaulted to colorless']]
+    ]);
+  });
+
+  it('loads a current file without migrations or repairs', () => {
+    const { data } = parseInventoryData(readFixture('inventory-v2.json'));
+    const { data: reloaded, report } = parseInventoryData(data);
+
+    assert.deepEqual(reloaded.cards, data.cards);
+    assert.equal(report.sourceVersion, CURRENT_SCHEMA_VERSION);
+    assert.deepEqual(report.migrationsApplied, []);
+    assert.deepEqual(report.droppedRecords, []);
+    assert.deepEqual(report.repairedRecords, []);
+  });
+});
+
+describe('migrateInventory', () => {
+  it('accepts a bare array of cards as v1', () => {
+    const { data, sourceVersion } = migrateInventory([{ name: 'Lightning Bolt', price: 150, stock: 1 }]);
+    assert.equal(sourceVersion, 1);
+    assert.equal(data.cards[0].conditions[0].condition, 'NM/M');
+  });
+
+  it('rejects files it cannot read', () => {
+    assert.throws(() => migrateInventory('not json'), InventorySchemaError);
+    assert.throws(() => migrateInventory({ lastUpdated: '2024-01-01' }), /no cards array/);
+    assert.throws(() => migrateInventory({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, cards: [] }), /newer than this app supports/);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonArrayStreamError, createJsonArrayStream } from '../lib/json-array-stream';
+
+// Bulk data cards with the characters that trip up a naive splitter: brackets, commas,
+// quotes and newlines inside strings, nested objects and arrays
+const cards = [
+  { object: 'card', name: 'Fire // Ice', oracle_text: 'Fire deals 2 damage divided as you choose among one or two targets.\n{1}{U}: [tap] "Ice"', card_faces: [{ name: 'Fire' }, { name: 'Ice' }] },
+  { object: 'card', name: 'Jötun Grunt', oracle_text: 'Cumulative upkeep—Put two cards from a single graveyard on the bottom of their owner\'s library. \\ }]', prices: { eur: '0.10', usd: null } },
+  { object: 'card', name: 'Ajani, Nacatl Pariah', legalities: { modern: 'legal' }, color_identity: ['W'] }
+];
+
+// Feed the text in chunks of the given size, as a file stream would
+function parseInChunks(text: string, chunkSize: number): any[] {
+  const elements: any[] = [];
+  const parser = createJsonArrayStream(element => elements.push(element));
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    parser.write(text.slice(offset, offset + chunkSize));
+  }
+  parser.end();
+  return elements;
+}
+
+describe('createJsonArrayStream', () => {
+  it('parses minified, pretty-printed and one-per-line files', () => {
+    const layouts = [
+      JSON.stringify(cards),
+      JSON.stringify(cards, null, 2),
+      `[\n${cards.map(card => JSON.stringify(card)).join(',\n')}\n]\n`
+    ];
+
+    layouts.forEach(text => assert.deepEqual(parseInChunks(text, text.length), cards));
+  });
+
+  it('gives the same cards however the text is split into chunks', () => {
+    const text = JSON.stringify(cards);
+    [1, 2, 3, 7, 64].forEach(chunkSize => assert.deepEqual(parseInChunks(text, chunkSize), cards, `chunks of ${chunkSize}`));
+  });
+
+  it('emits each element as soon as it closes', () => {
+    const elements: any[] = [];
+    const parser = createJsonArrayStream(element => elements.push(element));
+
+    parser.write('[{"name":"Shock"},{"name":"Lightning');
+    assert.deepEqual(elements, [{ name: 'Shock' }]);
+
+    parser.write(' Bolt"}]');
+    parser.end();
+    assert.deepEqual(elements, [{ name: 'Shock' }, { name: 'Lightning Bolt' }]);
+  });
+
+  it('accepts an empty array', () => {
+    assert.deepEqual(parseInChunks(' [ ] ', 2), []);
+  });
+
+  it('rejects files that are not a complete array of objects', () => {
+    const invalid: [string, RegExp][] = [
+      ['{"object":"list"}', /expected a JSON array/],
+      ['[{"name":"Shock"}', /ends before the array does/],
+      ['[{"name":"Shock"},', /ends before the array does/],
+      ['[{"name":"Shock"},]', /expected an object/],
+      ['[{"name":"Shock"} {"name":"Bolt"}]', /expected "," or "]"/],
+      ['["Shock"]', /expected an object/],
+      ['[{"name":Shock}]', /invalid JSON/],
+      ['[{"name":"Shock"}] []', /after the end of the array/]
+    ];
+
+    invalid.forEach(([text, message]) => {
+      assert.throws(() => parseInChunks(text, 4), (error: unknown) => error instanceof JsonArrayStreamError && message.test(error.message), text);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  CATALOG_URL, HttpTransport, createStaticTransport, fetchCatalogCollections, getCollectionUrl, parseCatalogCollections,
+  parseCollectionPage, scrapeCollection
+} from '../lib/outpost-scraper';
+import { assignVariantIds } from '../lib/card-variants';
+import { OutpostCard } from '../lib/types';
+
+// Saved outpost.be pages: a change in the shop's markup should fail here before it empties the stock file
+// outpost.html is the catalog page; fixtures/outpost-collection.html is a trimmed Modern Horizons 3 product list.
+
+const catalogHtml = readFileSync(path.join(__dirname, '..', 'outpost.html'), 'utf8');
+const collectionHtml = readFileSync(path.join(__dirname, 'fixtures', 'outpost-collection.html'), 'utf8');
+
+const MH3 = { id: '113510133', name: 'Modern Horizons 3', url: getCollectionUrl('113510133') };
+
+describe('parseCatalogCollections', () => {
+  it('lists every collection on the catalog page once', () => {
+    const collections = parseCatalogCollections(catalogHtml);
+
+    assert.equal(collections.length, 696);
+    assert.deepEqual(collections[0], {
+      id: '34181788',
+      name: 'Arena Online Codes',
+      url: getCollectionUrl('34181788')
+    });
+    assert.equal(new Set(collections.map(collection => collection.id)).size, collections.length);
+  });
+
+  it('finds collections by name', () => {
+    const collections = parseCatalogCollections(catalogHtml);
+    assert.deepEqual(collections.find(collection => collection.name === 'Modern Horizons 3'), MH3);
+    assert.equal(collections.find(collection => collection.name === 'Modern Horizons 3 (Foil)')?.id, '113510663');
+  });
+
+  it('falls back to any collection link in older layouts', () => {
+    const html = '<div><a href="index.php?view=productlist&amp;collectionid=42">Alpha</a><a href="index.php?collectionid=43">X</a></div>';
+    assert.deepEqual(parseCatalogCollections(html), [{ id: '42', name: 'Alpha', url: getCollectionUrl('42') }]);
+  });
+
+  it('finds no collections on a collection page', () => {
+    assert.deepEqual(parseCatalogCollections(collectionHtml), []);
+  });
+});
+
+describe('parseCollectionPage', () => {
+  it('parses the cards with their conditions, links and collection', () => {
+    const { cards } = parseCollectionPage(collectionHtml, MH3);
+    const flare = cards[0];
+
+    assert.deepEqual(cards.map(card => card.name), ['Flare of Denial', 'Flare of Denial', 'Flare of Denial', 'Nadu, Winged Wisdom']);
+    assert.equal(flare.rarity, 'R');
+    assert.equal(flare.foil, false);
+    assert.equal(flare.set, 'Modern Horizons 3');
+    assert.equal(flare.collection, 'Modern Horizons 3');
+    assert.equal(flare.collectionId, '113510133');
+    assert.equal(flare.colors.blue, true);
+    assert.equal(flare.colors.white, false);
+    assert.equal(flare.imageUrl, 'https://www.outpost.be/website/images/shop/mtg/mh3/flare_of_denial.jpg');
+    assert.equal(flare.detailUrl, 'https://www.outpost.be/website/index.php?option=com_outpostshop&Itemid=4&view=detail&productid=7001');
+  });
+
+  it('keeps every priced or stocked condition and summarizes them', () => {
+    const [flare] = parseCollectionPage(collectionHtml, MH3).cards;
+
+    // The SP/P row has neither price nor stock
+    assert.deepEqual(flare.conditions, [
+      { condition: 'NM/M', price: 1450, stock: 2, priceFormatted: '14.50 €', outpostId: '700101' },
+      { condition: 'EX/GD', price: 1200, stock: 1, priceFormatted: '12.00 €', outpostId: '700102' }
+    ]);
+    assert.equal(flare.price, 1200);
+    assert.equal(flare.stock, 3);
+  });
+
+  it('gives same-name variants of a collection their own IDs', () => {
+    const { cards } = parseCollectionPage(collectionHtml, MH3);
+    assert.deepEqual(cards.map(card => card.variantId), [
+      '113510133:flare-of-denial:nonfoil',
+      '113510133:flare-of-denial:foil',
+      '113510133:flare-of-denial:nonfoil#7003',
+      '113510133:nadu-winged-wisdom:nonfoil'
+    ]);
+  });
+
+  it('keeps variant IDs when Outpost reorders the page', () => {
+    const { cards } = parseCollectionPage(collectionHtml, MH3);
+    const idsByProduct = (list: OutpostCard[]) => list.map(card => `${card.detailUrl} ${card.variantId}`).sort();
+
+    const reordered = assignVariantIds(cards.map(({ variantId, ...card }) => card).reverse());
+    assert.deepEqual(idsByProduct(reordered), idsByProduct(cards));
+  });
+
+  it('counts why cards were skipped', () => {
+    const result = parseCollectionPage(collectionHtml, MH3);
+
+    // Emrakul has no price, Ajani no set, and one element is an empty placeholder
+    assert.equal(result.skipped, 3);
+    assert.deepEqual(result.skipReasons, { noName: 1, noPrice: 2, noConditions: 1, noSet: 1 });
+  });
+
+  it('stops at maxCards', () => {
+    assert.equal(parseCollectionPage(collectionHtml, MH3, { maxCards: 2 }).cards.length, 2);
+  });
+
+  it('finds no cards on the catalog page', () => {
+    assert.equal(parseCollectionPage(catalogHtml, MH3).cards.length, 0);
+  });
+});
+
+describe('scrapeCollection', () => {
+  const transport = createStaticTransport({
+    [CATALOG_URL]: catalogHtml,
+    [MH3.url]: collectionHtml
+  });
+
+  it('scrapes a collection found in the catalog', async () => {
+    const collections = await fetchCatalogCollections(transport);
+    const collection = collections.find(c => c.name === 'Modern Horizons 3');
+    assert.ok(collection);
+
+    const result = await scrapeCollection(transport, collection);
+    assert.equal(result.collection, collection);
+    assert.equal(result.cards.length, 4);
+    assert.equal(result.skipped, 3);
+  });
+
+  it('retries failed requests', async () => {
+    let attempts = 0;
+    const flaky: HttpTransport = {
+      async get(url) {
+        attempts++;
+        if (attempts < 3) throw new Error('Connection reset');
+        return transport.get(url);
+      }
+    };
+
+    const result = await scrapeCollection(flaky, MH3, { maxRetries: 3, retryDelayMs: 0 });
+    assert.equal(attempts, 3);
+    assert.equal(result.cards.length, 4);
+  });
+
+  it('fails for pages it has no copy of', async () => {
+    const missing = { id: '1', name: 'Missing', url: getCollectionUrl('1') };
+    await assert.rejects(scrapeCollection(transport, missing), /No saved page/);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CardCondition, OutpostCard, PurchasePlan, PurchasePolicy } from '../lib/types';
+import { allocatePurchase, createStockLedger, reservePurchase } from '../lib/purchase-allocation';
+import { DEFAULT_PURCHASE_POLICY } from '../lib/purchase-policy';
+import { analyzeDecks, deckFromCards, otherDecksLedger } from '../lib/deck-analysis';
+
+// One Outpost variant with the given condition listings, prices in cents
+function variant(variantId: string, conditions: [string, number, number][], foil = false): OutpostCard {
+  const listings: CardCondition[] = conditions.map(([condition, price, stock]) => ({ condition, price, stock, priceFormatted: '' }));
+  return {
+    variantId,
+    name: 'Lightning Bolt',
+    alphabet: 'L',
+    rarity: 'C',
+    foil,
+    colors: { white: false, blue: false, black: false, red: true, green: false, colorless: false },
+    collection: variantId,
+    collectionId: variantId,
+    conditions: listings,
+    price: Math.min(...listings.map(listing => listing.price)),
+    stock: listings.reduce((sum, listing) => sum + listing.stock, 0),
+    priceFormatted: ''
+  };
+}
+
+const policy = (overrides: Partial<PurchasePolicy>): PurchasePolicy => ({ ...DEFAULT_PURCHASE_POLICY, ...overrides });
+
+// "m10 NM/M×2" per line, for readable assertions
+const describePlan = (plan: PurchasePlan) => plan.lines.map(line => `${line.card.variantId} ${line.condition.condition}×${line.quantity}`);
+
+describe('allocatePurchase', () => {
+  const m10 = variant('m10', [['NM/M', 300, 2], ['EX/GD', 200, 3], ['HP', 100, 1]]);
+
+  it('spreads copies over listings in the order the policy buys them', () => {
+    const plan = allocatePurchase([m10], 4);
+
+    assert.deepEqual(describePlan(plan), ['m10 NM/M×2', 'm10 EX/GD×2']);
+    assert.equal(plan.quantity, 4);
+    assert.equal(plan.shortfall, 0);
+    assert.equal(plan.totalCost, 10);
+  });
+
+  it('buys the cheapest listings first with the price tradeoff', () => {
+    const plan = allocatePurchase([m10], 2, { policy: policy({ tradeoff: 'price' }) });
+    assert.deepEqual(describePlan(plan), ['m10 HP×1', 'm10 EX/GD×1']);
+  });
+
+  it('reports a shortfall when stock runs out', () => {
+    const plan = allocatePurchase([m10], 8);
+
+    assert.equal(plan.quantity, 6);
+    assert.equal(plan.shortfall, 2);
+    assert.equal(plan.totalCost, 13);
+  });
+
+  it('skips listings the policy rejects', () => {
+    const foil = variant('m10-foil', [['NM/M', 900, 4]], true);
+    const unpriced = variant('m11', [['NM/M', 0, 4]]);
+
+    // Minimum condition
+    assert.deepEqual(describePlan(allocatePurchase([m10], 6, { policy: policy({ minCondition: 'EX/GD' }) })), ['m10 NM/M×2', 'm10 EX/GD×3']);
+
+    // Foil preferences, including the deck list's *F* marker
+    assert.deepEqual(describePlan(allocatePurchase([foil, m10], 2, { policy: policy({ foil: 'never' }) })), ['m10 NM/M×2']);
+    assert.deepEqual(describePlan(allocatePurchase([m10, foil], 2, { policy: policy({ foil: 'require' }) })), ['m10-foil NM/M×2']);
+    assert.deepEqual(describePlan(allocatePurchase([m10, foil], 2, { policy: policy({ foil: 'match' }), wantedFoil: true })), ['m10-foil NM/M×2']);
+
+    // Listings without a price are never bought
+    assert.equal(allocatePurchase([unpriced], 1).shortfall, 1);
+  });
+
+  it('does not plan copies the ledger already holds', () => {
+    const ledger = createStockLedger();
+
+    const first = allocatePurchase([m10], 4, { ledger });
+    const second = allocatePurchase([m10], 4, { ledger });
+
+    assert.deepEqual(describePlan(first), ['m10 NM/M×2', 'm10 EX/GD×2']);
+    assert.deepEqual(describePlan(second), ['m10 EX/GD×1', 'm10 HP×1']);
+    assert.equal(second.shortfall, 2);
+  });
+
+  it('starts a ledger from reservations without changing them', () => {
+    const reserved = createStockLedger();
+    reservePurchase(reserved, allocatePurchase([m10], 2).lines);
+
+    const ledger = createStockLedger(reserved);
+    assert.deepEqual(describePlan(allocatePurchase([m10], 1, { ledger })), ['m10 EX/GD×1']);
+    assert.equal(reserved.get('m10|EX/GD'), undefined);
+    assert.equal(reserved.get('m10|NM/M'), 2);
+  });
+});
+
+describe('stock shared between decks', () => {
+  const data = [variant('m10', [['NM/M', 300, 2], ['EX/GD', 200, 3]])];
+  const deck = (id: string, quantity: number) => ({
+    ...deckFromCards(id, 'modern', [{ name: 'Lightning Bolt', quantity, board: 'mainboard' }]),
+    id
+  });
+
+  it('never promises a copy to two decks', () => {
+    const analysis = analyzeDecks([deck('burn', 4), deck('prowess', 4)], data, DEFAULT_PURCHASE_POLICY);
+    const [burn, prowess] = analysis.decks.map(result => result.cardAvailability[0].purchasePlan);
+
+    assert.deepEqual(describePlan(burn), ['m10 NM/M×2', 'm10 EX/GD×2']);
+    assert.deepEqual(describePlan(prowess), ['m10 EX/GD×1']);
+    assert.equal(prowess.shortfall, 3);
+
+    const [line] = analysis.shoppingList.filter(l => l.condition.condition === 'EX/GD');
+    assert.equal(line.quantity, 3);
+    assert.deepEqual(line.decks.map(d => [d.deckId, d.quantity]), [['burn', 2], ['prowess', 1]]);
+  });
+
+  it('re-plans one deck against what the others were given', () => {
+    const analysis = analyzeDecks([deck('burn', 4), deck('prowess', 4)], data, DEFAULT_PURCHASE_POLICY);
+    const ledger = otherDecksLedger(analysis, 'prowess');
+
+    assert.equal(ledger.get('m10|NM/M'), 2);
+    assert.equal(ledger.get('m10|EX/GD'), 2);
+    assert.deepEqual(describePlan(allocatePurchase(data, 4, { ledger })), ['m10 EX/GD×1']);
+  });
+});